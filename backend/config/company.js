@@ -0,0 +1,19 @@
+// Currency symbol and the unit names amounts are spelled out in on vouchers
+const getCurrency = () => ({
+  symbol: process.env.CURRENCY_SYMBOL || '$',
+  unit: process.env.CURRENCY_UNIT || 'Dollar',
+  units: process.env.CURRENCY_UNITS || 'Dollars',
+  subunit: process.env.CURRENCY_SUBUNIT || 'Cent',
+  subunits: process.env.CURRENCY_SUBUNITS || 'Cents'
+});
+
+// Company details printed at the top of exported reports, read from the environment
+const getCompany = () => ({
+  name: process.env.COMPANY_NAME || 'Cash Flow',
+  address: process.env.COMPANY_ADDRESS || '',
+  phone: process.env.COMPANY_PHONE || '',
+  email: process.env.COMPANY_EMAIL || '',
+  currency: getCurrency()
+});
+
+module.exports = { getCompany, getCurrency };
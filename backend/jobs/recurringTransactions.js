@@ -0,0 +1,121 @@
+const RecurringSchedule = require('../models/RecurringSchedule');
+const Transaction = require('../models/Transaction');
+const { toDateString } = require('../utils/ledger');
+const { occurrenceDate, isFinished } = require('../utils/recurrence');
+const { withSerialNumbers } = require('../utils/transactionDetails');
+const { checkPeriodsOpen } = require('../utils/periods');
+const { recordAudit } = require('../utils/audit');
+
+// How often the backend looks for due occurrences; override with RECURRING_JOB_MINUTES
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+let running = false;
+
+// Post every occurrence of one schedule that is due on or before `now`.
+// Each occurrence is claimed by advancing nextIndex atomically before it is posted, so a
+// manual run overlapping the background job never posts one twice. If the post fails the
+// claim is handed back and lastError names the date, so the next run tries it again.
+// A process that dies between the claim and the post still skips that occurrence.
+const runSchedule = async (schedule, now) => {
+  const posted = [];
+  let claimedAny = false;
+  let lastError = null;
+
+  while (!isFinished(schedule, schedule.nextIndex)) {
+    const index = schedule.nextIndex;
+    const date = occurrenceDate(schedule, index);
+    if (date > now) break;
+
+    const skipped = schedule.skippedDates.includes(toDateString(date));
+    if (!skipped) {
+      const periodError = await checkPeriodsOpen(date);
+      if (periodError) {
+        lastError = periodError.message;
+        break;
+      }
+    }
+
+    const claimed = await RecurringSchedule.findOneAndUpdate(
+      { _id: schedule._id, nextIndex: index },
+      { $inc: { nextIndex: 1 } },
+      { new: true }
+    );
+    // Another run already took this occurrence and will carry on from there
+    if (!claimed) break;
+    schedule.nextIndex = claimed.nextIndex;
+    claimedAny = true;
+
+    if (!skipped) {
+      const transaction = new Transaction({
+        date,
+        details: withSerialNumbers(schedule.details.map(detail => detail.toObject())),
+        status: schedule.transactionStatus,
+        voucherType: schedule.voucherType,
+        schedule: schedule._id
+      });
+      try {
+        await transaction.save();
+      } catch (error) {
+        await RecurringSchedule.updateOne({ _id: schedule._id, nextIndex: index + 1 }, { $inc: { nextIndex: -1 } });
+        schedule.nextIndex = index;
+        lastError = `Could not post the ${toDateString(date)} occurrence: ${error.message}`;
+        break;
+      }
+      await recordAudit(null, 'Transaction', 'create', null, transaction);
+      posted.push(transaction);
+    }
+  }
+
+  // Update only these fields; saving the document could move nextIndex back.
+  // An error from an earlier run is cleared once an occurrence gets through.
+  const update = { $set: { lastRunAt: now } };
+  if (lastError) {
+    update.$set.lastError = lastError;
+  } else if (claimedAny) {
+    update.$unset = { lastError: 1 };
+  }
+  await RecurringSchedule.updateOne({ _id: schedule._id }, update);
+
+  schedule.lastRunAt = now;
+  if (lastError) schedule.lastError = lastError;
+  else if (claimedAny) schedule.lastError = undefined;
+  return posted;
+};
+
+// Run every active schedule; one failing schedule does not stop the others
+const runDueSchedules = async (now = new Date()) => {
+  if (running) return;
+  running = true;
+
+  try {
+    const schedules = await RecurringSchedule.find({ isActive: true });
+    for (const schedule of schedules) {
+      try {
+        const posted = await runSchedule(schedule, now);
+        if (posted.length > 0) {
+          console.log(`Recurring schedule "${schedule.name}" posted ${posted.length} transaction(s)`);
+        }
+      } catch (error) {
+        console.error(`Recurring schedule "${schedule.name}" failed:`, error.message);
+        await RecurringSchedule.updateOne({ _id: schedule._id }, { lastError: error.message });
+      }
+    }
+  } catch (error) {
+    console.error('Recurring transaction job failed:', error.message);
+  } finally {
+    running = false;
+  }
+};
+
+// Run once at startup, then on a fixed interval for the life of the process
+const startRecurringJob = () => {
+  const minutes = Number(process.env.RECURRING_JOB_MINUTES) || DEFAULT_INTERVAL_MINUTES;
+  runDueSchedules();
+  setInterval(runDueSchedules, minutes * 60 * 1000);
+};
+
+module.exports = {
+  runSchedule,
+  runDueSchedules,
+  startRecurringJob
+};
@@ -0,0 +1,53 @@
+const jwt = require('jsonwebtoken');
+const User = require('../models/User');
+
+const TOKEN_TTL = process.env.JWT_EXPIRES_IN || '12h';
+
+const getSecret = () => {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+  return process.env.JWT_SECRET;
+};
+
+// Sign a login token carrying the user's id and role
+const signToken = (user) =>
+  jwt.sign({ sub: String(user._id), role: user.role }, getSecret(), { expiresIn: TOKEN_TTL });
+
+// Require a valid "Authorization: Bearer <token>" header and load req.user
+const authenticate = async (req, res, next) => {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  try {
+    const payload = jwt.verify(token, getSecret());
+    const user = await User.findById(payload.sub);
+    if (!user || !user.isActive) {
+      return res.status(401).json({ message: 'User is no longer active' });
+    }
+    req.user = user;
+    next();
+  } catch (error) {
+    res.status(401).json({ message: 'Invalid or expired token' });
+  }
+};
+
+// Allow only the given roles; use after authenticate
+const authorize = (...roles) => (req, res, next) => {
+  if (!req.user || !roles.includes(req.user.role)) {
+    return res.status(403).json({ message: 'You do not have permission to perform this action' });
+  }
+  next();
+};
+
+// Roles allowed to create, change or remove bookkeeping records
+const canWrite = authorize('admin', 'accountant');
+
+module.exports = {
+  signToken,
+  authenticate,
+  authorize,
+  canWrite
+};
@@ -35,6 +35,29 @@ const accountSchema = new mongoose.Schema({
   isOwnerAccount: {
     type: Boolean,
     default: false
+  },
+  // Opening balance, posted as a balanced entry against Opening Balance Equity
+  openingBalance: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  openingBalanceType: {
+    type: String,
+    enum: ['debit', 'credit'],
+    default: 'debit'
+  },
+  openingBalanceDate: {
+    type: Date
+  },
+  openingTransaction: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Transaction'
+  },
+  // Archived accounts are hidden from pickers but keep their history
+  isArchived: {
+    type: Boolean,
+    default: false
   }
 }, {
   timestamps: true
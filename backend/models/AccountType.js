@@ -1,5 +1,15 @@
 const mongoose = require('mongoose');
 
+// Side on which each accounting element normally carries its balance,
+// listed in financial statement order
+const NORMAL_BALANCES = {
+  asset: 'debit',
+  liability: 'credit',
+  equity: 'credit',
+  income: 'credit',
+  expense: 'debit'
+};
+
 const accountTypeSchema = new mongoose.Schema({
   name: {
     type: String,
@@ -10,9 +20,37 @@ const accountTypeSchema = new mongoose.Schema({
   description: {
     type: String,
     trim: true
+  },
+  element: {
+    type: String,
+    enum: Object.keys(NORMAL_BALANCES),
+    required: true
+  },
+  normalBalance: {
+    type: String,
+    enum: ['debit', 'credit']
+  },
+  // Archived types are hidden from pickers but stay on existing accounts
+  isArchived: {
+    type: Boolean,
+    default: false
   }
 }, {
   timestamps: true
 });
 
-module.exports = mongoose.model('AccountType', accountTypeSchema);
\ No newline at end of file
+// Default the normal balance from the element
+accountTypeSchema.pre('validate', function(next) {
+  if (this.element && !this.normalBalance) {
+    this.normalBalance = NORMAL_BALANCES[this.element];
+  }
+  next();
+});
+
+accountTypeSchema.statics.ELEMENTS = Object.keys(NORMAL_BALANCES);
+
+accountTypeSchema.statics.normalBalanceFor = function(element) {
+  return NORMAL_BALANCES[element];
+};
+
+module.exports = mongoose.model('AccountType', accountTypeSchema);
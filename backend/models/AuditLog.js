@@ -0,0 +1,56 @@
+const mongoose = require('mongoose');
+
+const AUDITED_ENTITIES = ['Account', 'AccountType', 'Party', 'Transaction'];
+const AUDIT_ACTIONS = ['create', 'update', 'delete', 'archive', 'restore', 'void'];
+
+// One changed top-level field; before is empty on create, after is empty on delete
+const auditChangeSchema = new mongoose.Schema({
+  field: {
+    type: String,
+    required: true
+  },
+  before: mongoose.Schema.Types.Mixed,
+  after: mongoose.Schema.Types.Mixed
+}, { _id: false });
+
+const auditLogSchema = new mongoose.Schema({
+  entity: {
+    type: String,
+    enum: AUDITED_ENTITIES,
+    required: true
+  },
+  entityId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  // Human-readable label at the time of the change, e.g. an account name or transaction number
+  entityLabel: {
+    type: String
+  },
+  action: {
+    type: String,
+    enum: AUDIT_ACTIONS,
+    required: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Kept so the trail still reads correctly after a user is deleted
+  username: {
+    type: String
+  },
+  changes: [auditChangeSchema],
+  timestamp: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+auditLogSchema.index({ entity: 1, entityId: 1, timestamp: -1 });
+auditLogSchema.index({ user: 1, timestamp: -1 });
+
+auditLogSchema.statics.ENTITIES = AUDITED_ENTITIES;
+auditLogSchema.statics.ACTIONS = AUDIT_ACTIONS;
+
+module.exports = mongoose.model('AuditLog', auditLogSchema);
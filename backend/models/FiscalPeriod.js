@@ -0,0 +1,33 @@
+const mongoose = require('mongoose');
+
+// A calendar month of the books. Records are created when a month is first locked;
+// a month without one is open for posting.
+const fiscalPeriodSchema = new mongoose.Schema({
+  year: {
+    type: Number,
+    required: true
+  },
+  month: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 12
+  },
+  isLocked: {
+    type: Boolean,
+    default: false
+  },
+  lockedAt: {
+    type: Date
+  },
+  lockedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+fiscalPeriodSchema.index({ year: 1, month: 1 }, { unique: true });
+
+module.exports = mongoose.model('FiscalPeriod', fiscalPeriodSchema);
@@ -0,0 +1,49 @@
+const mongoose = require('mongoose');
+
+// One line of a template; amount is an optional default the user can overwrite
+const templateLineSchema = new mongoose.Schema({
+  account: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Account',
+    required: true
+  },
+  party: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Party'
+  },
+  description: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  amount: {
+    type: Number,
+    min: 0
+  },
+  type: {
+    type: String,
+    enum: ['debit', 'credit'],
+    required: true
+  }
+}, { _id: false });
+
+const journalTemplateSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  details: {
+    type: [templateLineSchema],
+    validate: [details => details.length > 0, 'A template needs at least one line']
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('JournalTemplate', journalTemplateSchema);
@@ -0,0 +1,63 @@
+const mongoose = require('mongoose');
+
+// A ledger line ticked as cleared, identified by its transaction and detail _id
+const clearedLineSchema = new mongoose.Schema({
+  transaction: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Transaction',
+    required: true
+  },
+  detail: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  }
+}, { _id: false });
+
+const reconciliationSchema = new mongoose.Schema({
+  // Bank or cash account (isOwnerAccount) being reconciled
+  account: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Account',
+    required: true
+  },
+  statementDate: {
+    type: Date,
+    required: true
+  },
+  statementBalance: {
+    type: Number,
+    required: true
+  },
+  // Statement balance of the previous completed reconciliation, or 0 for the first one
+  openingBalance: {
+    type: Number,
+    default: 0
+  },
+  status: {
+    type: String,
+    enum: ['draft', 'completed'],
+    default: 'draft'
+  },
+  clearedLines: [clearedLineSchema],
+  // Opening balance plus the cleared lines, saved when completed
+  clearedBalance: {
+    type: Number
+  },
+  completedAt: {
+    type: Date
+  },
+  completedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+reconciliationSchema.index({ account: 1, status: 1, statementDate: -1 });
+
+module.exports = mongoose.model('Reconciliation', reconciliationSchema);
@@ -0,0 +1,106 @@
+const mongoose = require('mongoose');
+const { VOUCHER_TYPES } = require('../utils/voucherNumbers');
+
+const FREQUENCIES = ['daily', 'weekly', 'monthly', 'yearly'];
+
+// One line of the transaction posted on every run
+const templateDetailSchema = new mongoose.Schema({
+  account: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Account',
+    required: true
+  },
+  party: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Party'
+  },
+  description: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  type: {
+    type: String,
+    enum: ['debit', 'credit'],
+    required: true
+  }
+}, { _id: false });
+
+const recurringScheduleSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  frequency: {
+    type: String,
+    enum: FREQUENCIES,
+    required: true
+  },
+  // Run every N days/weeks/months/years
+  interval: {
+    type: Number,
+    default: 1,
+    min: 1
+  },
+  startDate: {
+    type: Date,
+    required: true
+  },
+  // The schedule ends at whichever of endDate or maxOccurrences comes first
+  endDate: {
+    type: Date
+  },
+  maxOccurrences: {
+    type: Number,
+    min: 1
+  },
+  // Status given to generated transactions
+  transactionStatus: {
+    type: String,
+    enum: ['pending', 'completed'],
+    default: 'completed'
+  },
+  // Voucher type given to generated transactions
+  voucherType: {
+    type: String,
+    enum: Object.keys(VOUCHER_TYPES),
+    default: 'journal'
+  },
+  details: [templateDetailSchema],
+  // Occurrences already handled (posted or skipped); the next run is occurrence number nextIndex
+  nextIndex: {
+    type: Number,
+    default: 0
+  },
+  // Occurrence dates (YYYY-MM-DD) to pass over without posting
+  skippedDates: [{
+    type: String
+  }],
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  lastRunAt: {
+    type: Date
+  },
+  // Why the last run could not post, e.g. a locked period; cleared on the next success
+  lastError: {
+    type: String
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+recurringScheduleSchema.statics.FREQUENCIES = FREQUENCIES;
+
+module.exports = mongoose.model('RecurringSchedule', recurringScheduleSchema);
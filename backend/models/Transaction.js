@@ -1,5 +1,7 @@
 const mongoose = require('mongoose');
 const Counter = require('./Counter');
+const { VOUCHER_TYPES, nextVoucherNo } = require('../utils/voucherNumbers');
+const { periodOf } = require('../utils/periods');
 
 // Transaction Detail Schema (your table rows)
 const transactionDetailSchema = new mongoose.Schema({
@@ -12,6 +14,10 @@ const transactionDetailSchema = new mongoose.Schema({
     ref: 'Account',
     required: true
   },
+  party: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Party'
+  },
   description: {
     type: String,
     required: true,
@@ -26,6 +32,60 @@ const transactionDetailSchema = new mongoose.Schema({
     type: String,
     enum: ['debit', 'credit'],
     required: true
+  },
+  // Completed bank reconciliation that cleared this line; cleared lines are locked
+  reconciliation: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Reconciliation'
+  }
+});
+
+// Previous version of a transaction, captured on every update
+const transactionRevisionSchema = new mongoose.Schema({
+  version: {
+    type: Number,
+    required: true
+  },
+  date: {
+    type: Date,
+    required: true
+  },
+  details: [transactionDetailSchema],
+  totalAmount: {
+    type: Number
+  },
+  changedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Supporting document (receipt scan, invoice PDF) kept in attachment storage
+const transactionAttachmentSchema = new mongoose.Schema({
+  fileName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  storageKey: {
+    type: String,
+    required: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  uploadedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now
   }
 });
 
@@ -44,11 +104,64 @@ const transactionSchema = new mongoose.Schema({
   totalAmount: {
     type: Number  // Removed required: true
   },
+  // Each voucher type is numbered in its own series, restarting every year
+  voucherType: {
+    type: String,
+    enum: Object.keys(VOUCHER_TYPES),
+    default: 'journal'
+  },
+  voucherNo: {
+    type: String,
+    unique: true,
+    sparse: true
+  },
+  // Year of the series voucherNo was drawn from
+  voucherYear: {
+    type: Number
+  },
   status: {
     type: String,
     enum: ['pending', 'completed', 'cancelled'],
     default: 'completed'
-  }
+  },
+  // Voiding marks the original cancelled and links it to its reversing entry
+  reversalOf: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Transaction'
+  },
+  reversedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Transaction'
+  },
+  voidedAt: {
+    type: Date
+  },
+  voidReason: {
+    type: String,
+    trim: true
+  },
+  // User who posted the entry; empty for entries the system generates on its own
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Set on the year-end closing entry for that fiscal year
+  yearEndClose: {
+    type: Number
+  },
+  // Recurring schedule that generated this transaction
+  schedule: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'RecurringSchedule'
+  },
+  // Identifies the bank statement line this transaction was imported from
+  importFingerprint: {
+    type: String,
+    index: true,
+    sparse: true
+  },
+  attachments: [transactionAttachmentSchema],
+  history: [transactionRevisionSchema] // Earlier versions, oldest first
 }, {
   timestamps: true
 });
@@ -71,6 +184,17 @@ transactionSchema.pre('save', async function(next) {
       return next(error);
     }
   }
+
+  // Draw a voucher number for new entries, and a fresh one when the type changes
+  // or the entry moves into another year
+  const movedYear = this.voucherNo && this.voucherYear !== periodOf(this.date).year;
+  if (this.isNew || this.isModified('voucherType') || movedYear) {
+    try {
+      Object.assign(this, await nextVoucherNo(this.voucherType, this.date));
+    } catch (error) {
+      return next(error);
+    }
+  }
   next();
 });
 
@@ -0,0 +1,19 @@
+const mongoose = require('mongoose');
+
+// Number format chosen for one voucher type; types without a document use the default format
+const voucherSeriesSchema = new mongoose.Schema({
+  voucherType: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  format: {
+    type: String,
+    required: true,
+    trim: true
+  }
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('VoucherSeries', voucherSeriesSchema);
@@ -1,11 +1,26 @@
 const express = require('express');
 const router = express.Router();
 const AccountType = require('../models/AccountType');
+const Account = require('../models/Account');
+const { recordAudit } = require('../utils/audit');
+const { authenticate, authorize } = require('../middleware/auth');
+
+// Every request needs a signed-in user; the chart structure is changed by admins only
+router.use(authenticate);
+const canManageChart = authorize('admin');
+
+// Map ?archived= to a filter: "true" lists archived only, "all" lists everything,
+// anything else lists active records
+const archivedFilter = (archived) => {
+  if (archived === 'all') return {};
+  if (archived === 'true') return { isArchived: true };
+  return { isArchived: { $ne: true } };
+};
 
 // GET all account types
 router.get('/', async (req, res) => {
   try {
-    const accountTypes = await AccountType.find().sort({ name: 1 });
+    const accountTypes = await AccountType.find(archivedFilter(req.query.archived)).sort({ name: 1 });
     res.json(accountTypes);
   } catch (error) {
     res.status(500).json({ message: error.message });
@@ -13,10 +28,11 @@ router.get('/', async (req, res) => {
 });
 
 // POST create new account type
-router.post('/', async (req, res) => {
+router.post('/', canManageChart, async (req, res) => {
   try {
     const accountType = new AccountType(req.body);
     await accountType.save();
+    await recordAudit(req, 'AccountType', 'create', null, accountType);
     res.status(201).json(accountType);
   } catch (error) {
     res.status(400).json({ message: error.message });
@@ -24,8 +40,14 @@ router.post('/', async (req, res) => {
 });
 
 // PUT update account type
-router.put('/:id', async (req, res) => {
+router.put('/:id', canManageChart, async (req, res) => {
   try {
+    // Changing the element resets the normal balance unless one is given
+    if (req.body.element && !req.body.normalBalance) {
+      req.body.normalBalance = AccountType.normalBalanceFor(req.body.element);
+    }
+    
+    const before = await AccountType.findById(req.params.id);
     const accountType = await AccountType.findByIdAndUpdate(
       req.params.id,
       req.body,
@@ -36,19 +58,75 @@ router.put('/:id', async (req, res) => {
       return res.status(404).json({ message: 'Account type not found' });
     }
     
+    await recordAudit(req, 'AccountType', 'update', before, accountType);
     res.json(accountType);
   } catch (error) {
     res.status(400).json({ message: error.message });
   }
 });
 
-// DELETE account type
-router.delete('/:id', async (req, res) => {
+// POST archive account type (hide it from pickers, keep it on existing accounts)
+router.post('/:id/archive', canManageChart, async (req, res) => {
   try {
-    const accountType = await AccountType.findByIdAndDelete(req.params.id);
+    const before = await AccountType.findById(req.params.id);
+    const accountType = await AccountType.findByIdAndUpdate(
+      req.params.id,
+      { isArchived: true },
+      { new: true }
+    );
+    
     if (!accountType) {
       return res.status(404).json({ message: 'Account type not found' });
     }
+    
+    await recordAudit(req, 'AccountType', 'archive', before, accountType);
+    res.json(accountType);
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// POST restore archived account type
+router.post('/:id/restore', canManageChart, async (req, res) => {
+  try {
+    const before = await AccountType.findById(req.params.id);
+    const accountType = await AccountType.findByIdAndUpdate(
+      req.params.id,
+      { isArchived: false },
+      { new: true }
+    );
+    
+    if (!accountType) {
+      return res.status(404).json({ message: 'Account type not found' });
+    }
+    
+    await recordAudit(req, 'AccountType', 'restore', before, accountType);
+    res.json(accountType);
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// DELETE account type (only when no accounts use it)
+router.delete('/:id', canManageChart, async (req, res) => {
+  try {
+    const accountType = await AccountType.findById(req.params.id);
+    if (!accountType) {
+      return res.status(404).json({ message: 'Account type not found' });
+    }
+    
+    const accounts = await Account.find({ type: accountType._id })
+      .select('accountId name isArchived')
+      .sort({ accountId: 1 });
+    if (accounts.length > 0) {
+      return res.status(409).json({
+        message: `Account type "${accountType.name}" is used by ${accounts.length} account(s) and cannot be deleted. Archive it instead.`,
+        dependents: { accounts }
+      });
+    }
+    
+    await accountType.deleteOne();
+    await recordAudit(req, 'AccountType', 'delete', accountType, null);
     res.json({ message: 'Account type deleted successfully' });
   } catch (error) {
     res.status(500).json({ message: error.message });
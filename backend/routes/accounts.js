@@ -2,11 +2,114 @@ const express = require('express');
 const router = express.Router();
 const Account = require('../models/Account');
 const AccountType = require('../models/AccountType');
+const Transaction = require('../models/Transaction');
+const RecurringSchedule = require('../models/RecurringSchedule');
+const JournalTemplate = require('../models/JournalTemplate');
+const { recordAudit } = require('../utils/audit');
+const { checkPeriodsOpen } = require('../utils/periods');
+const { checkNotReconciled } = require('../utils/reconciliation');
+const { getEquityAccount } = require('../utils/systemAccounts');
+const { authenticate, canWrite } = require('../middleware/auth');
+
+// Every request needs a signed-in user; writes need an admin or accountant
+router.use(authenticate);
+
+const OPENING_EQUITY_ACCOUNT = 'Opening Balance Equity';
+
+// Opening entry posted for the account, if any
+const findOpeningEntry = (account) => (
+  account.openingTransaction ? Transaction.findById(account.openingTransaction) : null
+);
+
+const openingDate = (account) => account.openingBalanceDate || account.createdAt || new Date();
+
+// Whether the account's opening amount, side or date no longer match its entry
+const openingEntryChanged = (account, existing) => {
+  if (!account.openingBalance) return Boolean(existing);
+  if (!existing) return true;
+
+  const line = existing.details.find(detail => String(detail.account) === String(account._id));
+  return !line
+    || line.amount !== account.openingBalance
+    || line.type !== account.openingBalanceType
+    || new Date(existing.date).getTime() !== new Date(openingDate(account)).getTime();
+};
+
+// Reasons an existing opening entry cannot be changed or removed, as an error payload
+const checkOpeningEntryEditable = async (existing, newDate) => {
+  if (existing && (existing.status === 'cancelled' || existing.reversedBy)) {
+    return { message: 'The opening balance entry has been voided and can no longer be changed' };
+  }
+  if (existing) {
+    const reconciledError = checkNotReconciled(existing);
+    if (reconciledError) return reconciledError;
+  }
+  return checkPeriodsOpen(existing && existing.date, newDate);
+};
+
+// Reasons the opening entry cannot be brought in line with the account, as an error payload
+const checkOpeningEntryChange = async (account, existing) => {
+  if (!openingEntryChanged(account, existing)) return null;
+  return checkOpeningEntryEditable(existing, account.openingBalance ? openingDate(account) : null);
+};
+
+// Create, update or remove the opening entry so it matches the account's opening balance.
+// Call checkOpeningEntryChange first; an entry that already matches is left alone.
+const syncOpeningEntry = async (req, account, existing) => {
+  if (!openingEntryChanged(account, existing)) return;
+
+  if (!account.openingBalance) {
+    await existing.deleteOne();
+    await recordAudit(req, 'Transaction', 'delete', existing, null);
+    account.openingTransaction = undefined;
+    await account.save();
+    return;
+  }
+
+  const equityAccount = await getEquityAccount(OPENING_EQUITY_ACCOUNT);
+  const description = `Opening balance - ${account.name}`;
+  const side = account.openingBalanceType;
+  const details = [
+    { serialNo: 1, account: account._id, description, amount: account.openingBalance, type: side },
+    { serialNo: 2, account: equityAccount._id, description, amount: account.openingBalance, type: side === 'debit' ? 'credit' : 'debit' }
+  ];
+  const date = openingDate(account);
+
+  if (existing) {
+    const before = existing.toObject();
+    existing.history.push({
+      version: existing.history.length + 1,
+      date: existing.date,
+      details: existing.details,
+      totalAmount: existing.totalAmount
+    });
+    existing.date = date;
+    existing.details = details;
+    await existing.save();
+    await recordAudit(req, 'Transaction', 'update', before, existing);
+    return;
+  }
+
+  // A new entry is credited to the user saving the account
+  const transaction = new Transaction({ date, details, createdBy: req.user._id });
+  await transaction.save();
+  await recordAudit(req, 'Transaction', 'create', null, transaction);
+  account.openingTransaction = transaction._id;
+  await account.save();
+};
+
+// Map ?archived= to a filter: "true" lists archived only, "all" lists everything,
+// anything else lists active records
+const archivedFilter = (archived) => {
+  if (archived === 'all') return {};
+  if (archived === 'true') return { isArchived: true };
+  return { isArchived: { $ne: true } };
+};
 
 // GET all accounts
 router.get('/', async (req, res) => {
   try {
-    const accounts = await Account.find()
+    const accounts = await Account.find(archivedFilter(req.query.archived))
       .populate('type')
       .sort({ accountId: 1 });
     res.json(accounts);
@@ -18,7 +121,7 @@ router.get('/', async (req, res) => {
 // GET owner accounts only
 router.get('/owner', async (req, res) => {
   try {
-    const accounts = await Account.find({ isOwnerAccount: true })
+    const accounts = await Account.find({ isOwnerAccount: true, isArchived: { $ne: true } })
       .populate('type')
       .sort({ accountId: 1 });
     res.json(accounts);
@@ -41,7 +144,7 @@ router.get('/:id', async (req, res) => {
 });
 
 // POST create new account
-router.post('/', async (req, res) => {
+router.post('/', canWrite, async (req, res) => {
   try {
     // If type is provided as name, convert to ObjectId
     if (req.body.type && typeof req.body.type === 'string') {
@@ -54,8 +157,18 @@ router.post('/', async (req, res) => {
       req.body.type = accountType._id;
     }
     
+    // The opening entry is managed by the server
+    delete req.body.openingTransaction;
+    
     const account = new Account(req.body);
+    const openingError = await checkOpeningEntryChange(account, null);
+    if (openingError) {
+      return res.status(409).json(openingError);
+    }
+    
     await account.save();
+    await syncOpeningEntry(req, account, null);
+    await recordAudit(req, 'Account', 'create', null, account);
     await account.populate('type');
     res.status(201).json(account);
   } catch (error) {
@@ -64,7 +177,7 @@ router.post('/', async (req, res) => {
 });
 
 // PUT update account
-router.put('/:id', async (req, res) => {
+router.put('/:id', canWrite, async (req, res) => {
   try {
     // If type is provided as name, convert to ObjectId
     if (req.body.type && typeof req.body.type === 'string') {
@@ -77,29 +190,121 @@ router.put('/:id', async (req, res) => {
       req.body.type = accountType._id;
     }
     
+    // The opening entry is managed by the server
+    delete req.body.openingTransaction;
+    
+    const account = await Account.findById(req.params.id);
+    if (!account) {
+      return res.status(404).json({ message: 'Account not found' });
+    }
+    
+    const before = account.toObject();
+    account.set(req.body);
+    
+    // Check the opening entry can follow before saving anything
+    const existing = await findOpeningEntry(account);
+    const openingError = await checkOpeningEntryChange(account, existing);
+    if (openingError) {
+      return res.status(409).json(openingError);
+    }
+    
+    await account.save();
+    await syncOpeningEntry(req, account, existing);
+    await recordAudit(req, 'Account', 'update', before, account);
+    await account.populate('type');
+    res.json(account);
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// POST archive account (hide it from pickers, keep its history)
+router.post('/:id/archive', canWrite, async (req, res) => {
+  try {
+    const before = await Account.findById(req.params.id);
+    const account = await Account.findByIdAndUpdate(
+      req.params.id,
+      { isArchived: true },
+      { new: true }
+    ).populate('type');
+    
+    if (!account) {
+      return res.status(404).json({ message: 'Account not found' });
+    }
+    
+    await recordAudit(req, 'Account', 'archive', before, account);
+    res.json(account);
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// POST restore archived account
+router.post('/:id/restore', canWrite, async (req, res) => {
+  try {
+    const before = await Account.findById(req.params.id);
     const account = await Account.findByIdAndUpdate(
       req.params.id,
-      req.body,
-      { new: true, runValidators: true }
+      { isArchived: false },
+      { new: true }
     ).populate('type');
     
     if (!account) {
       return res.status(404).json({ message: 'Account not found' });
     }
     
+    await recordAudit(req, 'Account', 'restore', before, account);
     res.json(account);
   } catch (error) {
     res.status(400).json({ message: error.message });
   }
 });
 
-// DELETE account
-router.delete('/:id', async (req, res) => {
+// DELETE account (only when no transactions other than its own opening entry, and no
+// recurring schedules or journal templates, use it)
+router.delete('/:id', canWrite, async (req, res) => {
   try {
-    const account = await Account.findByIdAndDelete(req.params.id);
+    const account = await Account.findById(req.params.id);
     if (!account) {
       return res.status(404).json({ message: 'Account not found' });
     }
+    
+    const dependentFilter = {
+      'details.account': account._id,
+      _id: { $ne: account.openingTransaction }
+    };
+    const dependentCount = await Transaction.countDocuments(dependentFilter);
+    const schedules = await RecurringSchedule.find({ 'details.account': account._id }).select('name').sort({ name: 1 });
+    const templates = await JournalTemplate.find({ 'details.account': account._id }).select('name').sort({ name: 1 });
+    if (dependentCount > 0 || schedules.length > 0 || templates.length > 0) {
+      const transactions = await Transaction.find(dependentFilter)
+        .select('transactionId date')
+        .sort({ transactionId: 1 })
+        .limit(20);
+      const uses = [
+        dependentCount > 0 && `${dependentCount} transaction(s)`,
+        schedules.length > 0 && `${schedules.length} recurring schedule(s)`,
+        templates.length > 0 && `${templates.length} journal template(s)`
+      ].filter(Boolean).join(', ');
+      return res.status(409).json({
+        message: `Account "${account.name}" is used by ${uses} and cannot be deleted. Archive it instead.`,
+        dependents: { transactions, transactionCount: dependentCount, recurringSchedules: schedules, journalTemplates: templates }
+      });
+    }
+    
+    // The opening entry goes with the account, so it must be free to remove
+    const openingEntry = await findOpeningEntry(account);
+    const openingError = openingEntry && await checkOpeningEntryEditable(openingEntry, null);
+    if (openingError) {
+      return res.status(409).json(openingError);
+    }
+    
+    await account.deleteOne();
+    await recordAudit(req, 'Account', 'delete', account, null);
+    if (openingEntry) {
+      await openingEntry.deleteOne();
+      await recordAudit(req, 'Transaction', 'delete', openingEntry, null);
+    }
     res.json({ message: 'Account deleted successfully' });
   } catch (error) {
     res.status(500).json({ message: error.message });
@@ -0,0 +1,141 @@
+const express = require('express');
+const multer = require('multer');
+const router = express.Router({ mergeParams: true });
+const Transaction = require('../models/Transaction');
+const { recordAudit } = require('../utils/audit');
+const { getStorage, newStorageKey } = require('../utils/storage');
+const {
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+  detectFileType,
+  cleanFileName,
+  removeAttachmentFiles
+} = require('../utils/attachments');
+const { authenticate, canWrite } = require('../middleware/auth');
+
+// Files attached to a transaction, mounted under /api/transactions/:id/attachments
+router.use(authenticate);
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1 }
+}).single('file');
+
+// Receive a single "file" field, turning multer errors into API responses
+const receiveFile = (req, res, next) => {
+  upload(req, res, (error) => {
+    if (!error) return next();
+    if (error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ message: `Attachments must be ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB or smaller` });
+    }
+    res.status(400).json({ message: error.message });
+  });
+};
+
+// GET attachments of a transaction
+router.get('/', async (req, res) => {
+  try {
+    const transaction = await Transaction.findById(req.params.id).select('attachments');
+    if (!transaction) {
+      return res.status(404).json({ message: 'Transaction not found' });
+    }
+
+    res.json(transaction.attachments);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// POST upload an image or PDF
+router.post('/', canWrite, receiveFile, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'Choose a file to upload' });
+    }
+    const fileType = detectFileType(req.file.buffer);
+    if (!fileType) {
+      return res.status(400).json({ message: 'Only JPEG, PNG, GIF, WebP images and PDF files can be attached' });
+    }
+
+    const transaction = await Transaction.findById(req.params.id);
+    if (!transaction) {
+      return res.status(404).json({ message: 'Transaction not found' });
+    }
+    if (transaction.attachments.length >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+      return res.status(409).json({ message: `A transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments` });
+    }
+
+    const attachment = {
+      fileName: cleanFileName(req.file.originalname),
+      storageKey: newStorageKey(transaction._id, fileType.extension),
+      mimeType: fileType.mimeType,
+      size: req.file.size,
+      uploadedBy: req.user._id
+    };
+    await getStorage().save(attachment.storageKey, req.file.buffer);
+
+    // Push atomically so concurrent uploads cannot go past the limit
+    const updated = await Transaction.findOneAndUpdate(
+      { _id: transaction._id, [`attachments.${MAX_ATTACHMENTS_PER_TRANSACTION - 1}`]: { $exists: false } },
+      { $push: { attachments: attachment } },
+      { new: true }
+    );
+    if (!updated) {
+      await removeAttachmentFiles([attachment]);
+      return res.status(409).json({ message: `A transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments` });
+    }
+
+    await recordAudit(req, 'Transaction', 'update', transaction, updated);
+    res.status(201).json(updated.attachments[updated.attachments.length - 1]);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// GET download an attachment
+router.get('/:attachmentId', async (req, res) => {
+  try {
+    const transaction = await Transaction.findById(req.params.id).select('attachments');
+    const attachment = transaction && transaction.attachments.id(req.params.attachmentId);
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    const file = await getStorage().read(attachment.storageKey);
+    if (!file) {
+      return res.status(404).json({ message: 'Attachment file is missing from storage' });
+    }
+
+    res.attachment(attachment.fileName);
+    res.set('Content-Type', attachment.mimeType);
+    res.set('X-Content-Type-Options', 'nosniff');
+    res.send(file);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// DELETE an attachment and its stored file
+router.delete('/:attachmentId', canWrite, async (req, res) => {
+  try {
+    const transaction = await Transaction.findById(req.params.id);
+    const attachment = transaction && transaction.attachments.id(req.params.attachmentId);
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    const updated = await Transaction.findByIdAndUpdate(
+      transaction._id,
+      { $pull: { attachments: { _id: attachment._id } } },
+      { new: true }
+    );
+    await removeAttachmentFiles([attachment]);
+
+    await recordAudit(req, 'Transaction', 'update', transaction, updated);
+    res.json({ message: 'Attachment deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,63 @@
+const express = require('express');
+const router = express.Router();
+const AuditLog = require('../models/AuditLog');
+const { parseDateRange, checkQueryDates, dateCondition } = require('../utils/ledger');
+const { authenticate, authorize } = require('../middleware/auth');
+
+// The trail is open to admins and accountants; viewers only see reports
+router.use(authenticate, authorize('admin', 'accountant'));
+
+// GET audit entries, newest first, filtered by entity, entityId, user, action and from/to dates
+router.get('/', async (req, res) => {
+  try {
+    const dateError = checkQueryDates(req.query, 'from', 'to');
+    if (dateError) {
+      return res.status(400).json(dateError);
+    }
+    const { page = 1, limit = 50, entity, entityId, user, action } = req.query;
+    
+    const filter = {};
+    if (entity) filter.entity = entity;
+    if (entityId) filter.entityId = entityId;
+    if (user) filter.user = user;
+    if (action) filter.action = action;
+    
+    const range = parseDateRange(req.query);
+    if (range.from || range.to) {
+      filter.timestamp = dateCondition(range);
+    }
+    
+    const entries = await AuditLog.find(filter)
+      .sort({ timestamp: -1 })
+      .limit(limit * 1)
+      .skip((page - 1) * limit);
+    
+    const total = await AuditLog.countDocuments(filter);
+    
+    res.json({
+      entries,
+      totalPages: Math.ceil(total / limit),
+      currentPage: Number(page),
+      total
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// GET users who appear in the trail, for the user filter
+router.get('/users', async (req, res) => {
+  try {
+    const users = await AuditLog.aggregate([
+      { $match: { user: { $ne: null } } },
+      { $sort: { timestamp: 1 } },
+      { $group: { _id: '$user', username: { $last: '$username' } } },
+      { $sort: { username: 1 } }
+    ]);
+    res.json(users);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,30 @@
+const express = require('express');
+const router = express.Router();
+const User = require('../models/User');
+const { signToken, authenticate } = require('../middleware/auth');
+
+// POST login with username and password, returns a bearer token
+router.post('/login', async (req, res) => {
+  try {
+    const { username, password } = req.body;
+    if (!username || !password) {
+      return res.status(400).json({ message: 'Username and password are required' });
+    }
+
+    const user = await User.findOne({ username: String(username).toLowerCase().trim() }).select('+password');
+    if (!user || !user.isActive || !(await user.comparePassword(password))) {
+      return res.status(401).json({ message: 'Invalid username or password' });
+    }
+
+    res.json({ token: signToken(user), user });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// GET the signed-in user
+router.get('/me', authenticate, (req, res) => {
+  res.json(req.user);
+});
+
+module.exports = router;
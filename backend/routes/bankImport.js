@@ -0,0 +1,140 @@
+const express = require('express');
+const router = express.Router();
+const Account = require('../models/Account');
+const Transaction = require('../models/Transaction');
+const { prepareRows } = require('../utils/bankImport');
+const { FORMATS, parseStatement } = require('../utils/statementParsers');
+const { withSerialNumbers } = require('../utils/transactionDetails');
+const { checkPeriodsOpen } = require('../utils/periods');
+const { recordAudit } = require('../utils/audit');
+const { authenticate, canWrite } = require('../middleware/auth');
+
+// Importing posts transactions, so every route needs an admin or accountant
+router.use(authenticate, canWrite);
+
+// Statements are imported into active bank/cash accounts only
+const findOwnerAccount = async (id) => {
+  if (!id || !String(id).match(/^[0-9a-fA-F]{24}$/)) return null;
+  return Account.findOne({ _id: id, isOwnerAccount: true, isArchived: { $ne: true } });
+};
+
+// POST parse an OFX, QIF or MT940 file sent as text ({ content, format?, dateOrder? }).
+// The rows go through /preview and /commit like mapped CSV rows; unreadable lines are
+// returned in errors with their line number.
+router.post('/parse', async (req, res) => {
+  try {
+    const { content, format, dateOrder } = req.body;
+    if (!content || typeof content !== 'string') {
+      return res.status(400).json({ message: 'Statement file is empty' });
+    }
+    if (format && !FORMATS.includes(format)) {
+      return res.status(400).json({ message: `Format must be one of: ${FORMATS.join(', ')}` });
+    }
+    
+    res.json(parseStatement(content, format || undefined, { dateOrder }));
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// POST normalize statement rows and flag the ones already imported
+router.post('/preview', async (req, res) => {
+  try {
+    const { account: accountId, rows } = req.body;
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(400).json({ message: 'No statement rows to import' });
+    }
+    
+    const account = await findOwnerAccount(accountId);
+    if (!account) {
+      return res.status(400).json({ message: 'Choose an active bank or cash account to import into' });
+    }
+    
+    const prepared = await prepareRows(account._id, rows);
+    res.json({
+      account: { _id: account._id, name: account.name },
+      rows: prepared.map((row, index) => ({ row: index + 1, ...row }))
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// POST create a transaction for every row that has a contra account.
+// The full file is sent back so fingerprints match the preview.
+router.post('/commit', async (req, res) => {
+  try {
+    const { account: accountId, rows } = req.body;
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(400).json({ message: 'No statement rows to import' });
+    }
+    
+    const account = await findOwnerAccount(accountId);
+    if (!account) {
+      return res.status(400).json({ message: 'Choose an active bank or cash account to import into' });
+    }
+    
+    const contraIds = [...new Set(rows.map(row => row.contraAccount).filter(Boolean).map(String))];
+    const contraAccounts = await Account.find({ _id: { $in: contraIds }, isArchived: { $ne: true } });
+    const contraById = new Map(contraAccounts.map(contra => [String(contra._id), contra]));
+    
+    const prepared = await prepareRows(account._id, rows);
+    const created = [];
+    const skipped = [];
+    
+    for (let index = 0; index < prepared.length; index++) {
+      const row = prepared[index];
+      const rowNo = index + 1;
+      const contraId = rows[index].contraAccount ? String(rows[index].contraAccount) : null;
+      
+      if (!contraId) continue;
+      if (row.error) {
+        skipped.push({ row: rowNo, reason: row.error });
+        continue;
+      }
+      if (row.duplicateOf) {
+        skipped.push({ row: rowNo, reason: `Already imported as transaction #${row.duplicateOf}` });
+        continue;
+      }
+      const contra = contraById.get(contraId);
+      if (!contra || contra._id.equals(account._id)) {
+        skipped.push({ row: rowNo, reason: 'Contra account not found' });
+        continue;
+      }
+      const periodError = await checkPeriodsOpen(row.date);
+      if (periodError) {
+        skipped.push({ row: rowNo, reason: periodError.message });
+        continue;
+      }
+      
+      // Money in debits the bank account; money out credits it
+      const amount = Math.abs(row.amount);
+      const description = row.reference && !row.description.includes(row.reference)
+        ? `${row.description} (Ref ${row.reference})`
+        : row.description;
+      const transaction = new Transaction({
+        date: row.date,
+        details: withSerialNumbers([
+          { account: account._id, description, amount, type: row.amount > 0 ? 'debit' : 'credit' },
+          { account: contra._id, description, amount, type: row.amount > 0 ? 'credit' : 'debit' }
+        ]),
+        voucherType: row.amount > 0 ? 'bank_receipt' : 'bank_payment',
+        importFingerprint: row.fingerprint,
+        createdBy: req.user._id
+      });
+      await transaction.save();
+      await recordAudit(req, 'Transaction', 'create', null, transaction);
+      created.push({ row: rowNo, transactionId: transaction.transactionId, voucherNo: transaction.voucherNo });
+    }
+    
+    res.status(created.length ? 201 : 200).json({
+      message: `Imported ${created.length} transaction(s), skipped ${skipped.length}`,
+      created,
+      skipped
+    });
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+module.exports = router;
@@ -3,6 +3,10 @@ const router = express.Router();
 const Account = require('../models/Account');
 const Transaction = require('../models/Transaction');
 const AccountType = require('../models/AccountType');
+const { authenticate } = require('../middleware/auth');
+
+// Read-only endpoints, open to every signed-in role
+router.use(authenticate);
 
 // GET dashboard statistics
 router.get('/stats', async (req, res) => {
@@ -0,0 +1,135 @@
+const express = require('express');
+const router = express.Router();
+const JournalTemplate = require('../models/JournalTemplate');
+const { resolveAccounts } = require('../utils/transactionDetails');
+const { escapeRegex } = require('../utils/search');
+const { authenticate, canWrite } = require('../middleware/auth');
+
+// Every request needs a signed-in user; writes need an admin or accountant
+router.use(authenticate);
+
+// Resolve account names and drop blank parties and amounts, returning an error payload if invalid
+const prepareDetails = async (details) => {
+  if (!Array.isArray(details) || details.length === 0) {
+    return { message: 'A template needs at least one line' };
+  }
+
+  const accountError = await resolveAccounts(details);
+  if (accountError) {
+    return accountError;
+  }
+
+  details.forEach(detail => {
+    detail.party = detail.party || undefined;
+    if (detail.amount === '' || detail.amount === null || Number(detail.amount) === 0) {
+      detail.amount = undefined;
+    }
+  });
+  return null;
+};
+
+// Find another template with the same name, ignoring case
+const findByName = (name, excludeId) => JournalTemplate.findOne({
+  name: new RegExp(`^${escapeRegex(String(name).trim())}$`, 'i'),
+  ...(excludeId && { _id: { $ne: excludeId } })
+});
+
+// GET all templates
+router.get('/', async (req, res) => {
+  try {
+    const templates = await JournalTemplate.find()
+      .populate('details.account details.party')
+      .populate('createdBy', 'username name')
+      .sort({ name: 1 });
+    res.json(templates);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// GET single template
+router.get('/:id', async (req, res) => {
+  try {
+    const template = await JournalTemplate.findById(req.params.id)
+      .populate('details.account details.party');
+    
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+    
+    res.json(template);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// POST create new template
+router.post('/', canWrite, async (req, res) => {
+  try {
+    const { name, details } = req.body;
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ message: 'Template name is required' });
+    }
+    if (await findByName(name)) {
+      return res.status(400).json({ message: `A template named "${String(name).trim()}" already exists` });
+    }
+    
+    const detailsError = await prepareDetails(details);
+    if (detailsError) {
+      return res.status(400).json(detailsError);
+    }
+    
+    const template = new JournalTemplate({ name, details, createdBy: req.user._id });
+    await template.save();
+    await template.populate('details.account details.party');
+    res.status(201).json(template);
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// PUT update template
+router.put('/:id', canWrite, async (req, res) => {
+  try {
+    const { name, details } = req.body;
+    if (name !== undefined && await findByName(name, req.params.id)) {
+      return res.status(400).json({ message: `A template named "${String(name).trim()}" already exists` });
+    }
+    
+    if (details !== undefined) {
+      const detailsError = await prepareDetails(details);
+      if (detailsError) {
+        return res.status(400).json(detailsError);
+      }
+    }
+    
+    const template = await JournalTemplate.findByIdAndUpdate(
+      req.params.id,
+      { ...(name !== undefined && { name }), ...(details !== undefined && { details }) },
+      { new: true, runValidators: true }
+    ).populate('details.account details.party');
+    
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+    
+    res.json(template);
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// DELETE template
+router.delete('/:id', canWrite, async (req, res) => {
+  try {
+    const template = await JournalTemplate.findByIdAndDelete(req.params.id);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+    res.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
@@ -1,6 +1,13 @@
 const express = require('express');
 const router = express.Router();
 const Party = require('../models/Party');
+const Transaction = require('../models/Transaction');
+const { parseDateRange, checkQueryDates, voidedFilter, getOpeningTotals, getLedgerLines } = require('../utils/ledger');
+const { recordAudit } = require('../utils/audit');
+const { authenticate, canWrite } = require('../middleware/auth');
+
+// Every request needs a signed-in user; writes need an admin or accountant
+router.use(authenticate);
 
 // GET all parties
 router.get('/', async (req, res) => {
@@ -25,11 +32,56 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// GET party statement with opening, running and closing balances
+// Balances are debits minus credits, so a positive balance is owed to us
+router.get('/:id/statement', async (req, res) => {
+  try {
+    const dateError = checkQueryDates(req.query, 'from', 'to');
+    if (dateError) {
+      return res.status(400).json(dateError);
+    }
+    const party = await Party.findById(req.params.id);
+    if (!party) {
+      return res.status(404).json({ message: 'Party not found' });
+    }
+
+    const lineFilter = { 'details.party': party._id, ...voidedFilter(req.query.voided) };
+    const range = parseDateRange(req.query);
+    const opening = await getOpeningTotals(lineFilter, range.from);
+    const openingBalance = opening.debit - opening.credit;
+
+    let balance = openingBalance;
+    let totalDebit = 0;
+    let totalCredit = 0;
+
+    const lines = (await getLedgerLines(lineFilter, range)).map(line => {
+      balance += line.debit - line.credit;
+      totalDebit += line.debit;
+      totalCredit += line.credit;
+      return { ...line, balance };
+    });
+
+    res.json({
+      party,
+      from: req.query.from || null,
+      to: req.query.to || null,
+      openingBalance,
+      lines,
+      totalDebit,
+      totalCredit,
+      closingBalance: balance
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
 // POST create new party
-router.post('/', async (req, res) => {
+router.post('/', canWrite, async (req, res) => {
   try {
     const party = new Party(req.body);
     await party.save();
+    await recordAudit(req, 'Party', 'create', null, party);
     res.status(201).json(party);
   } catch (error) {
     res.status(400).json({ message: error.message });
@@ -37,8 +89,9 @@ router.post('/', async (req, res) => {
 });
 
 // PUT update party
-router.put('/:id', async (req, res) => {
+router.put('/:id', canWrite, async (req, res) => {
   try {
+    const before = await Party.findById(req.params.id);
     const party = await Party.findByIdAndUpdate(
       req.params.id,
       req.body,
@@ -49,19 +102,36 @@ router.put('/:id', async (req, res) => {
       return res.status(404).json({ message: 'Party not found' });
     }
     
+    await recordAudit(req, 'Party', 'update', before, party);
     res.json(party);
   } catch (error) {
     res.status(400).json({ message: error.message });
   }
 });
 
-// DELETE party
-router.delete('/:id', async (req, res) => {
+// DELETE party (only when no transaction lines reference it)
+router.delete('/:id', canWrite, async (req, res) => {
   try {
-    const party = await Party.findByIdAndDelete(req.params.id);
+    const party = await Party.findById(req.params.id);
     if (!party) {
       return res.status(404).json({ message: 'Party not found' });
     }
+    
+    const dependentFilter = { 'details.party': party._id };
+    const dependentCount = await Transaction.countDocuments(dependentFilter);
+    if (dependentCount > 0) {
+      const transactions = await Transaction.find(dependentFilter)
+        .select('transactionId date')
+        .sort({ transactionId: 1 })
+        .limit(20);
+      return res.status(409).json({
+        message: `Party "${party.name}" is used by ${dependentCount} transaction(s) and cannot be deleted.`,
+        dependents: { transactions, transactionCount: dependentCount }
+      });
+    }
+    
+    await party.deleteOne();
+    await recordAudit(req, 'Party', 'delete', party, null);
     res.json({ message: 'Party deleted successfully' });
   } catch (error) {
     res.status(500).json({ message: error.message });
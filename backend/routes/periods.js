@@ -0,0 +1,218 @@
+const express = require('express');
+const router = express.Router();
+const FiscalPeriod = require('../models/FiscalPeriod');
+const Transaction = require('../models/Transaction');
+const Account = require('../models/Account');
+const { getAccountTotals } = require('../utils/ledger');
+const { MONTH_NAMES } = require('../utils/periods');
+const { getEquityAccount } = require('../utils/systemAccounts');
+const { recordAudit } = require('../utils/audit');
+const { authenticate, authorize } = require('../middleware/auth');
+
+// Anyone signed in can see which periods are locked; only admins lock, unlock and close
+router.use(authenticate);
+const canManagePeriods = authorize('admin');
+
+const RETAINED_EARNINGS_ACCOUNT = 'Retained Earnings';
+
+// Read and validate :year and :month route params
+const parsePeriod = ({ year, month }) => {
+  const parsed = { year: Number(year), month: month === undefined ? undefined : Number(month) };
+  if (!Number.isInteger(parsed.year) || parsed.year < 1900 || parsed.year > 9999) {
+    return { error: 'Invalid year' };
+  }
+  if (month !== undefined && (!Number.isInteger(parsed.month) || parsed.month < 1 || parsed.month > 12)) {
+    return { error: 'Invalid month' };
+  }
+  return parsed;
+};
+
+const roundAmount = (amount) => Math.round(amount * 100) / 100;
+
+// GET lock status of each month in a year (default: this year) and its closing entry, if any
+router.get('/', async (req, res) => {
+  try {
+    const { year, error } = parsePeriod({ year: req.query.year || new Date().getUTCFullYear() });
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const periods = await FiscalPeriod.find({ year, isLocked: true })
+      .populate('lockedBy', 'username name');
+
+    const months = MONTH_NAMES.map((name, index) => {
+      const period = periods.find(p => p.month === index + 1);
+      return {
+        month: index + 1,
+        name,
+        isLocked: Boolean(period),
+        lockedAt: period ? period.lockedAt : null,
+        lockedBy: period ? period.lockedBy : null
+      };
+    });
+
+    const closingTransaction = await Transaction.findOne({ yearEndClose: year })
+      .populate('details.account');
+
+    res.json({ year, months, closingTransaction });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// POST lock a month against posting, editing and deleting transactions
+router.post('/:year/:month/lock', canManagePeriods, async (req, res) => {
+  try {
+    const { year, month, error } = parsePeriod(req.params);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const period = await FiscalPeriod.findOneAndUpdate(
+      { year, month },
+      { isLocked: true, lockedAt: new Date(), lockedBy: req.user._id },
+      { new: true, upsert: true }
+    );
+    res.json(period);
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// POST unlock a month (not allowed while its year is closed)
+router.post('/:year/:month/unlock', canManagePeriods, async (req, res) => {
+  try {
+    const { year, month, error } = parsePeriod(req.params);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    if (await Transaction.exists({ yearEndClose: year })) {
+      return res.status(409).json({ message: `${year} is closed. Reopen the year before unlocking its months.` });
+    }
+
+    const period = await FiscalPeriod.findOneAndUpdate(
+      { year, month },
+      { isLocked: false, lockedAt: null, lockedBy: null },
+      { new: true }
+    );
+    res.json(period || { year, month, isLocked: false });
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// POST year-end close: post one entry on 31 December moving every income and expense
+// balance for the year into retained earnings, then lock all twelve months
+router.post('/:year/close', canManagePeriods, async (req, res) => {
+  try {
+    const { year, error } = parsePeriod(req.params);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    if (await Transaction.exists({ yearEndClose: year })) {
+      return res.status(409).json({ message: `${year} has already been closed` });
+    }
+
+    let retainedEarnings;
+    if (req.body.retainedEarningsAccount) {
+      retainedEarnings = await Account.findById(req.body.retainedEarningsAccount).populate('type');
+      if (!retainedEarnings) {
+        return res.status(400).json({ message: 'Retained earnings account not found' });
+      }
+      if (!retainedEarnings.type || retainedEarnings.type.element !== 'equity') {
+        return res.status(400).json({ message: 'Retained earnings must be an equity account' });
+      }
+    } else {
+      retainedEarnings = await getEquityAccount(RETAINED_EARNINGS_ACCOUNT);
+    }
+
+    const range = { from: new Date(Date.UTC(year, 0, 1)), to: new Date(Date.UTC(year + 1, 0, 1)) };
+    const totals = await getAccountTotals(range);
+
+    const description = `Year-end close ${year}`;
+    const details = [];
+    let netDebit = 0;
+
+    totals.forEach(row => {
+      if (!row.account || !row.type || !['income', 'expense'].includes(row.type.element)) {
+        return;
+      }
+      const net = roundAmount(row.debit - row.credit);
+      if (net === 0) {
+        return;
+      }
+      // Post the opposite side so the account ends the year at zero
+      details.push({
+        serialNo: details.length + 1,
+        account: row.account._id,
+        description,
+        amount: Math.abs(net),
+        type: net > 0 ? 'credit' : 'debit'
+      });
+      netDebit += net;
+    });
+
+    if (details.length === 0) {
+      return res.status(400).json({ message: `There are no income or expense balances to close for ${year}` });
+    }
+
+    // A profit leaves a net credit to carry into retained earnings, a loss a net debit
+    netDebit = roundAmount(netDebit);
+    if (netDebit !== 0) {
+      details.push({
+        serialNo: details.length + 1,
+        account: retainedEarnings._id,
+        description,
+        amount: Math.abs(netDebit),
+        type: netDebit > 0 ? 'debit' : 'credit'
+      });
+    }
+
+    const closingTransaction = new Transaction({
+      date: new Date(Date.UTC(year, 11, 31)),
+      details,
+      yearEndClose: year,
+      createdBy: req.user._id
+    });
+    await closingTransaction.save();
+    await recordAudit(req, 'Transaction', 'create', null, closingTransaction);
+
+    await FiscalPeriod.bulkWrite(MONTH_NAMES.map((name, index) => ({
+      updateOne: {
+        filter: { year, month: index + 1 },
+        update: { isLocked: true, lockedAt: new Date(), lockedBy: req.user._id },
+        upsert: true
+      }
+    })));
+
+    await closingTransaction.populate('details.account');
+    res.status(201).json(closingTransaction);
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// DELETE reopen a closed year by removing its closing entry; its months stay locked
+router.delete('/:year/close', canManagePeriods, async (req, res) => {
+  try {
+    const { year, error } = parsePeriod(req.params);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const closingTransaction = await Transaction.findOne({ yearEndClose: year });
+    if (!closingTransaction) {
+      return res.status(404).json({ message: `${year} has not been closed` });
+    }
+
+    await closingTransaction.deleteOne();
+    await recordAudit(req, 'Transaction', 'delete', closingTransaction, null);
+    res.json({ message: `${year} reopened successfully` });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,272 @@
+const express = require('express');
+const router = express.Router();
+const Account = require('../models/Account');
+const Transaction = require('../models/Transaction');
+const Reconciliation = require('../models/Reconciliation');
+const {
+  getAccountLines,
+  getOpeningBalance,
+  getReconciliationLines,
+  summarize
+} = require('../utils/reconciliation');
+const { authenticate, canWrite } = require('../middleware/auth');
+
+// Every request needs a signed-in user; writes need an admin or accountant
+router.use(authenticate);
+
+const round = (value) => Math.round(value * 100) / 100;
+
+const findReconciliation = (id) => Reconciliation.findById(id)
+  .populate('account', 'name accountNo branch')
+  .populate('completedBy createdBy', 'username name');
+
+// Reconciliation with its lines and running totals
+const withLines = async (reconciliation) => {
+  const lines = await getReconciliationLines(reconciliation);
+  return { ...reconciliation.toJSON(), ...summarize(reconciliation, lines), lines };
+};
+
+// GET reconciliations, newest first (?account= to limit to one account)
+router.get('/', async (req, res) => {
+  try {
+    const filter = req.query.account ? { account: req.query.account } : {};
+    const reconciliations = await Reconciliation.find(filter)
+      .select('-clearedLines')
+      .populate('account', 'name accountNo')
+      .populate('completedBy', 'username name')
+      .sort({ statementDate: -1, createdAt: -1 });
+    res.json(reconciliations);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// GET single reconciliation with its lines
+router.get('/:id', async (req, res) => {
+  try {
+    const reconciliation = await findReconciliation(req.params.id);
+    if (!reconciliation) {
+      return res.status(404).json({ message: 'Reconciliation not found' });
+    }
+    res.json(await withLines(reconciliation));
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// GET lines not cleared as at the statement date, split into deposits in transit and
+// outstanding payments, with the book balance they explain
+router.get('/:id/report', async (req, res) => {
+  try {
+    const reconciliation = await findReconciliation(req.params.id);
+    if (!reconciliation) {
+      return res.status(404).json({ message: 'Reconciliation not found' });
+    }
+
+    // Lines count as cleared if this reconciliation or one completed before it cleared them
+    const earlier = await Reconciliation.find({
+      account: reconciliation.account._id,
+      status: 'completed',
+      ...(reconciliation.status === 'completed' && { completedAt: { $lte: reconciliation.completedAt } })
+    }).select('_id');
+    const clearedBy = new Set(earlier.map(rec => String(rec._id)));
+    const ticked = new Set(reconciliation.clearedLines.map(line => String(line.detail)));
+
+    const lines = await getAccountLines(reconciliation.account._id, reconciliation.statementDate);
+    const uncleared = lines.filter(line =>
+      !(line.reconciliation && clearedBy.has(String(line.reconciliation))) &&
+      !(reconciliation.status === 'draft' && ticked.has(String(line.detail)))
+    );
+    const depositsInTransit = uncleared.filter(line => line.amount > 0);
+    const outstandingPayments = uncleared.filter(line => line.amount < 0);
+    const totalDeposits = round(depositsInTransit.reduce((sum, line) => sum + line.amount, 0));
+    const totalPayments = round(-outstandingPayments.reduce((sum, line) => sum + line.amount, 0));
+    const bookBalance = round(lines.reduce((sum, line) => sum + line.amount, 0));
+    const adjustedStatementBalance = round(reconciliation.statementBalance + totalDeposits - totalPayments);
+
+    res.json({
+      reconciliation: reconciliation.toJSON(),
+      statementBalance: reconciliation.statementBalance,
+      depositsInTransit,
+      outstandingPayments,
+      totalDeposits,
+      totalPayments,
+      adjustedStatementBalance,
+      bookBalance,
+      difference: round(bookBalance - adjustedStatementBalance)
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// POST start a reconciliation ({ account, statementDate, statementBalance })
+router.post('/', canWrite, async (req, res) => {
+  try {
+    const { account: accountId, statementDate, statementBalance } = req.body;
+    const account = accountId && String(accountId).match(/^[0-9a-fA-F]{24}$/)
+      ? await Account.findOne({ _id: accountId, isOwnerAccount: true })
+      : null;
+    if (!account) {
+      return res.status(400).json({ message: 'Only bank and cash (owner) accounts can be reconciled' });
+    }
+    if (!statementDate || Number.isNaN(new Date(statementDate).getTime())) {
+      return res.status(400).json({ message: 'Statement date is required' });
+    }
+    if (!Number.isFinite(Number(statementBalance))) {
+      return res.status(400).json({ message: 'Statement balance is required' });
+    }
+
+    const draft = await Reconciliation.findOne({ account: account._id, status: 'draft' });
+    if (draft) {
+      return res.status(409).json({
+        message: `${account.name} already has a reconciliation in progress`,
+        reconciliation: draft._id
+      });
+    }
+
+    const last = await Reconciliation.findOne({ account: account._id, status: 'completed' })
+      .sort({ statementDate: -1 });
+    if (last && new Date(statementDate) <= last.statementDate) {
+      return res.status(400).json({ message: 'Statement date must be after the last reconciled statement' });
+    }
+
+    const reconciliation = new Reconciliation({
+      account: account._id,
+      statementDate,
+      statementBalance: round(Number(statementBalance)),
+      openingBalance: await getOpeningBalance(account._id),
+      createdBy: req.user._id
+    });
+    await reconciliation.save();
+    res.status(201).json(await withLines(await findReconciliation(reconciliation._id)));
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// PUT update a draft's statement details or cleared lines ({ clearedLines: [detailId] })
+router.put('/:id', canWrite, async (req, res) => {
+  try {
+    const reconciliation = await Reconciliation.findById(req.params.id);
+    if (!reconciliation) {
+      return res.status(404).json({ message: 'Reconciliation not found' });
+    }
+    if (reconciliation.status !== 'draft') {
+      return res.status(409).json({ message: 'Completed reconciliations cannot be changed' });
+    }
+
+    const { statementDate, statementBalance, clearedLines } = req.body;
+    if (statementDate !== undefined) {
+      const last = await Reconciliation.findOne({ account: reconciliation.account, status: 'completed' })
+        .sort({ statementDate: -1 });
+      if (last && new Date(statementDate) <= last.statementDate) {
+        return res.status(400).json({ message: 'Statement date must be after the last reconciled statement' });
+      }
+      reconciliation.statementDate = statementDate;
+    }
+    if (statementBalance !== undefined) {
+      reconciliation.statementBalance = round(Number(statementBalance));
+    }
+    if (Array.isArray(clearedLines)) {
+      // Only open lines of this account up to the statement date can be ticked
+      const lines = await getAccountLines(reconciliation.account, reconciliation.statementDate, {
+        'details.reconciliation': null
+      });
+      const wanted = new Set(clearedLines.map(String));
+      reconciliation.clearedLines = lines
+        .filter(line => wanted.has(String(line.detail)))
+        .map(line => ({ transaction: line.transaction, detail: line.detail }));
+    }
+
+    await reconciliation.save();
+    res.json(await withLines(await findReconciliation(reconciliation._id)));
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// POST complete a draft once the cleared balance matches the statement; its lines are locked
+router.post('/:id/complete', canWrite, async (req, res) => {
+  try {
+    const reconciliation = await Reconciliation.findById(req.params.id);
+    if (!reconciliation) {
+      return res.status(404).json({ message: 'Reconciliation not found' });
+    }
+    if (reconciliation.status !== 'draft') {
+      return res.status(409).json({ message: 'Reconciliation is already completed' });
+    }
+
+    const lines = await getReconciliationLines(reconciliation);
+    const summary = summarize(reconciliation, lines);
+    if (Math.abs(summary.difference) >= 0.005) {
+      return res.status(409).json({
+        message: `Cleared balance differs from the statement by ${summary.difference.toFixed(2)}`,
+        ...summary
+      });
+    }
+
+    // Ticked lines that were edited away since are dropped from the record
+    const cleared = lines.filter(line => line.cleared);
+    for (const line of cleared) {
+      await Transaction.updateOne(
+        { _id: line.transaction },
+        { $set: { 'details.$[line].reconciliation': reconciliation._id } },
+        { arrayFilters: [{ 'line._id': line.detail }] }
+      );
+    }
+
+    reconciliation.clearedLines = cleared.map(line => ({ transaction: line.transaction, detail: line.detail }));
+    reconciliation.clearedBalance = summary.clearedBalance;
+    reconciliation.status = 'completed';
+    reconciliation.completedAt = new Date();
+    reconciliation.completedBy = req.user._id;
+    await reconciliation.save();
+
+    res.json(await withLines(await findReconciliation(reconciliation._id)));
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// DELETE a draft, or undo the latest completed reconciliation of an account (admin only),
+// which unlocks its cleared lines
+router.delete('/:id', canWrite, async (req, res) => {
+  try {
+    const reconciliation = await Reconciliation.findById(req.params.id);
+    if (!reconciliation) {
+      return res.status(404).json({ message: 'Reconciliation not found' });
+    }
+
+    if (reconciliation.status === 'completed') {
+      if (req.user.role !== 'admin') {
+        return res.status(403).json({ message: 'Only an admin can undo a completed reconciliation' });
+      }
+      const later = await Reconciliation.findOne({
+        account: reconciliation.account,
+        status: 'completed',
+        statementDate: { $gt: reconciliation.statementDate }
+      });
+      if (later) {
+        return res.status(409).json({ message: 'Undo the later reconciliations of this account first' });
+      }
+      const draft = await Reconciliation.findOne({ account: reconciliation.account, status: 'draft' });
+      if (draft) {
+        return res.status(409).json({ message: 'Delete the reconciliation in progress for this account first' });
+      }
+
+      await Transaction.updateMany(
+        { 'details.reconciliation': reconciliation._id },
+        { $unset: { 'details.$[line].reconciliation': '' } },
+        { arrayFilters: [{ 'line.reconciliation': reconciliation._id }] }
+      );
+    }
+
+    await reconciliation.deleteOne();
+    res.json({ message: reconciliation.status === 'completed' ? 'Reconciliation undone' : 'Reconciliation deleted' });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,245 @@
+const express = require('express');
+const router = express.Router();
+const RecurringSchedule = require('../models/RecurringSchedule');
+const Transaction = require('../models/Transaction');
+const { toDateString } = require('../utils/ledger');
+const { occurrenceDate, isFinished, upcomingOccurrences } = require('../utils/recurrence');
+const { checkBalance, resolveAccounts } = require('../utils/transactionDetails');
+const { runSchedule } = require('../jobs/recurringTransactions');
+const { authenticate, canWrite } = require('../middleware/auth');
+
+// Every request needs a signed-in user; writes need an admin or accountant
+router.use(authenticate);
+
+// Timing fields that cannot change once a schedule has run
+const TIMING_FIELDS = ['frequency', 'interval', 'startDate'];
+
+// Add the next run date and whether the schedule has ended
+const withNextRun = (schedule) => {
+  const finished = isFinished(schedule, schedule.nextIndex);
+  return {
+    ...schedule.toJSON(),
+    isFinished: finished,
+    nextRunDate: finished ? null : toDateString(occurrenceDate(schedule, schedule.nextIndex))
+  };
+};
+
+// Validate and normalise the details template, returning an error payload if invalid
+const prepareDetails = async (details) => {
+  if (!Array.isArray(details) || details.length < 2) {
+    return { message: 'A schedule needs at least two detail lines' };
+  }
+
+  const balanceError = checkBalance(details);
+  if (balanceError) {
+    return balanceError;
+  }
+
+  const accountError = await resolveAccounts(details);
+  if (accountError) {
+    return accountError;
+  }
+
+  details.forEach(detail => {
+    detail.party = detail.party || undefined;
+  });
+  return null;
+};
+
+// GET all schedules
+router.get('/', async (req, res) => {
+  try {
+    const schedules = await RecurringSchedule.find()
+      .populate('details.account details.party')
+      .sort({ name: 1 });
+    res.json(schedules.map(withNextRun));
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// GET single schedule
+router.get('/:id', async (req, res) => {
+  try {
+    const schedule = await RecurringSchedule.findById(req.params.id)
+      .populate('details.account details.party');
+    
+    if (!schedule) {
+      return res.status(404).json({ message: 'Schedule not found' });
+    }
+    
+    res.json(withNextRun(schedule));
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// GET upcoming occurrences (default 10), including ones marked to be skipped
+router.get('/:id/preview', async (req, res) => {
+  try {
+    const schedule = await RecurringSchedule.findById(req.params.id);
+    if (!schedule) {
+      return res.status(404).json({ message: 'Schedule not found' });
+    }
+    
+    const count = Math.min(Number(req.query.count) || 10, 100);
+    res.json(upcomingOccurrences(schedule, count));
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// GET transactions generated by a schedule, newest first
+router.get('/:id/transactions', async (req, res) => {
+  try {
+    const transactions = await Transaction.find({ schedule: req.params.id })
+      .select('transactionId date totalAmount status')
+      .sort({ date: -1 })
+      .limit(50);
+    res.json(transactions);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// POST create new schedule
+router.post('/', canWrite, async (req, res) => {
+  try {
+    const detailsError = await prepareDetails(req.body.details);
+    if (detailsError) {
+      return res.status(400).json(detailsError);
+    }
+    
+    const schedule = new RecurringSchedule({
+      ...req.body,
+      nextIndex: 0,
+      skippedDates: [],
+      createdBy: req.user._id
+    });
+    await schedule.save();
+    await schedule.populate('details.account details.party');
+    res.status(201).json(withNextRun(schedule));
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// PUT update schedule
+router.put('/:id', canWrite, async (req, res) => {
+  try {
+    const schedule = await RecurringSchedule.findById(req.params.id);
+    if (!schedule) {
+      return res.status(404).json({ message: 'Schedule not found' });
+    }
+    
+    if (req.body.details) {
+      const detailsError = await prepareDetails(req.body.details);
+      if (detailsError) {
+        return res.status(400).json(detailsError);
+      }
+    }
+    
+    // Occurrences are numbered from the start date, so its timing is fixed after the first run
+    const changesTiming = TIMING_FIELDS.some(field =>
+      req.body[field] !== undefined && String(req.body[field]) !== String(schedule[field]) &&
+      !(field === 'startDate' && new Date(req.body.startDate).getTime() === schedule.startDate.getTime())
+    );
+    if (schedule.nextIndex > 0 && changesTiming) {
+      return res.status(409).json({
+        message: 'This schedule has already run, so its frequency and start date cannot change. End it and create a new one instead.'
+      });
+    }
+    
+    const {
+      name, frequency, interval, startDate, endDate, maxOccurrences, transactionStatus, voucherType, details, isActive
+    } = req.body;
+    Object.entries({
+      name, frequency, interval, startDate, endDate, maxOccurrences, transactionStatus, voucherType, details, isActive
+    })
+      .forEach(([field, value]) => {
+        if (value !== undefined) schedule[field] = value;
+      });
+    
+    await schedule.save();
+    await schedule.populate('details.account details.party');
+    res.json(withNextRun(schedule));
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// POST skip one upcoming occurrence, given as { date: 'YYYY-MM-DD' }
+router.post('/:id/skip', canWrite, async (req, res) => {
+  try {
+    const schedule = await RecurringSchedule.findById(req.params.id);
+    if (!schedule) {
+      return res.status(404).json({ message: 'Schedule not found' });
+    }
+    
+    const date = req.body.date ? toDateString(new Date(req.body.date)) : null;
+    const isUpcoming = date && upcomingOccurrences(schedule, 1000).some(occurrence => occurrence.date === date);
+    if (!isUpcoming) {
+      return res.status(400).json({ message: 'Date is not an upcoming occurrence of this schedule' });
+    }
+    
+    if (!schedule.skippedDates.includes(date)) {
+      schedule.skippedDates.push(date);
+      await schedule.save();
+    }
+    res.json(upcomingOccurrences(schedule, 10));
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// DELETE undo a skip
+router.delete('/:id/skip/:date', canWrite, async (req, res) => {
+  try {
+    const schedule = await RecurringSchedule.findById(req.params.id);
+    if (!schedule) {
+      return res.status(404).json({ message: 'Schedule not found' });
+    }
+    
+    schedule.skippedDates = schedule.skippedDates.filter(date => date !== req.params.date);
+    await schedule.save();
+    res.json(upcomingOccurrences(schedule, 10));
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// POST post any occurrences that are already due without waiting for the background job
+router.post('/:id/run', canWrite, async (req, res) => {
+  try {
+    const schedule = await RecurringSchedule.findById(req.params.id);
+    if (!schedule) {
+      return res.status(404).json({ message: 'Schedule not found' });
+    }
+    if (!schedule.isActive) {
+      return res.status(409).json({ message: 'Schedule is paused' });
+    }
+    
+    const posted = await runSchedule(schedule, new Date());
+    if (schedule.lastError) {
+      return res.status(409).json({ message: schedule.lastError, posted: posted.length });
+    }
+    res.json({ message: `Posted ${posted.length} transaction(s)`, posted: posted.length });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// DELETE schedule (transactions it already posted are kept)
+router.delete('/:id', canWrite, async (req, res) => {
+  try {
+    const schedule = await RecurringSchedule.findByIdAndDelete(req.params.id);
+    if (!schedule) {
+      return res.status(404).json({ message: 'Schedule not found' });
+    }
+    res.json({ message: 'Schedule deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
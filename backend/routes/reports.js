@@ -0,0 +1,759 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const router = express.Router();
+const Transaction = require('../models/Transaction');
+const Account = require('../models/Account');
+const AccountType = require('../models/AccountType');
+const Party = require('../models/Party');
+const {
+  parseDateRange,
+  checkQueryDates,
+  toDateString,
+  dateCondition,
+  voidedFilter,
+  getOpeningTotals,
+  getOpeningTotalsByAccount,
+  getLedgerLines,
+  getAccountTotals
+} = require('../utils/ledger');
+const { EXPORT_FORMATS, sendExport } = require('../utils/reportExport');
+const { authenticate } = require('../middleware/auth');
+
+// Read-only endpoints, open to every signed-in role
+router.use(authenticate);
+
+// Build the ledgers of several accounts for ?from=&to=&voided= with one query for the
+// opening balances and one for the lines, however many accounts there are
+// Balances are positive when on the account's normal side
+const buildLedgers = async (accounts, query) => {
+  const lineFilter = {
+    'details.account': { $in: accounts.map(account => account._id) },
+    ...voidedFilter(query.voided)
+  };
+  const range = parseDateRange(query);
+  const [openings, allLines] = await Promise.all([
+    getOpeningTotalsByAccount(lineFilter, range.from),
+    getLedgerLines(lineFilter, range)
+  ]);
+
+  const linesByAccount = new Map();
+  allLines.forEach(line => {
+    const key = String(line.account);
+    if (!linesByAccount.has(key)) linesByAccount.set(key, []);
+    linesByAccount.get(key).push(line);
+  });
+
+  return accounts.map(account => {
+    const normalBalance = (account.type && account.type.normalBalance) || 'debit';
+    const sign = normalBalance === 'debit' ? 1 : -1;
+    const opening = openings.get(String(account._id)) || { debit: 0, credit: 0 };
+    const openingBalance = sign * (opening.debit - opening.credit);
+
+    let balance = openingBalance;
+    let totalDebit = 0;
+    let totalCredit = 0;
+
+    const lines = (linesByAccount.get(String(account._id)) || []).map(line => {
+      balance += sign * (line.debit - line.credit);
+      totalDebit += line.debit;
+      totalCredit += line.credit;
+      return { ...line, balance };
+    });
+
+    return {
+      account,
+      from: query.from || null,
+      to: query.to || null,
+      normalBalance,
+      openingBalance,
+      lines,
+      totalDebit,
+      totalCredit,
+      closingBalance: balance
+    };
+  });
+};
+
+// Build one account's ledger
+const buildLedger = async (account, query) => (await buildLedgers([account], query))[0];
+
+// Accounts picked by the Reports page filters ?account= or ?ownerOnly=true,
+// or { status, message } when the account asked for is not valid
+const findLedgerAccounts = async (query) => {
+  if (query.account) {
+    if (!mongoose.Types.ObjectId.isValid(query.account)) {
+      return { status: 400, message: 'Invalid account id' };
+    }
+    const accounts = await Account.find({ _id: query.account }).populate('type');
+    if (accounts.length === 0) {
+      return { status: 404, message: 'Account not found' };
+    }
+    return { accounts };
+  }
+  const filter = query.ownerOnly === 'true' ? { isOwnerAccount: true } : {};
+  return { accounts: await Account.find(filter).populate('type').sort({ name: 1 }) };
+};
+
+// Only accounts with activity or a balance brought forward are reported
+const hasActivity = (ledger) => ledger.lines.length > 0 || Math.abs(ledger.openingBalance) > 0.005;
+
+// Side of a balance held against the account's normal side
+const balanceSide = (balance, normalBalance) => ((balance < 0) === (normalBalance === 'debit') ? 'Cr' : 'Dr');
+
+// GET ledgers of every account picked by the Reports page filters in one response
+// Takes ?from=&to=&account=&ownerOnly=true&voided=
+router.get('/ledger', async (req, res) => {
+  try {
+    const dateError = checkQueryDates(req.query, 'from', 'to');
+    if (dateError) {
+      return res.status(400).json(dateError);
+    }
+    const { accounts, status, message } = await findLedgerAccounts(req.query);
+    if (status) {
+      return res.status(status).json({ message });
+    }
+    res.json((await buildLedgers(accounts, req.query)).filter(hasActivity));
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// GET account ledgers as a CSV, XLSX or PDF download
+// Takes the Reports page filters: ?format=&from=&to=&account=&ownerOnly=true&voided=
+router.get('/ledger/export', async (req, res) => {
+  try {
+    const format = req.query.format || 'csv';
+    if (!EXPORT_FORMATS[format]) {
+      return res.status(400).json({ message: `Format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+    }
+    const dateError = checkQueryDates(req.query, 'from', 'to');
+    if (dateError) {
+      return res.status(400).json(dateError);
+    }
+    // Headings and the file name use the parsed dates, never the raw query text
+    const from = req.query.from ? toDateString(new Date(req.query.from)) : null;
+    const to = req.query.to ? toDateString(new Date(req.query.to)) : null;
+
+    const { accounts, status, message } = await findLedgerAccounts(req.query);
+    if (status) {
+      return res.status(status).json({ message });
+    }
+    const ledgers = (await buildLedgers(accounts, req.query)).filter(hasActivity);
+
+    const totalDebit = ledgers.reduce((sum, ledger) => sum + ledger.totalDebit, 0);
+    const totalCredit = ledgers.reduce((sum, ledger) => sum + ledger.totalCredit, 0);
+    const netAmount = totalDebit - totalCredit;
+
+    const summaryRows = [
+      { item: 'Total Accounts', value: ledgers.length },
+      { item: 'Total Credits', value: totalCredit.toFixed(2) },
+      { item: 'Total Debits', value: totalDebit.toFixed(2) },
+      { item: 'Net Movement', value: `${Math.abs(netAmount).toFixed(2)} ${balanceSide(netAmount, 'debit')}` }
+    ];
+
+    const accountRows = ledgers.map(ledger => ({
+      account: ledger.account.name,
+      type: ledger.account.type ? ledger.account.type.name : '',
+      opening: Math.abs(ledger.openingBalance),
+      openingSide: balanceSide(ledger.openingBalance, ledger.normalBalance),
+      credit: ledger.totalCredit,
+      debit: ledger.totalDebit,
+      closing: Math.abs(ledger.closingBalance),
+      closingSide: balanceSide(ledger.closingBalance, ledger.normalBalance)
+    }));
+    accountRows.push({ account: 'Total', credit: totalCredit, debit: totalDebit, emphasis: true });
+
+    const ledgerRows = [];
+    ledgers.forEach(ledger => {
+      const typeName = ledger.account.type ? ` (${ledger.account.type.name})` : '';
+      ledgerRows.push({ heading: `${ledger.account.name}${typeName}` });
+      ledgerRows.push({
+        description: 'Opening Balance',
+        balance: Math.abs(ledger.openingBalance),
+        side: balanceSide(ledger.openingBalance, ledger.normalBalance),
+        emphasis: true
+      });
+      ledger.lines.forEach(line => {
+        ledgerRows.push({
+          transactionId: line.status === 'cancelled' ? `${line.transactionId} (voided)` : line.transactionId,
+          date: line.date,
+          description: line.description,
+          party: line.partyName || '',
+          credit: line.credit || null,
+          debit: line.debit || null,
+          balance: Math.abs(line.balance),
+          side: balanceSide(line.balance, ledger.normalBalance)
+        });
+      });
+      ledgerRows.push({
+        description: 'Closing Balance',
+        credit: ledger.totalCredit,
+        debit: ledger.totalDebit,
+        balance: Math.abs(ledger.closingBalance),
+        side: balanceSide(ledger.closingBalance, ledger.normalBalance),
+        emphasis: true
+      });
+    });
+
+    // Transaction list: every entry in the range touching one of the exported accounts
+    const range = parseDateRange(req.query);
+    const transactionFilter = {
+      'details.account': { $in: ledgers.map(ledger => ledger.account._id) },
+      ...voidedFilter(req.query.voided)
+    };
+    if (range.from || range.to) {
+      transactionFilter.date = dateCondition(range);
+    }
+    const transactions = await Transaction.find(transactionFilter)
+      .populate('details.account', 'name')
+      .sort({ date: 1, transactionId: 1 });
+
+    const transactionRows = transactions.map(transaction => ({
+      transactionId: transaction.transactionId,
+      date: transaction.date,
+      status: transaction.status,
+      description: [...new Set(transaction.details.map(detail => detail.description))].join('; '),
+      accounts: [...new Set(transaction.details.map(detail => (detail.account ? detail.account.name : 'Deleted account')))].join(', '),
+      amount: transaction.totalAmount
+    }));
+
+    const accountLabel = req.query.account
+      ? ledgers[0]?.account.name || accounts[0].name
+      : req.query.ownerOnly === 'true' ? 'Owner accounts' : 'All accounts';
+    const period = `${from || 'beginning'} to ${to || toDateString(new Date())}`;
+
+    const report = {
+      title: 'Account Ledgers',
+      subtitle: `Period ${period} | ${accountLabel}${req.query.voided === 'exclude' ? ' | Voided entries excluded' : ''}`,
+      sections: [
+        {
+          name: 'Summary',
+          columns: [
+            { header: 'Item', key: 'item', width: 24 },
+            { header: 'Value', key: 'value', width: 20 }
+          ],
+          rows: summaryRows
+        },
+        {
+          name: 'Accounts',
+          columns: [
+            { header: 'Account', key: 'account', width: 28 },
+            { header: 'Type', key: 'type', width: 18 },
+            { header: 'Opening', key: 'opening', width: 14, format: 'money' },
+            { header: 'Dr/Cr', key: 'openingSide', width: 6 },
+            { header: 'Credits', key: 'credit', width: 14, format: 'money' },
+            { header: 'Debits', key: 'debit', width: 14, format: 'money' },
+            { header: 'Closing', key: 'closing', width: 14, format: 'money' },
+            { header: 'Dr/Cr', key: 'closingSide', width: 6 }
+          ],
+          rows: accountRows
+        },
+        {
+          name: 'Ledger',
+          columns: [
+            { header: 'Transaction ID', key: 'transactionId', width: 14 },
+            { header: 'Date', key: 'date', width: 12, format: 'date' },
+            { header: 'Description', key: 'description', width: 36 },
+            { header: 'Party', key: 'party', width: 20 },
+            { header: 'Credit', key: 'credit', width: 14, format: 'money' },
+            { header: 'Debit', key: 'debit', width: 14, format: 'money' },
+            { header: 'Balance', key: 'balance', width: 14, format: 'money' },
+            { header: 'Dr/Cr', key: 'side', width: 6 }
+          ],
+          rows: ledgerRows
+        },
+        {
+          name: 'Transactions',
+          columns: [
+            { header: 'Transaction ID', key: 'transactionId', width: 14 },
+            { header: 'Date', key: 'date', width: 12, format: 'date' },
+            { header: 'Status', key: 'status', width: 12 },
+            { header: 'Description', key: 'description', width: 40 },
+            { header: 'Accounts', key: 'accounts', width: 36 },
+            { header: 'Amount', key: 'amount', width: 14, format: 'money' }
+          ],
+          rows: transactionRows
+        }
+      ]
+    };
+
+    await sendExport(res, report, format, `account-ledgers-${from || 'start'}-to-${to || 'today'}`);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// GET account ledger with opening, running and closing balances
+router.get('/ledger/:accountId', async (req, res) => {
+  try {
+    const dateError = checkQueryDates(req.query, 'from', 'to');
+    if (dateError) {
+      return res.status(400).json(dateError);
+    }
+    if (!mongoose.Types.ObjectId.isValid(req.params.accountId)) {
+      return res.status(400).json({ message: 'Invalid account id' });
+    }
+
+    const account = await Account.findById(req.params.accountId).populate('type');
+    if (!account) {
+      return res.status(404).json({ message: 'Account not found' });
+    }
+
+    res.json(await buildLedger(account, req.query));
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// GET trial balance grouped by account type
+router.get('/trial-balance', async (req, res) => {
+  try {
+    const dateError = checkQueryDates(req.query, 'asOf');
+    if (dateError) {
+      return res.status(400).json(dateError);
+    }
+    const range = parseDateRange({ to: req.query.asOf });
+    const totals = await getAccountTotals(range, voidedFilter(req.query.voided));
+
+    const groups = [];
+    let totalDebit = 0;
+    let totalCredit = 0;
+
+    totals.forEach(row => {
+      if (row.debit === 0 && row.credit === 0) {
+        return;
+      }
+      const net = row.debit - row.credit;
+
+      // Lines pointing at a deleted account are kept so the totals still tie
+      const account = row.account || { _id: row._id, name: 'Unknown account' };
+      const type = row.type || { _id: null, name: 'Unclassified' };
+
+      let group = groups.find(g => String(g.type._id) === String(type._id));
+      if (!group) {
+        group = { type, accounts: [], totalDebit: 0, totalCredit: 0 };
+        groups.push(group);
+      }
+
+      const balanceDebit = net > 0 ? net : 0;
+      const balanceCredit = net < 0 ? -net : 0;
+
+      group.accounts.push({
+        account,
+        debit: row.debit,
+        credit: row.credit,
+        balanceDebit,
+        balanceCredit
+      });
+      group.totalDebit += balanceDebit;
+      group.totalCredit += balanceCredit;
+      totalDebit += balanceDebit;
+      totalCredit += balanceCredit;
+    });
+
+    // Present groups in statement order: assets, liabilities, equity, income, expenses
+    const elementOrder = (group) => {
+      const index = AccountType.ELEMENTS.indexOf(group.type.element);
+      return index === -1 ? AccountType.ELEMENTS.length : index;
+    };
+    groups.sort((a, b) => elementOrder(a) - elementOrder(b));
+
+    res.json({
+      asOf: req.query.asOf || null,
+      groups,
+      totalDebit,
+      totalCredit,
+      isBalanced: Math.abs(totalDebit - totalCredit) < 0.01
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Amount of an account total on its element's normal side
+const signedTotal = (row) => {
+  const normalBalance = AccountType.normalBalanceFor(row.type.element);
+  return normalBalance === 'debit' ? row.debit - row.credit : row.credit - row.debit;
+};
+
+// Build one statement section (e.g. all income accounts) grouped by account type,
+// pairing each account's current amount with its comparison amount
+const buildSection = (element, currentTotals, previousTotals) => {
+  const groups = [];
+
+  const addRow = (row, amountKey, totalKey) => {
+    if (!row.account || !row.type || row.type.element !== element) {
+      return;
+    }
+
+    let group = groups.find(g => String(g.type._id) === String(row.type._id));
+    if (!group) {
+      group = { type: row.type, accounts: [], total: 0, previousTotal: 0 };
+      groups.push(group);
+    }
+
+    let line = group.accounts.find(a => String(a.account._id) === String(row.account._id));
+    if (!line) {
+      line = { account: row.account, amount: 0, previousAmount: 0 };
+      group.accounts.push(line);
+    }
+
+    const amount = signedTotal(row);
+    line[amountKey] += amount;
+    group[totalKey] += amount;
+  };
+
+  currentTotals.forEach(row => addRow(row, 'amount', 'total'));
+  previousTotals.forEach(row => addRow(row, 'previousAmount', 'previousTotal'));
+
+  return {
+    groups,
+    total: groups.reduce((sum, g) => sum + g.total, 0),
+    previousTotal: groups.reduce((sum, g) => sum + g.previousTotal, 0)
+  };
+};
+
+// GET income statement, compared with the preceding period of the same length
+router.get('/income-statement', async (req, res) => {
+  try {
+    if (!req.query.from || !req.query.to) {
+      return res.status(400).json({ message: 'Both from and to dates are required' });
+    }
+    const dateError = checkQueryDates(req.query, 'from', 'to');
+    if (dateError) {
+      return res.status(400).json(dateError);
+    }
+
+    const range = parseDateRange(req.query);
+    const length = range.to - range.from;
+    const previousRange = {
+      from: new Date(range.from.getTime() - length),
+      to: range.from
+    };
+
+    // Year-end closing entries zero out income and expenses, so they are left out here
+    const filter = { ...voidedFilter(req.query.voided), yearEndClose: null };
+    const [currentTotals, previousTotals] = await Promise.all([
+      getAccountTotals(range, filter),
+      getAccountTotals(previousRange, filter)
+    ]);
+
+    const income = buildSection('income', currentTotals, previousTotals);
+    const expenses = buildSection('expense', currentTotals, previousTotals);
+
+    res.json({
+      from: req.query.from,
+      to: req.query.to,
+      previousFrom: toDateString(previousRange.from),
+      previousTo: toDateString(new Date(previousRange.to.getTime() - 1)),
+      income,
+      expenses,
+      netProfit: income.total - expenses.total,
+      previousNetProfit: income.previousTotal - expenses.previousTotal
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// GET balance sheet, compared with the same date a year earlier unless ?compareAsOf is given
+// Net profit to date is carried into equity as current earnings
+router.get('/balance-sheet', async (req, res) => {
+  try {
+    const dateError = checkQueryDates(req.query, 'asOf', 'compareAsOf');
+    if (dateError) {
+      return res.status(400).json(dateError);
+    }
+
+    const asOf = req.query.asOf ? new Date(req.query.asOf) : new Date();
+    let compareAsOf;
+    if (req.query.compareAsOf) {
+      compareAsOf = new Date(req.query.compareAsOf);
+    } else {
+      compareAsOf = new Date(asOf);
+      compareAsOf.setUTCFullYear(compareAsOf.getUTCFullYear() - 1);
+    }
+
+    const [currentTotals, previousTotals] = await Promise.all([
+      getAccountTotals(parseDateRange({ to: toDateString(asOf) }), voidedFilter(req.query.voided)),
+      getAccountTotals(parseDateRange({ to: toDateString(compareAsOf) }), voidedFilter(req.query.voided))
+    ]);
+
+    const assets = buildSection('asset', currentTotals, previousTotals);
+    const liabilities = buildSection('liability', currentTotals, previousTotals);
+    const equity = buildSection('equity', currentTotals, previousTotals);
+    const income = buildSection('income', currentTotals, previousTotals);
+    const expenses = buildSection('expense', currentTotals, previousTotals);
+
+    const netProfit = income.total - expenses.total;
+    const previousNetProfit = income.previousTotal - expenses.previousTotal;
+    const totalEquity = equity.total + netProfit;
+    const previousTotalEquity = equity.previousTotal + previousNetProfit;
+    const totalLiabilitiesAndEquity = liabilities.total + totalEquity;
+    const previousTotalLiabilitiesAndEquity = liabilities.previousTotal + previousTotalEquity;
+
+    res.json({
+      asOf: toDateString(asOf),
+      previousAsOf: toDateString(compareAsOf),
+      assets,
+      liabilities,
+      equity,
+      netProfit,
+      previousNetProfit,
+      totalEquity,
+      previousTotalEquity,
+      totalLiabilitiesAndEquity,
+      previousTotalLiabilitiesAndEquity,
+      isBalanced: Math.abs(assets.total - totalLiabilitiesAndEquity) < 0.01
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Split a date range into monthly or weekly (Monday-start) buckets
+const buildPeriods = (range, interval) => {
+  const periods = [];
+  let start = new Date(range.from);
+
+  if (interval === 'week') {
+    const day = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - day);
+  } else {
+    start.setUTCDate(1);
+  }
+
+  while (start < range.to) {
+    const end = new Date(start);
+    if (interval === 'week') {
+      end.setUTCDate(end.getUTCDate() + 7);
+    } else {
+      end.setUTCMonth(end.getUTCMonth() + 1);
+    }
+
+    periods.push({
+      start: start < range.from ? range.from : start,
+      end: end > range.to ? range.to : end,
+      flows: { inflows: new Map(), outflows: new Map() }
+    });
+    start = end;
+  }
+
+  return periods;
+};
+
+// Add an amount to a map of account id => { account, amount }
+const addFlow = (flows, account, amount) => {
+  const key = String(account._id);
+  const existing = flows.get(key) || { account: { _id: account._id, name: account.name }, amount: 0 };
+  existing.amount += amount;
+  flows.set(key, existing);
+};
+
+// GET cash flow over owner (bank and cash) accounts, bucketed by month or week
+// Each cash movement is attributed to the non-owner accounts on the same transaction
+router.get('/cash-flow', async (req, res) => {
+  try {
+    const dateError = checkQueryDates(req.query, 'from', 'to');
+    if (dateError) {
+      return res.status(400).json(dateError);
+    }
+    if (!req.query.from || !req.query.to) {
+      return res.status(400).json({ message: 'Both from and to dates are required' });
+    }
+
+    const interval = req.query.interval === 'week' ? 'week' : 'month';
+    const range = parseDateRange(req.query);
+
+    const ownerAccounts = await Account.find({ isOwnerAccount: true })
+      .select('accountId name')
+      .sort({ accountId: 1 });
+    const ownerIds = new Set(ownerAccounts.map(account => String(account._id)));
+
+    // Cash held before the first period
+    const openingTotals = await Promise.all(
+      ownerAccounts.map(account => getOpeningTotals(
+        { 'details.account': account._id, ...voidedFilter(req.query.voided) },
+        range.from
+      ))
+    );
+    const openingCash = openingTotals.reduce((sum, totals) => sum + totals.debit - totals.credit, 0);
+
+    const transactions = await Transaction.find({
+      ...voidedFilter(req.query.voided),
+      date: dateCondition(range),
+      'details.account': { $in: ownerAccounts.map(account => account._id) }
+    })
+      .populate('details.account', 'name')
+      .sort({ date: 1, transactionId: 1 })
+      .lean();
+
+    const periods = buildPeriods(range, interval);
+
+    transactions.forEach(transaction => {
+      const period = periods.find(p => transaction.date >= p.start && transaction.date < p.end);
+      if (!period) {
+        return;
+      }
+
+      // Only non-owner lines count, so transfers between owner accounts net to nothing
+      transaction.details.forEach(detail => {
+        if (!detail.account || ownerIds.has(String(detail.account._id))) {
+          return;
+        }
+        if (detail.type === 'credit') {
+          addFlow(period.flows.inflows, detail.account, detail.amount);
+        } else {
+          addFlow(period.flows.outflows, detail.account, detail.amount);
+        }
+      });
+    });
+
+    let cash = openingCash;
+    const result = periods.map(period => {
+      const inflows = [...period.flows.inflows.values()].sort((a, b) => b.amount - a.amount);
+      const outflows = [...period.flows.outflows.values()].sort((a, b) => b.amount - a.amount);
+      const totalInflow = inflows.reduce((sum, flow) => sum + flow.amount, 0);
+      const totalOutflow = outflows.reduce((sum, flow) => sum + flow.amount, 0);
+      const periodOpening = cash;
+      cash += totalInflow - totalOutflow;
+
+      return {
+        start: toDateString(period.start),
+        end: toDateString(new Date(period.end.getTime() - 1)),
+        openingCash: periodOpening,
+        inflows,
+        outflows,
+        totalInflow,
+        totalOutflow,
+        netChange: totalInflow - totalOutflow,
+        closingCash: cash
+      };
+    });
+
+    res.json({
+      from: req.query.from,
+      to: req.query.to,
+      interval,
+      accounts: ownerAccounts,
+      openingCash,
+      periods: result,
+      closingCash: cash
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+const AGING_BUCKETS = [
+  { key: 'current', maxDays: 0 },
+  { key: 'days1to30', maxDays: 30 },
+  { key: 'days31to60', maxDays: 60 },
+  { key: 'days61to90', maxDays: 90 },
+  { key: 'over90', maxDays: Infinity }
+];
+
+const emptyBuckets = () => AGING_BUCKETS.reduce((buckets, b) => ({ ...buckets, [b.key]: 0 }), {});
+
+// Age an open balance by matching it against the newest lines on its side first,
+// so payments are treated as settling the oldest entries
+const ageBalance = (lines, balance, asOf) => {
+  const buckets = emptyBuckets();
+  const side = balance > 0 ? 'debit' : 'credit';
+  let remaining = Math.abs(balance);
+
+  for (let i = lines.length - 1; i >= 0 && remaining > 0.005; i--) {
+    const amount = Math.min(lines[i][side], remaining);
+    if (amount <= 0) {
+      continue;
+    }
+
+    const days = Math.max(0, Math.floor((asOf - lines[i].date) / (24 * 60 * 60 * 1000)));
+    const bucket = AGING_BUCKETS.find(b => days <= b.maxDays);
+    buckets[bucket.key] += Math.sign(balance) * amount;
+    remaining -= amount;
+  }
+
+  return buckets;
+};
+
+// GET receivables/payables aging by party
+// ?side=receivable keeps debit balances (owed to us), ?side=payable keeps credit balances;
+// ?accountType= limits the lines to accounts of one type
+router.get('/aging', async (req, res) => {
+  try {
+    const dateError = checkQueryDates(req.query, 'asOf');
+    if (dateError) {
+      return res.status(400).json(dateError);
+    }
+    if (req.query.accountType && !mongoose.isValidObjectId(req.query.accountType)) {
+      return res.status(400).json({ message: 'Invalid account type id' });
+    }
+    const range = parseDateRange({ to: req.query.asOf || toDateString(new Date()) });
+    const asOf = new Date(range.to.getTime() - 1);
+
+    const lineFilter = { 'details.party': { $ne: null }, ...voidedFilter(req.query.voided) };
+    if (req.query.accountType) {
+      const accounts = await Account.find({ type: req.query.accountType }).select('_id');
+      lineFilter['details.account'] = { $in: accounts.map(account => account._id) };
+    }
+
+    const lines = await Transaction.aggregate([
+      { $match: { ...lineFilter, date: dateCondition(range) } },
+      { $unwind: '$details' },
+      { $match: lineFilter },
+      { $sort: { date: 1, transactionId: 1 } },
+      {
+        $project: {
+          _id: 0,
+          party: '$details.party',
+          date: 1,
+          debit: { $cond: [{ $eq: ['$details.type', 'debit'] }, '$details.amount', 0] },
+          credit: { $cond: [{ $eq: ['$details.type', 'credit'] }, '$details.amount', 0] }
+        }
+      }
+    ]);
+
+    const linesByParty = new Map();
+    lines.forEach(line => {
+      const key = String(line.party);
+      if (!linesByParty.has(key)) {
+        linesByParty.set(key, []);
+      }
+      linesByParty.get(key).push(line);
+    });
+
+    const parties = await Party.find({ _id: { $in: [...linesByParty.keys()] } }).sort({ name: 1 });
+
+    const rows = [];
+    const totals = { balance: 0, ...emptyBuckets() };
+
+    parties.forEach(party => {
+      const partyLines = linesByParty.get(String(party._id));
+      const balance = partyLines.reduce((sum, line) => sum + line.debit - line.credit, 0);
+
+      if (Math.abs(balance) < 0.005) return;
+      if (req.query.side === 'receivable' && balance < 0) return;
+      if (req.query.side === 'payable' && balance > 0) return;
+
+      const buckets = ageBalance(partyLines, balance, asOf);
+      rows.push({ party, balance, ...buckets });
+
+      totals.balance += balance;
+      AGING_BUCKETS.forEach(b => {
+        totals[b.key] += buckets[b.key];
+      });
+    });
+
+    res.json({
+      asOf: toDateString(asOf),
+      side: req.query.side || 'all',
+      rows,
+      totals
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,140 @@
+const express = require('express');
+const router = express.Router();
+const Account = require('../models/Account');
+const Party = require('../models/Party');
+const Transaction = require('../models/Transaction');
+const { escapeRegex, parseAmount, matchScore, rankHits } = require('../utils/search');
+const { authenticate } = require('../middleware/auth');
+
+router.use(authenticate);
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 25;
+const MAX_QUERY_LENGTH = 100;
+// Hits are ranked in memory, so only this many matches per group are considered
+const CANDIDATES = 200;
+
+// Best-matching field of a record as { score, matchedOn }
+const bestMatch = (fields) => fields.reduce(
+  (best, field) => (field.score > best.score ? field : best),
+  { score: 0, matchedOn: null }
+);
+
+const searchAccounts = async (pattern, query, limit) => {
+  const accounts = await Account.find({ $or: [{ name: pattern }, { accountNo: pattern }] })
+    .populate('type', 'name')
+    .limit(CANDIDATES);
+
+  const hits = accounts.map(account => ({
+    _id: account._id,
+    name: account.name,
+    accountNo: account.accountNo,
+    typeName: account.type ? account.type.name : null,
+    isOwnerAccount: account.isOwnerAccount,
+    isArchived: account.isArchived,
+    ...bestMatch([
+      { score: matchScore(account.name, query), matchedOn: 'name' },
+      { score: matchScore(account.accountNo, query), matchedOn: 'accountNo' }
+    ])
+  }));
+  return rankHits(hits, limit, (a, b) => a.isArchived - b.isArchived || a.name.localeCompare(b.name));
+};
+
+const searchParties = async (pattern, query, limit) => {
+  const parties = await Party.find({ name: pattern }).limit(CANDIDATES);
+
+  const hits = parties.map(party => ({
+    _id: party._id,
+    name: party.name,
+    contact: party.contact,
+    score: matchScore(party.name, query),
+    matchedOn: 'name'
+  }));
+  return rankHits(hits, limit, (a, b) => a.name.localeCompare(b.name));
+};
+
+const searchTransactions = async (pattern, query, limit) => {
+  const amount = parseAmount(query);
+  const number = /^#?\d+$/.test(query) ? Number(query.replace('#', '')) : null;
+
+  // Look up exact transaction and voucher numbers separately so they are never
+  // crowded out by newer entries that only match in a description
+  const exactConditions = [{ voucherNo: new RegExp(`^${escapeRegex(query)}$`, 'i') }];
+  if (number !== null) exactConditions.push({ transactionId: number });
+
+  const broadConditions = [{ 'details.description': pattern }, { voucherNo: pattern }];
+  if (amount !== null) broadConditions.push({ 'details.amount': amount });
+
+  const fields = 'transactionId voucherNo date totalAmount status details.description details.amount';
+  const [exact, broad] = await Promise.all([
+    Transaction.find({ $or: exactConditions }).select(fields).limit(MAX_LIMIT),
+    Transaction.find({ $or: broadConditions })
+      .select(fields)
+      .sort({ date: -1, transactionId: -1 })
+      .limit(CANDIDATES)
+  ]);
+
+  const seen = new Set();
+  const transactions = [...exact, ...broad].filter(transaction => {
+    const id = String(transaction._id);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+
+  const hits = transactions.map(transaction => {
+    const descriptionMatch = bestMatch(transaction.details.map(detail => ({
+      score: matchScore(detail.description, query),
+      matchedOn: 'description',
+      description: detail.description
+    })));
+    const match = bestMatch([
+      { score: number !== null && transaction.transactionId === number ? 100 : 0, matchedOn: 'transactionId' },
+      { score: matchScore(transaction.voucherNo, query), matchedOn: 'voucherNo' },
+      { score: amount !== null && transaction.details.some(detail => detail.amount === amount) ? 60 : 0, matchedOn: 'amount' },
+      descriptionMatch
+    ]);
+
+    return {
+      _id: transaction._id,
+      transactionId: transaction.transactionId,
+      voucherNo: transaction.voucherNo,
+      date: transaction.date,
+      status: transaction.status,
+      // Both sides of a balanced entry add up to the total, so the entry moves half of it
+      amount: (transaction.totalAmount || 0) / 2,
+      description: descriptionMatch.description || (transaction.details[0] && transaction.details[0].description),
+      score: match.score,
+      matchedOn: match.matchedOn
+    };
+  });
+  return rankHits(hits, limit, (a, b) => new Date(b.date) - new Date(a.date));
+};
+
+// GET search transactions, accounts and parties, grouped and best match first
+router.get('/', async (req, res) => {
+  try {
+    const query = String(req.query.q || '').trim();
+    if (!query) {
+      return res.status(400).json({ message: 'Enter something to search for' });
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return res.status(400).json({ message: `Search text can be at most ${MAX_QUERY_LENGTH} characters` });
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const pattern = new RegExp(escapeRegex(query), 'i');
+
+    const [transactions, accounts, parties] = await Promise.all([
+      searchTransactions(pattern, query, limit),
+      searchAccounts(pattern, query, limit),
+      searchParties(pattern, query, limit)
+    ]);
+
+    res.json({ query, transactions, accounts, parties });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
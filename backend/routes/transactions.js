@@ -2,31 +2,35 @@ const express = require('express');
 const router = express.Router();
 const Transaction = require('../models/Transaction');
 const Account = require('../models/Account');
+const User = require('../models/User');
+const { checkBalance, resolveAccounts, editableLines, withSerialNumbers } = require('../utils/transactionDetails');
+const { recordAudit } = require('../utils/audit');
+const { checkPeriodsOpen } = require('../utils/periods');
+const { checkNotReconciled } = require('../utils/reconciliation');
+const { buildVoucher, voucherPdf } = require('../utils/voucher');
+const { VOUCHER_TYPES } = require('../utils/voucherNumbers');
+const { removeAttachmentFiles } = require('../utils/attachments');
+const { parseListQuery, buildTransactionFilter } = require('../utils/transactionFilters');
+const { authenticate, canWrite } = require('../middleware/auth');
 
-// GET all transactions
+// Every request needs a signed-in user; writes need an admin or accountant
+router.use(authenticate);
+
+// GET transactions, filtered, sorted and paged (see utils/transactionFilters for the options)
 router.get('/', async (req, res) => {
   try {
-    const { page = 1, limit = 10, accountId, startDate, endDate } = req.query;
-    
-    let filter = {};
-    
-    // Filter by account
-    if (accountId) {
-      filter['details.account'] = accountId;
-    }
-    
-    // Filter by date range
-    if (startDate && endDate) {
-      filter.date = {
-        $gte: new Date(startDate),
-        $lte: new Date(endDate)
-      };
+    const { page, limit, sort, criteria, error } = parseListQuery(req.query);
+    if (error) {
+      return res.status(400).json({ message: error });
     }
+    const filter = await buildTransactionFilter(criteria);
     
     const transactions = await Transaction.find(filter)
-      .populate('details.account')
-      .sort({ transactionId: -1 })
-      .limit(limit * 1)
+      .populate('details.account details.party')
+      .populate('reversalOf reversedBy', 'transactionId date')
+      .populate('createdBy', 'username name')
+      .sort(sort)
+      .limit(limit)
       .skip((page - 1) * limit);
     
     const total = await Transaction.countDocuments(filter);
@@ -42,54 +46,54 @@ router.get('/', async (req, res) => {
   }
 });
 
+// GET users who have posted transactions, for the created-by filter
+router.get('/creators', async (req, res) => {
+  try {
+    const creators = await User.find({ _id: { $in: await Transaction.distinct('createdBy') } })
+      .select('username name')
+      .sort({ username: 1 });
+    res.json(creators);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
 // POST create new transaction
-router.post('/', async (req, res) => {
+router.post('/', canWrite, async (req, res) => {
   try {
-    const { date, details } = req.body;
-    
-    // Validate that debits equal credits
-    const totalDebits = details
-      .filter(d => d.type === 'debit')
-      .reduce((sum, d) => sum + d.amount, 0);
-    
-    const totalCredits = details
-      .filter(d => d.type === 'credit')
-      .reduce((sum, d) => sum + d.amount, 0);
-    
-    if (Math.abs(totalDebits - totalCredits) > 0.01) {
-      return res.status(400).json({ 
-        message: 'Total debits must equal total credits',
-        totalDebits,
-        totalCredits 
-      });
+    const { date, details, voucherType } = req.body;
+    
+    if (voucherType && !VOUCHER_TYPES[voucherType]) {
+      return res.status(400).json({ message: 'Invalid voucher type' });
+    }
+    
+    const balanceError = checkBalance(details);
+    if (balanceError) {
+      return res.status(400).json(balanceError);
     }
     
-    // Convert account names to IDs if provided as names
-    for (let detail of details) {
-      if (typeof detail.account === 'string' && !detail.account.match(/^[0-9a-fA-F]{24}$/)) {
-        const account = await Account.findOne({ name: detail.account });
-        if (!account) {
-          return res.status(400).json({ message: `Account "${detail.account}" not found` });
-        }
-        detail.account = account._id;
-      }
+    const accountError = await resolveAccounts(details);
+    if (accountError) {
+      return res.status(400).json(accountError);
     }
     
-    // Add serial numbers to details
-    const detailsWithSerial = details.map((detail, index) => ({
-      ...detail,
-      serialNo: index + 1
-    }));
+    const periodError = await checkPeriodsOpen(date || new Date());
+    if (periodError) {
+      return res.status(409).json(periodError);
+    }
     
     const transaction = new Transaction({
       date,
-      details: detailsWithSerial
+      voucherType,
+      details: withSerialNumbers(editableLines(details)),
+      createdBy: req.user._id
     });
     
     await transaction.save();
+    await recordAudit(req, 'Transaction', 'create', null, transaction);
     
     const populatedTransaction = await Transaction.findById(transaction._id)
-      .populate('details.account');
+      .populate('details.account details.party');
     
     res.status(201).json(populatedTransaction);
   } catch (error) {
@@ -101,7 +105,8 @@ router.post('/', async (req, res) => {
 router.get('/:id', async (req, res) => {
   try {
     const transaction = await Transaction.findById(req.params.id)
-      .populate('details.account');
+      .populate('details.account details.party')
+      .populate('reversalOf reversedBy', 'transactionId date');
     
     if (!transaction) {
       return res.status(404).json({ message: 'Transaction not found' });
@@ -113,13 +118,246 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-// DELETE transaction
-router.delete('/:id', async (req, res) => {
+// PUT update transaction (keeps transactionId, archives the previous version)
+router.put('/:id', canWrite, async (req, res) => {
+  try {
+    const { date, details, voucherType } = req.body;
+    
+    if (voucherType && !VOUCHER_TYPES[voucherType]) {
+      return res.status(400).json({ message: 'Invalid voucher type' });
+    }
+    
+    const transaction = await Transaction.findById(req.params.id);
+    if (!transaction) {
+      return res.status(404).json({ message: 'Transaction not found' });
+    }
+    
+    if (transaction.status === 'cancelled' || transaction.reversalOf) {
+      return res.status(409).json({ message: 'Voided transactions and reversing entries cannot be edited' });
+    }
+    if (transaction.yearEndClose) {
+      return res.status(409).json({ message: 'Year-end closing entries are managed from fiscal periods' });
+    }
+    const openingFor = await Account.findOne({ openingTransaction: transaction._id }).select('name');
+    if (openingFor) {
+      return res.status(409).json({
+        message: `This is the opening balance entry of "${openingFor.name}". Change the opening balance from the account form.`
+      });
+    }
+    const reconciledError = checkNotReconciled(transaction);
+    if (reconciledError) {
+      return res.status(409).json(reconciledError);
+    }
+    
+    const balanceError = checkBalance(details);
+    if (balanceError) {
+      return res.status(400).json(balanceError);
+    }
+    
+    const accountError = await resolveAccounts(details);
+    if (accountError) {
+      return res.status(400).json(accountError);
+    }
+    
+    // Both the period it leaves and the one it moves into must be open
+    const periodError = await checkPeriodsOpen(transaction.date, date);
+    if (periodError) {
+      return res.status(409).json(periodError);
+    }
+    
+    const before = transaction.toObject();
+    
+    transaction.history.push({
+      version: transaction.history.length + 1,
+      date: transaction.date,
+      details: transaction.details,
+      totalAmount: transaction.totalAmount
+    });
+    
+    transaction.date = date || transaction.date;
+    transaction.voucherType = voucherType || transaction.voucherType;
+    transaction.details = withSerialNumbers(editableLines(details, transaction.details));
+    
+    await transaction.save();
+    await recordAudit(req, 'Transaction', 'update', before, transaction);
+    
+    const populatedTransaction = await Transaction.findById(transaction._id)
+      .populate('details.account details.party');
+    
+    res.json(populatedTransaction);
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// GET earlier versions of a transaction
+router.get('/:id/history', async (req, res) => {
+  try {
+    const transaction = await Transaction.findById(req.params.id)
+      .populate('history.details.account history.details.party');
+    
+    if (!transaction) {
+      return res.status(404).json({ message: 'Transaction not found' });
+    }
+    
+    res.json(transaction.history);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// GET printable voucher for a transaction; ?format=pdf downloads it as a PDF
+router.get('/:id/voucher', async (req, res) => {
+  try {
+    const transaction = await Transaction.findById(req.params.id)
+      .populate('details.account details.party');
+
+    if (!transaction) {
+      return res.status(404).json({ message: 'Transaction not found' });
+    }
+
+    const voucher = buildVoucher(transaction);
+    if (req.query.format !== 'pdf') {
+      return res.json(voucher);
+    }
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="voucher-${transaction.transactionId}.pdf"`
+    });
+    res.send(await voucherPdf(voucher));
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// POST void transaction: cancel it and post a linked reversing entry on the void date
+router.post('/:id/void', canWrite, async (req, res) => {
+  try {
+    const { date, reason } = req.body;
+    
+    const original = await Transaction.findById(req.params.id);
+    if (!original) {
+      return res.status(404).json({ message: 'Transaction not found' });
+    }
+    
+    if (original.status === 'cancelled') {
+      return res.status(409).json({ message: 'Transaction is already voided' });
+    }
+    if (original.status === 'pending') {
+      return res.status(409).json({ message: 'Pending transactions are not posted yet; delete them instead' });
+    }
+    if (original.reversalOf) {
+      return res.status(409).json({ message: 'A reversing entry cannot be voided' });
+    }
+    if (original.yearEndClose) {
+      return res.status(409).json({ message: 'Year-end closing entries are managed from fiscal periods' });
+    }
+    const reconciledError = checkNotReconciled(original);
+    if (reconciledError) {
+      return res.status(409).json(reconciledError);
+    }
+    
+    const voidDate = date ? new Date(date) : new Date();
+    
+    // The original may sit in a locked period; only the reversal's date has to be open
+    const periodError = await checkPeriodsOpen(voidDate);
+    if (periodError) {
+      return res.status(409).json(periodError);
+    }
+    
+    const reversal = new Transaction({
+      date: voidDate,
+      details: original.details.map((detail, index) => ({
+        serialNo: index + 1,
+        account: detail.account,
+        party: detail.party,
+        description: `Reversal of #${original.transactionId}: ${detail.description}`,
+        amount: detail.amount,
+        type: detail.type === 'debit' ? 'credit' : 'debit'
+      })),
+      reversalOf: original._id,
+      createdBy: req.user._id
+    });
+    await reversal.save();
+    await recordAudit(req, 'Transaction', 'create', null, reversal);
+    
+    const before = original.toObject();
+    original.status = 'cancelled';
+    original.reversedBy = reversal._id;
+    original.voidedAt = voidDate;
+    original.voidReason = reason;
+    await original.save();
+    await recordAudit(req, 'Transaction', 'void', before, original);
+    
+    const populatedTransaction = await Transaction.findById(original._id)
+      .populate('details.account details.party')
+      .populate('reversalOf reversedBy', 'transactionId date');
+    
+    res.json(populatedTransaction);
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// POST approve a pending transaction so it counts in the ledger
+router.post('/:id/post', canWrite, async (req, res) => {
   try {
-    const transaction = await Transaction.findByIdAndDelete(req.params.id);
+    const transaction = await Transaction.findById(req.params.id);
     if (!transaction) {
       return res.status(404).json({ message: 'Transaction not found' });
     }
+    
+    if (transaction.status !== 'pending') {
+      return res.status(409).json({ message: 'Only pending transactions can be posted' });
+    }
+    
+    const periodError = await checkPeriodsOpen(transaction.date);
+    if (periodError) {
+      return res.status(409).json(periodError);
+    }
+    
+    const before = transaction.toObject();
+    transaction.status = 'completed';
+    await transaction.save();
+    await recordAudit(req, 'Transaction', 'update', before, transaction);
+    
+    const populatedTransaction = await Transaction.findById(transaction._id)
+      .populate('details.account details.party')
+      .populate('reversalOf reversedBy', 'transactionId date');
+    
+    res.json(populatedTransaction);
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// DELETE a pending transaction; posted entries stay in the ledger and are voided instead
+router.delete('/:id', canWrite, async (req, res) => {
+  try {
+    const transaction = await Transaction.findById(req.params.id);
+    if (!transaction) {
+      return res.status(404).json({ message: 'Transaction not found' });
+    }
+    
+    if (transaction.status !== 'pending') {
+      return res.status(400).json({
+        message: 'Only pending transactions can be deleted; void posted transactions with POST /api/transactions/:id/void'
+      });
+    }
+    const reconciledError = checkNotReconciled(transaction);
+    if (reconciledError) {
+      return res.status(409).json(reconciledError);
+    }
+    
+    const periodError = await checkPeriodsOpen(transaction.date);
+    if (periodError) {
+      return res.status(409).json(periodError);
+    }
+    
+    await transaction.deleteOne();
+    await removeAttachmentFiles(transaction.attachments);
+    await recordAudit(req, 'Transaction', 'delete', transaction, null);
     res.json({ message: 'Transaction deleted successfully' });
   } catch (error) {
     res.status(500).json({ message: error.message });
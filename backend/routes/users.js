@@ -0,0 +1,74 @@
+const express = require('express');
+const router = express.Router();
+const User = require('../models/User');
+const { authenticate, authorize } = require('../middleware/auth');
+
+// User management is limited to admins
+router.use(authenticate, authorize('admin'));
+
+// GET all users
+router.get('/', async (req, res) => {
+  try {
+    const users = await User.find().sort({ username: 1 });
+    res.json(users);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// POST create new user
+router.post('/', async (req, res) => {
+  try {
+    const user = new User(req.body);
+    await user.save();
+    res.status(201).json(user);
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// PUT update user (password is only changed when a new one is sent)
+router.put('/:id', async (req, res) => {
+  try {
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const { username, name, role, isActive, password } = req.body;
+    const isSelf = String(user._id) === String(req.user._id);
+    if (isSelf && ((role && role !== 'admin') || isActive === false)) {
+      return res.status(400).json({ message: 'You cannot remove your own admin access' });
+    }
+
+    if (username !== undefined) user.username = username;
+    if (name !== undefined) user.name = name;
+    if (role !== undefined) user.role = role;
+    if (isActive !== undefined) user.isActive = isActive;
+    if (password) user.password = password;
+
+    await user.save();
+    res.json(user);
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// DELETE user
+router.delete('/:id', async (req, res) => {
+  try {
+    if (String(req.params.id) === String(req.user._id)) {
+      return res.status(400).json({ message: 'You cannot delete your own user' });
+    }
+
+    const user = await User.findByIdAndDelete(req.params.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    res.json({ message: 'User deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,70 @@
+const express = require('express');
+const router = express.Router();
+const VoucherSeries = require('../models/VoucherSeries');
+const { VOUCHER_TYPES, validateFormat, findPrefixClash, peekVoucherNo } = require('../utils/voucherNumbers');
+const { periodOf } = require('../utils/periods');
+const { authenticate, authorize } = require('../middleware/auth');
+
+// Anyone signed in can see the numbering; only admins change formats
+router.use(authenticate);
+const canManageSeries = authorize('admin');
+
+// Series for one type with the number the next voucher dated today would get
+const describeSeries = async (voucherType, configured) => ({
+  voucherType,
+  label: VOUCHER_TYPES[voucherType].label,
+  format: configured ? configured.format : VOUCHER_TYPES[voucherType].format,
+  defaultFormat: VOUCHER_TYPES[voucherType].format,
+  nextNumber: await peekVoucherNo(voucherType, new Date())
+});
+
+// GET every voucher type's number format
+router.get('/', async (req, res) => {
+  try {
+    const configured = await VoucherSeries.find();
+    const series = await Promise.all(Object.keys(VOUCHER_TYPES).map(voucherType =>
+      describeSeries(voucherType, configured.find(item => item.voucherType === voucherType))
+    ));
+    res.json(series);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// PUT change a voucher type's number format; numbers already issued keep their old format
+router.put('/:voucherType', canManageSeries, async (req, res) => {
+  try {
+    const { voucherType } = req.params;
+    if (!VOUCHER_TYPES[voucherType]) {
+      return res.status(404).json({ message: 'Voucher type not found' });
+    }
+
+    const format = typeof req.body.format === 'string' ? req.body.format.trim() : req.body.format;
+    const formatError = validateFormat(format);
+    if (formatError) {
+      return res.status(400).json(formatError);
+    }
+
+    // Numbers from two types must never look alike, so compare with every other type's format
+    const configured = await VoucherSeries.find({ voucherType: { $ne: voucherType } });
+    const formats = Object.fromEntries(Object.keys(VOUCHER_TYPES).map(type => {
+      const series = configured.find(item => item.voucherType === type);
+      return [type, series ? series.format : VOUCHER_TYPES[type].format];
+    }));
+    const clashError = findPrefixClash(voucherType, format, formats, periodOf(new Date()).year);
+    if (clashError) {
+      return res.status(400).json(clashError);
+    }
+
+    const series = await VoucherSeries.findOneAndUpdate(
+      { voucherType },
+      { format },
+      { new: true, upsert: true, runValidators: true }
+    );
+    res.json(await describeSeries(voucherType, series));
+  } catch (error) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+module.exports = router;
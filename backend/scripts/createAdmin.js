@@ -0,0 +1,33 @@
+// Create the first admin user, or reset an existing user's password and make them admin.
+// Usage: npm run create-admin -- <username> <password>
+require('dotenv').config();
+const mongoose = require('mongoose');
+const connectDB = require('../config/db');
+const User = require('../models/User');
+
+const createAdmin = async () => {
+  const [username, password] = process.argv.slice(2);
+  if (!username || !password) {
+    console.error('Usage: npm run create-admin -- <username> <password>');
+    process.exit(1);
+  }
+
+  await connectDB();
+
+  let user = await User.findOne({ username: username.toLowerCase() });
+  if (!user) {
+    user = new User({ username, name: username });
+  }
+  user.password = password;
+  user.role = 'admin';
+  user.isActive = true;
+  await user.save();
+
+  console.log(`Admin user "${user.username}" is ready`);
+  await mongoose.disconnect();
+};
+
+createAdmin().catch((error) => {
+  console.error('Failed to create admin:', error.message);
+  process.exit(1);
+});
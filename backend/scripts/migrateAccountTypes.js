@@ -0,0 +1,52 @@
+// One-off migration: classify existing account types by accounting element.
+// Usage: npm run migrate:account-types
+require('dotenv').config();
+const mongoose = require('mongoose');
+const connectDB = require('../config/db');
+const AccountType = require('../models/AccountType');
+
+// Keywords matched against the type name, checked in order
+const ELEMENT_KEYWORDS = [
+  ['asset', /bank|cash|receivable|debtor|customer|asset|inventory|stock|advance/i],
+  ['liability', /payable|creditor|supplier|vendor|loan|liabilit/i],
+  ['equity', /equity|capital|owner|drawing|retained/i],
+  ['income', /income|revenue|sales/i],
+  ['expense', /expense|cost|salar|rent|utilit|purchase/i]
+];
+
+const inferElement = (name) => {
+  const match = ELEMENT_KEYWORDS.find(([, pattern]) => pattern.test(name));
+  return match ? match[0] : null;
+};
+
+const migrate = async () => {
+  await connectDB();
+
+  const accountTypes = await AccountType.find({ element: { $exists: false } });
+  const unmatched = [];
+
+  for (const accountType of accountTypes) {
+    const element = inferElement(accountType.name);
+    if (!element) {
+      unmatched.push(accountType.name);
+      continue;
+    }
+
+    await AccountType.updateOne(
+      { _id: accountType._id },
+      { element, normalBalance: AccountType.normalBalanceFor(element) }
+    );
+    console.log(`${accountType.name}: ${element}`);
+  }
+
+  if (unmatched.length > 0) {
+    console.log(`Could not classify: ${unmatched.join(', ')}. Set their element through PUT /api/account-types/:id.`);
+  }
+
+  await mongoose.disconnect();
+};
+
+migrate().catch((error) => {
+  console.error('Migration failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+// One-off migration: fill in who posted transactions created before createdBy was recorded,
+// taken from the audit trail's create entries. Entries the system generated stay empty.
+// Usage: npm run migrate:transaction-creators
+require('dotenv').config();
+const mongoose = require('mongoose');
+const connectDB = require('../config/db');
+const Transaction = require('../models/Transaction');
+const AuditLog = require('../models/AuditLog');
+
+const migrate = async () => {
+  await connectDB();
+
+  const creations = await AuditLog.find({ entity: 'Transaction', action: 'create', user: { $ne: null } })
+    .select('entityId user');
+
+  let updated = 0;
+  for (const creation of creations) {
+    const result = await Transaction.updateOne(
+      { _id: creation.entityId, createdBy: { $exists: false } },
+      { createdBy: creation.user }
+    );
+    updated += result.modifiedCount;
+  }
+
+  console.log(`Set the creator on ${updated} transaction(s)`);
+  await mongoose.disconnect();
+};
+
+migrate().catch((error) => {
+  console.error('Migration failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,33 @@
+// One-off migration: number transactions posted before voucher types existed.
+// They are filed as journal vouchers in date order; change the type by editing an entry.
+// Usage: npm run migrate:voucher-numbers
+require('dotenv').config();
+const mongoose = require('mongoose');
+const connectDB = require('../config/db');
+const Transaction = require('../models/Transaction');
+const { nextVoucherNo } = require('../utils/voucherNumbers');
+
+const migrate = async () => {
+  await connectDB();
+
+  const transactions = await Transaction.find({ voucherNo: { $exists: false } })
+    .select('transactionId date voucherType')
+    .sort({ date: 1, transactionId: 1 });
+
+  for (const transaction of transactions) {
+    const voucherType = transaction.voucherType || 'journal';
+    const { voucherNo, voucherYear } = await nextVoucherNo(voucherType, transaction.date);
+
+    // Update directly so the save hook does not draw a second number
+    await Transaction.updateOne({ _id: transaction._id }, { voucherType, voucherNo, voucherYear });
+    console.log(`#${transaction.transactionId}: ${voucherNo}`);
+  }
+
+  console.log(`Numbered ${transactions.length} transaction(s)`);
+  await mongoose.disconnect();
+};
+
+migrate().catch((error) => {
+  console.error('Migration failed:', error.message);
+  process.exit(1);
+});
@@ -1,8 +1,15 @@
 const express = require('express');
 const cors = require('cors');
 const connectDB = require('./config/db');
+const { startRecurringJob } = require('./jobs/recurringTransactions');
 require('dotenv').config();
 
+// Login tokens cannot be signed or checked without a secret
+if (!process.env.JWT_SECRET) {
+  console.error('JWT_SECRET is not set');
+  process.exit(1);
+}
+
 // Connect to database
 connectDB();
 
@@ -10,14 +17,27 @@ const app = express();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Statement imports send whole files, so allow bodies above the 100kb default
+app.use(express.json({ limit: '5mb' }));
 
 // Routes
+app.use('/api/auth', require('./routes/auth'));
+app.use('/api/users', require('./routes/users'));
 app.use('/api/account-types', require('./routes/accountTypes'));
 app.use('/api/accounts', require('./routes/accounts'));
+app.use('/api/transactions/:id/attachments', require('./routes/attachments'));
 app.use('/api/transactions', require('./routes/transactions'));
 app.use('/api/parties', require('./routes/parties'));
 app.use('/api/dashboard', require('./routes/dashboard'));
+app.use('/api/reports', require('./routes/reports'));
+app.use('/api/audit', require('./routes/audit'));
+app.use('/api/periods', require('./routes/periods'));
+app.use('/api/recurring-schedules', require('./routes/recurringSchedules'));
+app.use('/api/journal-templates', require('./routes/journalTemplates'));
+app.use('/api/bank-import', require('./routes/bankImport'));
+app.use('/api/reconciliations', require('./routes/reconciliations'));
+app.use('/api/voucher-series', require('./routes/voucherSeries'));
+app.use('/api/search', require('./routes/search'));
 
 // Basic test route
 app.get('/', (req, res) => {
@@ -28,4 +48,5 @@ const PORT = process.env.PORT || 5000;
 
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  startRecurringJob();
 });
\ No newline at end of file
@@ -0,0 +1,43 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createLocalStorage, newStorageKey } = require('../utils/storage');
+const { detectFileType, cleanFileName } = require('../utils/attachments');
+
+const padded = (header) => Buffer.concat([Buffer.from(header, 'latin1'), Buffer.alloc(16)]);
+
+test('detectFileType goes by the file contents', () => {
+  assert.equal(detectFileType(padded('%PDF-1.7')).mimeType, 'application/pdf');
+  assert.equal(detectFileType(Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.alloc(16)])).extension, 'jpg');
+  assert.equal(detectFileType(Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(16)])).extension, 'png');
+  assert.equal(detectFileType(padded('RIFF\u0000\u0000\u0000\u0000WEBPVP8 ')).mimeType, 'image/webp');
+  assert.equal(detectFileType(padded('<html><script>')), null);
+  assert.equal(detectFileType(Buffer.from('%PDF')), null);
+});
+
+test('cleanFileName drops directories and control characters', () => {
+  assert.equal(cleanFileName('C:\\scans\\receipt "march".pdf'), 'receipt march.pdf');
+  assert.equal(cleanFileName('../../etc/passwd'), 'passwd');
+  assert.equal(cleanFileName(''), 'attachment');
+});
+
+test('local storage saves, reads and removes files under its root', async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+  try {
+    const storage = createLocalStorage(root);
+    const key = newStorageKey('txn1', 'pdf');
+
+    await storage.save(key, Buffer.from('contents'));
+    assert.equal((await storage.read(key)).toString(), 'contents');
+
+    await storage.remove(key);
+    assert.equal(await storage.read(key), null);
+    await storage.remove(key);
+
+    await assert.rejects(storage.save('../outside.txt', Buffer.from('x')), /Invalid storage key/);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,54 @@
+const { test, describe } = require('node:test');
+const assert = require('node:assert/strict');
+const { normalizeRow, fingerprintRows } = require('../utils/bankImport');
+
+describe('normalizeRow', () => {
+  test('rounds amounts and formats the date', () => {
+    assert.deepEqual(normalizeRow({ date: '2026-01-05', description: ' Salary ', amount: '2500.004' }), {
+      date: '2026-01-05',
+      description: 'Salary',
+      amount: 2500,
+      reference: undefined,
+      bankTransactionId: undefined
+    });
+  });
+
+  test('rejects bad dates and zero amounts', () => {
+    assert.deepEqual(normalizeRow({ date: '', description: 'x', amount: 1 }), { error: 'Invalid date' });
+    assert.deepEqual(normalizeRow({ date: '2026-01-05', description: 'x', amount: 0 }), {
+      error: 'Amount must be a non-zero number'
+    });
+  });
+});
+
+describe('fingerprintRows', () => {
+  const rows = [
+    { date: '2026-01-05', description: 'Coffee', amount: -3.5 },
+    { date: '2026-01-05', description: 'coffee', amount: -3.5 },
+    { date: '2026-01-06', description: 'Coffee', amount: -3.5 }
+  ].map(normalizeRow);
+
+  test('is stable across imports of the same file', () => {
+    assert.deepEqual(fingerprintRows('acc1', rows), fingerprintRows('acc1', rows));
+  });
+
+  test('keeps identical lines in one file distinct', () => {
+    const [first, second] = fingerprintRows('acc1', rows);
+    assert.notEqual(first.fingerprint, second.fingerprint);
+  });
+
+  test('depends on the account', () => {
+    assert.notEqual(fingerprintRows('acc1', rows)[0].fingerprint, fingerprintRows('acc2', rows)[0].fingerprint);
+  });
+
+  test('uses the bank transaction id when present', () => {
+    const [a] = fingerprintRows('acc1', [normalizeRow({ date: '2026-01-05', description: 'A', amount: 1, bankTransactionId: 'X1' })]);
+    const [b] = fingerprintRows('acc1', [normalizeRow({ date: '2026-01-07', description: 'B', amount: 2, bankTransactionId: 'X1' })]);
+    assert.equal(a.fingerprint, b.fingerprint);
+  });
+
+  test('skips rows with errors', () => {
+    const [row] = fingerprintRows('acc1', [{ error: 'Invalid date' }]);
+    assert.equal(row.fingerprint, undefined);
+  });
+});
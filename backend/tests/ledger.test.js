@@ -0,0 +1,23 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { voidedFilter, parseDateRange, checkQueryDates } = require('../utils/ledger');
+
+test('voidedFilter always leaves pending entries out', () => {
+  assert.deepEqual(voidedFilter(), { status: { $ne: 'pending' } });
+  assert.deepEqual(voidedFilter('include'), { status: { $ne: 'pending' } });
+  assert.deepEqual(voidedFilter('exclude'), { status: 'completed', reversalOf: null });
+});
+
+test('parseDateRange makes the end date inclusive', () => {
+  const range = parseDateRange({ from: '2026-01-01', to: '2026-01-31' });
+  assert.deepEqual(range.from, new Date('2026-01-01'));
+  assert.deepEqual(range.to, new Date('2026-02-01'));
+});
+
+test('checkQueryDates names the first date that cannot be read', () => {
+  assert.equal(checkQueryDates({ from: '2026-01-01', to: '2026-01-31' }, 'from', 'to'), null);
+  assert.equal(checkQueryDates({}, 'asOf'), null);
+  assert.deepEqual(checkQueryDates({ asOf: '2026-01-01', compareAsOf: 'last year' }, 'asOf', 'compareAsOf'), {
+    message: 'Invalid compareAsOf date'
+  });
+});
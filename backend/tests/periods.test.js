@@ -0,0 +1,9 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { periodOf } = require('../utils/periods');
+
+test('periodOf files a date-only entry under the day given, not the day before', () => {
+  assert.deepEqual(periodOf('2026-01-01'), { year: 2026, month: 1 });
+  assert.deepEqual(periodOf('2026-03-01'), { year: 2026, month: 3 });
+  assert.deepEqual(periodOf(new Date('2025-12-31')), { year: 2025, month: 12 });
+});
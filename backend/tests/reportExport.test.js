@@ -0,0 +1,94 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const ExcelJS = require('exceljs');
+const { formatValue, toCsv, toXlsx, toPdf } = require('../utils/reportExport');
+
+const report = {
+  title: 'Account Ledgers',
+  subtitle: 'Period 2026-01-01 to 2026-01-31 | All accounts',
+  sections: [
+    {
+      name: 'Ledger',
+      columns: [
+        { header: 'Date', key: 'date', width: 12, format: 'date' },
+        { header: 'Description', key: 'description', width: 30 },
+        { header: 'Debit', key: 'debit', width: 12, format: 'money' }
+      ],
+      rows: [
+        { heading: 'Cash (Current Assets)' },
+        { date: new Date('2026-01-05T00:00:00Z'), description: 'Rent, January', debit: 1250.5 },
+        { date: '2026-01-09', description: 'Quote "A"', debit: null },
+        { description: 'Closing Balance', debit: 1250.5, emphasis: true }
+      ]
+    }
+  ]
+};
+
+test('formatValue groups money and prints dates as YYYY-MM-DD', () => {
+  assert.equal(formatValue(1234.5, 'money'), '1,234.50');
+  assert.equal(formatValue(1234.5, 'money', true), '1234.50');
+  assert.equal(formatValue(new Date('2026-03-04T00:00:00Z'), 'date'), '2026-03-04');
+  assert.equal(formatValue(null, 'money'), '');
+});
+
+test('toCsv writes the company header, sections and quoted values', () => {
+  process.env.COMPANY_NAME = 'Acme Traders';
+  const lines = toCsv(report).replace(/^\uFEFF/, '').split('\r\n');
+
+  assert.equal(lines[0], 'Acme Traders');
+  assert.equal(lines[1], 'Account Ledgers');
+  assert.ok(lines.includes('Date,Description,Debit'));
+  assert.ok(lines.includes('2026-01-05,"Rent, January",1250.50'));
+  assert.ok(lines.includes('2026-01-09,"Quote ""A""",'));
+  delete process.env.COMPANY_NAME;
+});
+
+test('toCsv keeps text that looks like a formula from running in a spreadsheet', () => {
+  const lines = toCsv({
+    title: 'Ledger',
+    sections: [{
+      name: 'Ledger',
+      columns: [{ header: 'Description', key: 'description' }, { header: 'Debit', key: 'debit', format: 'money' }],
+      rows: [
+        { description: '=HYPERLINK("http://evil.example","Click")', debit: -25 },
+        { description: '@SUM(A1)', debit: 10 },
+        { description: '-2+3', debit: null }
+      ]
+    }]
+  }).split('\r\n');
+
+  assert.ok(lines.includes('"\'=HYPERLINK(""http://evil.example"",""Click"")",-25.00'));
+  assert.ok(lines.includes("'@SUM(A1),10.00"));
+  assert.ok(lines.includes("'-2+3,"));
+});
+
+test('toXlsx writes one worksheet per section with numeric money cells', async () => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await toXlsx(report));
+
+  const sheet = workbook.getWorksheet('Ledger');
+  assert.ok(sheet);
+  assert.equal(sheet.getRow(1).getCell(1).value, 'Cash Flow');
+
+  let rentRow;
+  sheet.eachRow(row => {
+    if (row.getCell(2).value === 'Rent, January') rentRow = row;
+  });
+  assert.ok(rentRow);
+  assert.equal(rentRow.getCell(3).value, 1250.5);
+});
+
+test('toPdf paginates long reports', async () => {
+  const longReport = {
+    ...report,
+    sections: [{
+      ...report.sections[0],
+      rows: Array.from({ length: 200 }, (_, index) => ({ description: `Line ${index + 1}`, debit: index }))
+    }]
+  };
+
+  const pdf = await toPdf(longReport);
+  assert.equal(pdf.subarray(0, 5).toString(), '%PDF-');
+  const pages = pdf.toString('latin1').match(/\/Type \/Page\b/g) || [];
+  assert.ok(pages.length > 1);
+});
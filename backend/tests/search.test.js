@@ -0,0 +1,32 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parseAmount, matchScore, rankHits } = require('../utils/search');
+
+test('parseAmount accepts plain and formatted amounts only', () => {
+  assert.equal(parseAmount('80'), 80);
+  assert.equal(parseAmount('$1,250.50'), 1250.5);
+  assert.equal(parseAmount('12.345'), null);
+  assert.equal(parseAmount('rent'), null);
+  assert.equal(parseAmount('CPV-2026-0001'), null);
+});
+
+test('matchScore prefers exact, then prefix, then word, then substring matches', () => {
+  assert.equal(matchScore('Rent', 'rent'), 100);
+  assert.equal(matchScore('Rental income', 'rent'), 75);
+  assert.equal(matchScore('Office rent', 'rent'), 50);
+  assert.equal(matchScore('Parent company', 'rent'), 25);
+  assert.equal(matchScore('Utilities', 'rent'), 0);
+  assert.equal(matchScore(undefined, 'rent'), 0);
+  assert.equal(matchScore('Cost (a+b)', '(a+b'), 25);
+});
+
+test('rankHits drops non-matches, sorts by score and applies the limit', () => {
+  const hits = [
+    { name: 'b', score: 50 },
+    { name: 'a', score: 50 },
+    { name: 'c', score: 0 },
+    { name: 'd', score: 100 }
+  ];
+  const ranked = rankHits(hits, 2, (x, y) => x.name.localeCompare(y.name));
+  assert.deepEqual(ranked.map(hit => hit.name), ['d', 'a']);
+});
@@ -0,0 +1,158 @@
+const { test, describe } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { detectFormat, parseStatement } = require('../utils/statementParsers');
+const { parseQifDate } = require('../utils/statementParsers/qif');
+
+const fixture = (name) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+describe('detectFormat', () => {
+  test('recognises each sample file', () => {
+    assert.equal(detectFormat(fixture('statement.ofx')), 'ofx');
+    assert.equal(detectFormat(fixture('statement-v2.ofx')), 'ofx');
+    assert.equal(detectFormat(fixture('statement.qif')), 'qif');
+    assert.equal(detectFormat(fixture('statement.sta')), 'mt940');
+  });
+
+  test('returns null for CSV', () => {
+    assert.equal(detectFormat('Date,Description,Amount\n2026-01-05,Salary,2500'), null);
+  });
+
+  test('parseStatement rejects unknown formats', () => {
+    assert.throws(() => parseStatement('just some text'), /Unrecognised statement format/);
+  });
+});
+
+describe('OFX', () => {
+  test('parses SGML (OFX 1.x) transactions', () => {
+    const result = parseStatement(fixture('statement.ofx'));
+
+    assert.equal(result.format, 'ofx');
+    assert.equal(result.accountNumber, '123456789');
+    assert.equal(result.rows.length, 3);
+    assert.deepEqual(result.rows[0], {
+      line: 39,
+      date: '2026-01-05',
+      amount: 2500,
+      payee: 'ACME CORP PAYROLL',
+      description: 'ACME CORP PAYROLL - Salary January',
+      reference: undefined,
+      bankTransactionId: '202601050001'
+    });
+  });
+
+  test('decodes entities and reads cheque numbers', () => {
+    const [, water] = parseStatement(fixture('statement.ofx')).rows;
+    assert.equal(water.payee, 'City Water & Power');
+    assert.equal(water.amount, -150.75);
+    assert.equal(water.reference, '1042');
+  });
+
+  test('accepts a decimal comma in TRNAMT', () => {
+    const cafe = parseStatement(fixture('statement.ofx')).rows[2];
+    assert.equal(cafe.amount, -12.5);
+  });
+
+  test('reports invalid dates on their line', () => {
+    assert.deepEqual(parseStatement(fixture('statement.ofx')).errors, [
+      { line: 55, message: 'Invalid or missing DTPOSTED "20260199"' }
+    ]);
+  });
+
+  test('parses XML (OFX 2.x) and reports bad amounts', () => {
+    const result = parseStatement(fixture('statement-v2.ofx'));
+
+    assert.equal(result.accountNumber, '987654321');
+    assert.equal(result.rows.length, 1);
+    assert.equal(result.rows[0].date, '2026-02-28');
+    assert.equal(result.rows[0].amount, 4.12);
+    assert.equal(result.rows[0].bankTransactionId, 'INT-202602');
+    assert.deepEqual(result.errors, [{ line: 23, message: 'Invalid or missing TRNAMT "abc"' }]);
+  });
+
+  test('reports a file without transactions', () => {
+    const result = parseStatement('<OFX><BANKTRANLIST></BANKTRANLIST></OFX>', 'ofx');
+    assert.deepEqual(result.rows, []);
+    assert.equal(result.errors.length, 1);
+  });
+});
+
+describe('QIF', () => {
+  test('parses records and their fields', () => {
+    const result = parseStatement(fixture('statement.qif'));
+
+    assert.equal(result.format, 'qif');
+    assert.deepEqual(result.rows.map(row => [row.line, row.date, row.amount]), [
+      [2, '2026-01-05', 2500],
+      [7, '2026-01-10', -150.75],
+      [21, '2026-01-20', -45.1]
+    ]);
+    assert.equal(result.rows[0].description, 'ACME Corp Payroll - Salary January');
+    assert.equal(result.rows[1].reference, '1042');
+    assert.equal(result.rows[1].bankTransactionId, undefined);
+  });
+
+  test('reports bad dates and amounts on the offending line', () => {
+    assert.deepEqual(parseStatement(fixture('statement.qif')).errors, [
+      { line: 13, message: 'Invalid date "13/45/2026"' },
+      { line: 18, message: 'Invalid amount "TWELVE"' }
+    ]);
+  });
+
+  test('keeps a final record without a closing ^', () => {
+    const rows = parseStatement(fixture('statement.qif')).rows;
+    assert.equal(rows[rows.length - 1].payee, 'Grocery Mart');
+  });
+
+  test('reads the supported date styles', () => {
+    assert.equal(parseQifDate('12/31/2025'), '2025-12-31');
+    assert.equal(parseQifDate("1/2'26"), '2026-01-02');
+    assert.equal(parseQifDate('12-31-99'), '1999-12-31');
+    assert.equal(parseQifDate('2026-03-04'), '2026-03-04');
+    assert.equal(parseQifDate('31/12/2025', 'DMY'), '2025-12-31');
+    assert.equal(parseQifDate('31/12/2025'), null);
+  });
+
+  test('honours the day-first option', () => {
+    const result = parseStatement('!Type:Bank\nD05/01/2026\nT-10.00\nPShop\n^\n', 'qif', { dateOrder: 'DMY' });
+    assert.equal(result.rows[0].date, '2026-01-05');
+  });
+});
+
+describe('MT940', () => {
+  test('parses :61: lines with their :86: details', () => {
+    const result = parseStatement(fixture('statement.sta'));
+
+    assert.equal(result.format, 'mt940');
+    assert.equal(result.accountNumber, 'BE68539007547034');
+    assert.deepEqual(result.rows[0], {
+      line: 6,
+      date: '2026-01-05',
+      amount: 2500,
+      payee: undefined,
+      description: 'ACME CORP SALARY JANUARY',
+      reference: 'PAYROLL-JAN',
+      bankTransactionId: 'BK0001'
+    });
+  });
+
+  test('handles debits, structured :86: text and NONREF', () => {
+    const [, water, reversal] = parseStatement(fixture('statement.sta')).rows;
+
+    assert.equal(water.amount, -150.75);
+    assert.equal(water.description, 'City Water and Power');
+    assert.equal(water.reference, '1042');
+    // RC reverses a credit, so money goes out
+    assert.equal(reversal.amount, -45.1);
+    assert.equal(reversal.reference, undefined);
+    assert.equal(reversal.description, 'REVERSAL GROCERY MART');
+  });
+
+  test('reports unreadable statement lines', () => {
+    assert.deepEqual(parseStatement(fixture('statement.sta')).errors, [
+      { line: 10, message: 'Invalid value date "260199"' },
+      { line: 12, message: 'Unrecognised :61: statement line "260115D12.50NMSCNONREF"' }
+    ]);
+  });
+});
@@ -0,0 +1,28 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { editableLines, withSerialNumbers } = require('../utils/transactionDetails');
+
+const storedId = '64b0000000000000000000aa';
+const accountId = '64b000000000000000000001';
+
+test('editableLines drops server-owned fields such as the reconciliation lock', () => {
+  const [line] = editableLines([{
+    account: accountId,
+    description: 'Rent',
+    amount: 500,
+    type: 'debit',
+    reconciliation: '64b0000000000000000000ff',
+    serialNo: 9
+  }]);
+  assert.deepEqual(line, { account: accountId, description: 'Rent', amount: 500, type: 'debit' });
+});
+
+test('editableLines keeps the _id of stored lines only', () => {
+  const lines = editableLines(
+    [{ _id: storedId, account: accountId }, { _id: '64b0000000000000000000bb', account: accountId }],
+    [{ _id: storedId }]
+  );
+  assert.equal(lines[0]._id, storedId);
+  assert.equal(lines[1]._id, undefined);
+  assert.deepEqual(withSerialNumbers(lines).map(line => line.serialNo), [1, 2]);
+});
@@ -0,0 +1,57 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parseListQuery, buildTransactionFilter } = require('../utils/transactionFilters');
+
+const accountId = '64b000000000000000000001';
+
+test('parseListQuery defaults to the newest transactions, ten per page', () => {
+  const { page, limit, sort, criteria } = parseListQuery({});
+  assert.equal(page, 1);
+  assert.equal(limit, 10);
+  assert.deepEqual(sort, { transactionId: -1 });
+  assert.deepEqual(criteria, {});
+});
+
+test('parseListQuery reads sort fields and caps the page size', () => {
+  const { sort, limit, page } = parseListQuery({ sortBy: 'amount', sortOrder: 'asc', limit: '500', page: '3' });
+  assert.deepEqual(sort, { totalAmount: 1, transactionId: 1 });
+  assert.equal(limit, 100);
+  assert.equal(page, 3);
+});
+
+test('parseListQuery rejects bad parameters', () => {
+  assert.equal(parseListQuery({ accountId: 'nope' }).error, 'Invalid accountId');
+  assert.equal(parseListQuery({ minAmount: '-5' }).error, 'minAmount must be a positive number');
+  assert.equal(parseListQuery({ minAmount: '50', maxAmount: '10' }).error, 'minAmount cannot be more than maxAmount');
+  assert.equal(parseListQuery({ side: 'left' }).error, 'side must be debit or credit');
+  assert.equal(parseListQuery({ status: 'lost' }).error, 'Invalid status');
+  assert.equal(parseListQuery({ sortBy: 'password' }).error, 'Invalid sortBy');
+  assert.equal(parseListQuery({ startDate: 'soon' }).error, 'Invalid startDate');
+});
+
+test('buildTransactionFilter matches account, side and amount on the same line', async () => {
+  const { criteria } = parseListQuery({ accountId, side: 'debit', minAmount: '100', maxAmount: '500' });
+  const filter = await buildTransactionFilter(criteria);
+  assert.deepEqual(filter, {
+    details: { $elemMatch: { account: accountId, type: 'debit', amount: { $gte: 100, $lte: 500 } } }
+  });
+});
+
+test('buildTransactionFilter applies either end of a date range on its own', async () => {
+  const from = await buildTransactionFilter(parseListQuery({ startDate: '2026-03-01' }).criteria);
+  assert.deepEqual(from.date, { $gte: new Date('2026-03-01') });
+
+  const to = await buildTransactionFilter(parseListQuery({ endDate: '2026-03-31' }).criteria);
+  assert.deepEqual(to.date, { $lt: new Date('2026-04-01') });
+});
+
+test('buildTransactionFilter escapes the description and counts old entries as journals', async () => {
+  const filter = await buildTransactionFilter(parseListQuery({
+    description: 'fee (bank)',
+    voucherType: 'journal',
+    status: 'cancelled'
+  }).criteria);
+  assert.equal(filter['details.description'].source, 'fee \\(bank\\)');
+  assert.deepEqual(filter.voucherType, { $in: ['journal', null] });
+  assert.equal(filter.status, 'cancelled');
+});
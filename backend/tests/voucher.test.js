@@ -0,0 +1,94 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { amountInWords, buildVoucher, voucherPdf } = require('../utils/voucher');
+
+const bank = { _id: 'a1', name: 'Main Bank', accountNo: '0012', isOwnerAccount: true };
+const rent = { _id: 'a2', name: 'Rent Expense', isOwnerAccount: false };
+const sales = { _id: 'a3', name: 'Sales', isOwnerAccount: false };
+const landlord = { _id: 'p1', name: 'City Properties' };
+
+const transaction = (details) => ({
+  _id: 't1',
+  transactionId: 42,
+  date: new Date('2026-02-03T00:00:00Z'),
+  status: 'completed',
+  details: details.map((detail, index) => ({ serialNo: index + 1, description: 'Line', ...detail }))
+});
+
+test('amountInWords spells out dollars and cents', () => {
+  assert.equal(amountInWords(0), 'Zero Dollars Only');
+  assert.equal(amountInWords(1), 'One Dollar Only');
+  assert.equal(amountInWords(1250.5), 'One Thousand Two Hundred Fifty Dollars and Fifty Cents Only');
+  assert.equal(amountInWords(2000001.01), 'Two Million One Dollars and One Cent Only');
+  assert.equal(amountInWords(99.99), 'Ninety-Nine Dollars and Ninety-Nine Cents Only');
+});
+
+test('amountInWords and vouchers use the configured currency', () => {
+  const rupee = { symbol: 'Rs', unit: 'Rupee', units: 'Rupees', subunit: 'Paisa', subunits: 'Paise' };
+  assert.equal(amountInWords(1.01, rupee), 'One Rupee and One Paisa Only');
+  assert.equal(amountInWords(250.75, rupee), 'Two Hundred Fifty Rupees and Seventy-Five Paise Only');
+
+  process.env.CURRENCY_SYMBOL = 'Rs';
+  process.env.CURRENCY_UNITS = 'Rupees';
+  const voucher = buildVoucher(transaction([
+    { account: rent, amount: 800, type: 'debit' },
+    { account: bank, amount: 800, type: 'credit' }
+  ]));
+  delete process.env.CURRENCY_SYMBOL;
+  delete process.env.CURRENCY_UNITS;
+
+  assert.equal(voucher.company.currency.symbol, 'Rs');
+  assert.equal(voucher.amountInWords, 'Eight Hundred Rupees Only');
+});
+
+test('money leaving a bank account makes a payment voucher', () => {
+  const voucher = buildVoucher(transaction([
+    { account: rent, party: landlord, amount: 800, type: 'debit' },
+    { account: bank, amount: 800, type: 'credit' }
+  ]));
+
+  assert.equal(voucher.kind, 'payment');
+  assert.equal(voucher.title, 'Payment Voucher');
+  assert.equal(voucher.amount, 800);
+  assert.equal(voucher.partyName, 'City Properties');
+  assert.equal(voucher.totalDebit, 800);
+  assert.equal(voucher.totalCredit, 800);
+  assert.equal(voucher.amountInWords, 'Eight Hundred Dollars Only');
+});
+
+test('money coming in makes a receipt and non-cash entries a journal voucher', () => {
+  const receipt = buildVoucher(transaction([
+    { account: bank, amount: 150, type: 'debit' },
+    { account: sales, amount: 150, type: 'credit' }
+  ]));
+  assert.equal(receipt.kind, 'receipt');
+
+  const journal = buildVoucher(transaction([
+    { account: rent, amount: 60, type: 'debit' },
+    { account: sales, amount: 60, type: 'credit' }
+  ]));
+  assert.equal(journal.kind, 'journal');
+  assert.equal(journal.amount, 60);
+});
+
+test('numbered vouchers are titled by their voucher type', () => {
+  const voucher = buildVoucher({
+    ...transaction([
+      { account: bank, amount: 20, type: 'debit' },
+      { account: sales, amount: 20, type: 'credit' }
+    ]),
+    voucherType: 'cash_receipt',
+    voucherNo: 'CRV-2026-0003'
+  });
+
+  assert.equal(voucher.title, 'Cash Receipt Voucher');
+  assert.equal(voucher.voucherNo, 'CRV-2026-0003');
+});
+
+test('voucherPdf renders a PDF', async () => {
+  const pdf = await voucherPdf(buildVoucher(transaction([
+    { account: rent, amount: 800, type: 'debit' },
+    { account: bank, amount: 800, type: 'credit' }
+  ])));
+  assert.equal(pdf.subarray(0, 5).toString(), '%PDF-');
+});
@@ -0,0 +1,31 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { VOUCHER_TYPES, validateFormat, findPrefixClash, formatVoucherNo } = require('../utils/voucherNumbers');
+
+test('formatVoucherNo fills the year and pads the sequence', () => {
+  assert.equal(formatVoucherNo('CPV-{YYYY}-{####}', 2026, 1), 'CPV-2026-0001');
+  assert.equal(formatVoucherNo('BR/{YY}/{###}', 2026, 42), 'BR/26/042');
+  assert.equal(formatVoucherNo('JV{YYYY}{##}', 2026, 1234), 'JV20261234');
+});
+
+test('every default format is valid', () => {
+  Object.values(VOUCHER_TYPES).forEach(({ format }) => {
+    assert.equal(validateFormat(format), null, format);
+  });
+});
+
+test('validateFormat needs one sequence token and the year', () => {
+  assert.match(validateFormat('').message, /required/);
+  assert.match(validateFormat('CPV-{YYYY}').message, /sequence token/);
+  assert.match(validateFormat('CPV-{YYYY}-{##}-{##}').message, /sequence token/);
+  assert.match(validateFormat('CPV-{####}').message, /year/);
+  assert.equal(validateFormat('CPV-{YY}-{####}'), null);
+});
+
+test('findPrefixClash rejects a format that starts like another type\'s series', () => {
+  const formats = Object.fromEntries(Object.entries(VOUCHER_TYPES).map(([type, { format }]) => [type, format]));
+  assert.match(findPrefixClash('journal', 'CPV-{YYYY}-{###}', formats, 2026).message, /Cash Payment/);
+  assert.match(findPrefixClash('journal', 'CPV-20{YY}-{####}', formats, 2026).message, /Cash Payment/);
+  assert.equal(findPrefixClash('cash_payment', 'CPV-{YYYY}-{###}', formats, 2026), null);
+  assert.equal(findPrefixClash('journal', 'JV/{YY}/{####}', formats, 2026), null);
+});
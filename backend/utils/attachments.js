@@ -0,0 +1,55 @@
+const { getStorage } = require('./storage');
+
+// Limits on files attached to transactions
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const MAX_ATTACHMENTS_PER_TRANSACTION = 20;
+
+// Accepted file types with the leading bytes that identify them; the browser's
+// content type is not trusted, the file has to start with the right signature
+const ATTACHMENT_TYPES = [
+  { mimeType: 'image/jpeg', extension: 'jpg', matches: (bytes) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff },
+  { mimeType: 'image/png', extension: 'png', matches: (bytes) => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { mimeType: 'image/gif', extension: 'gif', matches: (bytes) => bytes.subarray(0, 4).toString('latin1') === 'GIF8' },
+  {
+    mimeType: 'image/webp',
+    extension: 'webp',
+    matches: (bytes) => bytes.subarray(0, 4).toString('latin1') === 'RIFF' && bytes.subarray(8, 12).toString('latin1') === 'WEBP'
+  },
+  { mimeType: 'application/pdf', extension: 'pdf', matches: (bytes) => bytes.subarray(0, 5).toString('latin1') === '%PDF-' }
+];
+
+// Identify an uploaded file from its contents; null when it is not an accepted type
+const detectFileType = (buffer) => {
+  if (!buffer || buffer.length < 12) {
+    return null;
+  }
+  return ATTACHMENT_TYPES.find(type => type.matches(buffer)) || null;
+};
+
+// Strip path parts and control characters from an uploaded file name
+const cleanFileName = (name) => {
+  const base = String(name || '').split(/[\\/]/).pop().replace(/[\u0000-\u001f\u007f"]/g, '').trim();
+  return base.slice(-200) || 'attachment';
+};
+
+// Delete the stored files of removed attachments; a file left behind only wastes
+// space, so failures are logged rather than failing the request
+const removeAttachmentFiles = async (attachments) => {
+  const storage = getStorage();
+  await Promise.all((attachments || []).map(async (attachment) => {
+    try {
+      await storage.remove(attachment.storageKey);
+    } catch (error) {
+      console.error(`Failed to remove attachment ${attachment.storageKey}:`, error.message);
+    }
+  }));
+};
+
+module.exports = {
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+  ATTACHMENT_TYPES,
+  detectFileType,
+  cleanFileName,
+  removeAttachmentFiles
+};
@@ -0,0 +1,72 @@
+const AuditLog = require('../models/AuditLog');
+
+// Bookkeeping fields that change on every save and would only add noise to a diff
+const IGNORED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt', 'history'];
+
+// Plain object with populated references collapsed back to ids
+const toPlain = (doc) => {
+  if (!doc) return {};
+  return doc.toObject ? doc.toObject({ depopulate: true }) : doc;
+};
+
+// JSON form of a field value; subdocument ids are dropped since transaction lines
+// get new ones on every edit
+const normalize = (value) => (
+  value === undefined ? null : JSON.parse(JSON.stringify(value, (key, v) => (key === '_id' ? undefined : v)))
+);
+
+// Compare two snapshots field by field
+const diffSnapshots = (before, after) => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes = [];
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field)) return;
+
+    const beforeValue = normalize(before[field]);
+    const afterValue = normalize(after[field]);
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  });
+
+  return changes;
+};
+
+// Label an entity for the trail, e.g. "#42" for transactions or the record's name
+const entityLabel = (entity, snapshot) => {
+  if (entity === 'Transaction' && snapshot.transactionId) return `#${snapshot.transactionId}`;
+  return snapshot.name;
+};
+
+// Write an audit entry for a change made by req.user (or by the system when req is null).
+// Pass null for "before" on create and for "after" on delete. Failures are logged and
+// never block the write.
+const recordAudit = async (req, entity, action, before, after) => {
+  try {
+    const beforeSnapshot = toPlain(before);
+    const afterSnapshot = toPlain(after);
+    const changes = diffSnapshots(beforeSnapshot, afterSnapshot);
+
+    // An update that changed nothing is not worth recording
+    if (action === 'update' && changes.length === 0) return;
+
+    const source = after || before;
+    await AuditLog.create({
+      entity,
+      entityId: source._id,
+      entityLabel: entityLabel(entity, after ? afterSnapshot : beforeSnapshot),
+      action,
+      user: req && req.user ? req.user._id : undefined,
+      username: req && req.user ? req.user.username : 'system',
+      changes
+    });
+  } catch (error) {
+    console.error(`Failed to record audit entry for ${entity}:`, error.message);
+  }
+};
+
+module.exports = {
+  diffSnapshots,
+  recordAudit
+};
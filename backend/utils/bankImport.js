@@ -0,0 +1,64 @@
+const crypto = require('crypto');
+const Transaction = require('../models/Transaction');
+const { toDateString } = require('./ledger');
+
+// Validate one statement line ({ date, description, amount, reference?, bankTransactionId? }).
+// Positive amounts are money into the account, negative amounts money out.
+const normalizeRow = (row) => {
+  const date = new Date(row.date);
+  const amount = Math.round(Number(row.amount) * 100) / 100;
+  const description = String(row.description || '').trim();
+
+  if (!row.date || Number.isNaN(date.getTime())) {
+    return { error: 'Invalid date' };
+  }
+  if (!Number.isFinite(amount) || amount === 0) {
+    return { error: 'Amount must be a non-zero number' };
+  }
+
+  return {
+    date: toDateString(date),
+    description: description || String(row.reference || '').trim() || 'Bank statement line',
+    amount,
+    reference: row.reference ? String(row.reference).trim() : undefined,
+    bankTransactionId: row.bankTransactionId ? String(row.bankTransactionId).trim() : undefined
+  };
+};
+
+const hash = (value) => crypto.createHash('sha1').update(value).digest('hex');
+
+// Fingerprint each row so a statement can be imported again without duplicating lines.
+// Rows are keyed on the bank's transaction id when the file has one, otherwise on their
+// content, plus how many rows with the same key came before them in the file so two
+// equal payments on one day stay distinct.
+const fingerprintRows = (accountId, rows) => {
+  const seen = new Map();
+  return rows.map(row => {
+    if (row.error) return row;
+    const key = row.bankTransactionId
+      ? `${accountId}|id|${row.bankTransactionId}`
+      : `${accountId}|${row.date}|${row.amount.toFixed(2)}|${row.description.toLowerCase().replace(/\s+/g, ' ')}`;
+    const occurrence = (seen.get(key) || 0) + 1;
+    seen.set(key, occurrence);
+    return { ...row, fingerprint: hash(`${key}|${occurrence}`) };
+  });
+};
+
+// Normalize and fingerprint raw rows, flagging the ones already imported
+const prepareRows = async (accountId, rawRows) => {
+  const rows = fingerprintRows(accountId, rawRows.map(normalizeRow));
+  const fingerprints = rows.filter(row => row.fingerprint).map(row => row.fingerprint);
+  const existing = await Transaction.find({ importFingerprint: { $in: fingerprints } })
+    .select('importFingerprint transactionId');
+  const imported = new Map(existing.map(transaction => [transaction.importFingerprint, transaction.transactionId]));
+
+  return rows.map(row => (row.fingerprint && imported.has(row.fingerprint)
+    ? { ...row, duplicateOf: imported.get(row.fingerprint) }
+    : row));
+};
+
+module.exports = {
+  normalizeRow,
+  fingerprintRows,
+  prepareRows
+};
@@ -0,0 +1,155 @@
+const Transaction = require('../models/Transaction');
+
+// Parse ?from=&to= into a date filter; "to" is inclusive of the whole day
+const parseDateRange = ({ from, to }) => {
+  const range = {};
+  if (from) {
+    range.from = new Date(from);
+  }
+  if (to) {
+    range.to = new Date(to);
+    range.to.setUTCDate(range.to.getUTCDate() + 1);
+  }
+  return range;
+};
+
+// Return an error body naming the first of the given query dates that cannot be read, otherwise null
+const checkQueryDates = (query, ...names) => {
+  const invalid = names.find(name => query[name] && Number.isNaN(new Date(query[name]).getTime()));
+  return invalid ? { message: `Invalid ${invalid} date` } : null;
+};
+
+// Format a date as YYYY-MM-DD for report headings
+const toDateString = (date) => date.toISOString().slice(0, 10);
+
+// Build a Transaction.date condition from a parsed range
+const dateCondition = (range) => {
+  const condition = {};
+  if (range.from) condition.$gte = range.from;
+  if (range.to) condition.$lt = range.to;
+  return condition;
+};
+
+// Pending entries (e.g. from schedules awaiting approval) are not posted and never count
+const POSTED = { status: { $ne: 'pending' } };
+
+// Map ?voided=exclude to a filter that drops voided transactions and their reversals;
+// by default both are kept since together they net to zero. Pending entries are always dropped.
+const voidedFilter = (voided) => (
+  voided === 'exclude' ? { status: 'completed', reversalOf: null } : { ...POSTED }
+);
+
+// Sum debits and credits on the lines matching a filter (e.g. { 'details.account': id })
+// dated before a given date
+const getOpeningTotals = async (lineFilter, before) => {
+  if (!before) {
+    return { debit: 0, credit: 0 };
+  }
+
+  const [totals] = await Transaction.aggregate([
+    { $match: { ...POSTED, ...lineFilter, date: { $lt: before } } },
+    { $unwind: '$details' },
+    { $match: lineFilter },
+    {
+      $group: {
+        _id: null,
+        debit: { $sum: { $cond: [{ $eq: ['$details.type', 'debit'] }, '$details.amount', 0] } },
+        credit: { $sum: { $cond: [{ $eq: ['$details.type', 'credit'] }, '$details.amount', 0] } }
+      }
+    }
+  ]);
+
+  return totals || { debit: 0, credit: 0 };
+};
+
+// Same sums as getOpeningTotals, split by account: a Map of account id to { debit, credit }
+const getOpeningTotalsByAccount = async (lineFilter, before) => {
+  if (!before) {
+    return new Map();
+  }
+
+  const totals = await Transaction.aggregate([
+    { $match: { ...POSTED, ...lineFilter, date: { $lt: before } } },
+    { $unwind: '$details' },
+    { $match: lineFilter },
+    {
+      $group: {
+        _id: '$details.account',
+        debit: { $sum: { $cond: [{ $eq: ['$details.type', 'debit'] }, '$details.amount', 0] } },
+        credit: { $sum: { $cond: [{ $eq: ['$details.type', 'credit'] }, '$details.amount', 0] } }
+      }
+    }
+  ]);
+
+  return new Map(totals.map(({ _id, debit, credit }) => [String(_id), { debit, credit }]));
+};
+
+// Fetch every line matching a filter inside a date range, oldest first
+const getLedgerLines = async (lineFilter, range) => {
+  const match = { ...POSTED, ...lineFilter };
+  if (range.from || range.to) {
+    match.date = dateCondition(range);
+  }
+
+  return Transaction.aggregate([
+    { $match: match },
+    { $unwind: '$details' },
+    { $match: lineFilter },
+    { $sort: { date: 1, transactionId: 1, 'details.serialNo': 1 } },
+    { $lookup: { from: 'accounts', localField: 'details.account', foreignField: '_id', as: 'lineAccount' } },
+    { $lookup: { from: 'parties', localField: 'details.party', foreignField: '_id', as: 'lineParty' } },
+    {
+      $project: {
+        _id: 0,
+        transaction: '$_id',
+        transactionId: 1,
+        date: 1,
+        status: 1,
+        serialNo: '$details.serialNo',
+        account: '$details.account',
+        accountName: { $arrayElemAt: ['$lineAccount.name', 0] },
+        party: '$details.party',
+        partyName: { $arrayElemAt: ['$lineParty.name', 0] },
+        description: '$details.description',
+        debit: { $cond: [{ $eq: ['$details.type', 'debit'] }, '$details.amount', 0] },
+        credit: { $cond: [{ $eq: ['$details.type', 'credit'] }, '$details.amount', 0] }
+      }
+    }
+  ]);
+};
+
+// Sum debits and credits per account in a date range, with account and type attached
+const getAccountTotals = async (range, filter = {}) => {
+  const match = range.from || range.to
+    ? { ...POSTED, ...filter, date: dateCondition(range) }
+    : { ...POSTED, ...filter };
+
+  return Transaction.aggregate([
+    { $match: match },
+    { $unwind: '$details' },
+    {
+      $group: {
+        _id: '$details.account',
+        debit: { $sum: { $cond: [{ $eq: ['$details.type', 'debit'] }, '$details.amount', 0] } },
+        credit: { $sum: { $cond: [{ $eq: ['$details.type', 'credit'] }, '$details.amount', 0] } }
+      }
+    },
+    { $lookup: { from: 'accounts', localField: '_id', foreignField: '_id', as: 'account' } },
+    { $unwind: { path: '$account', preserveNullAndEmptyArrays: true } },
+    { $lookup: { from: 'accounttypes', localField: 'account.type', foreignField: '_id', as: 'type' } },
+    { $unwind: { path: '$type', preserveNullAndEmptyArrays: true } },
+    { $sort: { 'type.name': 1, 'account.accountId': 1 } }
+  ]);
+};
+
+module.exports = {
+  parseDateRange,
+  checkQueryDates,
+  toDateString,
+  dateCondition,
+  voidedFilter,
+  getOpeningTotals,
+  getOpeningTotalsByAccount,
+  getLedgerLines,
+  getAccountTotals
+};
@@ -0,0 +1,31 @@
+const FiscalPeriod = require('../models/FiscalPeriod');
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// Fiscal years follow the calendar year; months are taken in UTC like report dates.
+// Clients send entry dates as YYYY-MM-DD, which parse as midnight UTC on the day picked.
+const periodOf = (date) => {
+  const value = new Date(date);
+  return { year: value.getUTCFullYear(), month: value.getUTCMonth() + 1 };
+};
+
+// Return an error body if any of the dates falls in a locked period, otherwise null
+const checkPeriodsOpen = async (...dates) => {
+  for (const date of dates.filter(Boolean)) {
+    const { year, month } = periodOf(date);
+    const locked = await FiscalPeriod.exists({ year, month, isLocked: true });
+    if (locked) {
+      return { message: `${MONTH_NAMES[month - 1]} ${year} is locked. Unlock the period before posting to it.` };
+    }
+  }
+  return null;
+};
+
+module.exports = {
+  MONTH_NAMES,
+  periodOf,
+  checkPeriodsOpen
+};
@@ -0,0 +1,95 @@
+const mongoose = require('mongoose');
+const Transaction = require('../models/Transaction');
+const Reconciliation = require('../models/Reconciliation');
+const { voidedFilter } = require('./ledger');
+
+const round = (value) => Math.round(value * 100) / 100;
+
+// End of the statement day, so lines dated on the statement date are included
+const endOfDay = (date) => {
+  const end = new Date(date);
+  end.setUTCHours(0, 0, 0, 0);
+  end.setUTCDate(end.getUTCDate() + 1);
+  return end;
+};
+
+// Lines of an account up to the statement date, as { transaction, transactionId, date,
+// detail, description, partyName, amount, reconciliation } with money in positive.
+// Voided transactions and their reversals net to zero and are left out.
+const getAccountLines = async (accountId, statementDate, lineFilter = {}) => {
+  const account = new mongoose.Types.ObjectId(String(accountId));
+
+  return Transaction.aggregate([
+    { $match: { 'details.account': account, date: { $lt: endOfDay(statementDate) }, ...voidedFilter('exclude') } },
+    { $unwind: '$details' },
+    { $match: { 'details.account': account, ...lineFilter } },
+    { $sort: { date: 1, transactionId: 1, 'details.serialNo': 1 } },
+    { $lookup: { from: 'parties', localField: 'details.party', foreignField: '_id', as: 'lineParty' } },
+    {
+      $project: {
+        _id: 0,
+        transaction: '$_id',
+        transactionId: 1,
+        date: 1,
+        detail: '$details._id',
+        description: '$details.description',
+        partyName: { $arrayElemAt: ['$lineParty.name', 0] },
+        reconciliation: '$details.reconciliation',
+        amount: { $cond: [{ $eq: ['$details.type', 'debit'] }, '$details.amount', { $multiply: ['$details.amount', -1] }] }
+      }
+    }
+  ]);
+};
+
+// Statement balance of the last completed reconciliation, the starting point for the next one
+const getOpeningBalance = async (accountId) => {
+  const last = await Reconciliation.findOne({ account: accountId, status: 'completed' })
+    .sort({ statementDate: -1, completedAt: -1 });
+  return last ? last.statementBalance : 0;
+};
+
+// Lines a reconciliation works with, flagged cleared or not. A draft shows every line not
+// cleared by an earlier reconciliation; a completed one shows the lines it cleared.
+const getReconciliationLines = async (reconciliation) => {
+  if (reconciliation.status === 'completed') {
+    const lines = await getAccountLines(reconciliation.account, reconciliation.statementDate, {
+      'details.reconciliation': reconciliation._id
+    });
+    return lines.map(line => ({ ...line, cleared: true }));
+  }
+
+  const ticked = new Set(reconciliation.clearedLines.map(line => String(line.detail)));
+  const lines = await getAccountLines(reconciliation.account, reconciliation.statementDate, {
+    'details.reconciliation': null
+  });
+  return lines.map(line => ({ ...line, cleared: ticked.has(String(line.detail)) }));
+};
+
+// Cleared balance and the difference still to explain against the statement
+const summarize = (reconciliation, lines) => {
+  const clearedTotal = lines.filter(line => line.cleared).reduce((sum, line) => sum + line.amount, 0);
+  const clearedBalance = round(reconciliation.openingBalance + clearedTotal);
+  return {
+    openingBalance: reconciliation.openingBalance,
+    clearedDeposits: round(lines.filter(line => line.cleared && line.amount > 0).reduce((sum, line) => sum + line.amount, 0)),
+    clearedPayments: round(-lines.filter(line => line.cleared && line.amount < 0).reduce((sum, line) => sum + line.amount, 0)),
+    clearedBalance,
+    difference: round(reconciliation.statementBalance - clearedBalance)
+  };
+};
+
+// Error payload when a transaction has lines locked by a completed reconciliation
+const checkNotReconciled = (transaction) => (
+  transaction.details.some(detail => detail.reconciliation)
+    ? { message: 'This transaction has lines cleared in a completed bank reconciliation. Undo the reconciliation first.' }
+    : null
+);
+
+module.exports = {
+  endOfDay,
+  getAccountLines,
+  getOpeningBalance,
+  getReconciliationLines,
+  summarize,
+  checkNotReconciled
+};
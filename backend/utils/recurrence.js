@@ -0,0 +1,43 @@
+const { toDateString } = require('./ledger');
+
+// Date of the nth occurrence (0 = startDate). Months and years are counted from the start
+// date so a schedule on the 31st runs on the last day of shorter months without drifting.
+const occurrenceDate = (schedule, index) => {
+  const start = new Date(schedule.startDate);
+  const step = index * (schedule.interval || 1);
+
+  if (schedule.frequency === 'daily' || schedule.frequency === 'weekly') {
+    const days = schedule.frequency === 'weekly' ? step * 7 : step;
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + days));
+  }
+
+  const months = schedule.frequency === 'yearly' ? step * 12 : step;
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay)));
+};
+
+// Whether the nth occurrence is past the schedule's end date or count
+const isFinished = (schedule, index) => {
+  if (schedule.maxOccurrences && index >= schedule.maxOccurrences) return true;
+  if (schedule.endDate && occurrenceDate(schedule, index) > new Date(schedule.endDate)) return true;
+  return false;
+};
+
+// Up to `count` occurrences from the next one on, marking those that will be skipped
+const upcomingOccurrences = (schedule, count) => {
+  const occurrences = [];
+  for (let index = schedule.nextIndex; occurrences.length < count; index++) {
+    if (isFinished(schedule, index)) break;
+    const date = toDateString(occurrenceDate(schedule, index));
+    occurrences.push({ index, date, skipped: schedule.skippedDates.includes(date) });
+  }
+  return occurrences;
+};
+
+module.exports = {
+  occurrenceDate,
+  isFinished,
+  upcomingOccurrences
+};
@@ -0,0 +1,260 @@
+const ExcelJS = require('exceljs');
+const PDFDocument = require('pdfkit');
+const { getCompany } = require('../config/company');
+
+// A report is { title, subtitle, sections: [{ name, columns, rows }] }
+// Columns are { header, key, width, format } with format 'text', 'money', 'number' or 'date'
+// Rows are plain objects keyed by column; { heading } rows label a group and
+// rows with emphasis set (openings, closings, totals) are printed in bold
+
+const EXPORT_FORMATS = {
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  xlsx: { extension: 'xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  pdf: { extension: 'pdf', contentType: 'application/pdf' }
+};
+
+const isBlank = (value) => value === null || value === undefined || value === '';
+
+const toDateString = (value) => {
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toISOString().slice(0, 10);
+};
+
+// Text for one cell; money is grouped with thousands separators unless plain is set
+const formatValue = (value, format, plain = false) => {
+  if (isBlank(value)) {
+    return '';
+  }
+  if (format === 'money') {
+    const amount = Number(value);
+    return plain
+      ? amount.toFixed(2)
+      : amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+  if (format === 'date') {
+    return toDateString(value);
+  }
+  return String(value);
+};
+
+// Company name and contact line followed by the report title
+const reportHeader = (report) => {
+  const company = getCompany();
+  return {
+    companyName: company.name,
+    contact: [company.address, company.phone, company.email].filter(Boolean).join(' | '),
+    title: report.title,
+    subtitle: report.subtitle || ''
+  };
+};
+
+// Spreadsheets run cells starting with these characters as formulas; plain numbers are left alone
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+// Quote a value when it contains a delimiter, quote or line break, and prefix
+// text that a spreadsheet would read as a formula with ' so it stays text
+const escapeCsvValue = (value) => {
+  const text = FORMULA_START.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (report) => {
+  const { companyName, contact, title, subtitle } = reportHeader(report);
+  const lines = [companyName, contact, title, subtitle].filter(Boolean).map(line => [line]);
+
+  report.sections.forEach(section => {
+    lines.push([], [section.name], section.columns.map(column => column.header));
+    section.rows.forEach(row => {
+      if (row.heading) {
+        lines.push([row.heading]);
+        return;
+      }
+      lines.push(section.columns.map(column => formatValue(row[column.key], column.format, true)));
+    });
+  });
+
+  // The byte order mark lets Excel open the file as UTF-8
+  return '\uFEFF' + lines.map(line => line.map(escapeCsvValue).join(',')).join('\r\n');
+};
+
+// Worksheet names are limited to 31 characters and some punctuation
+const sheetName = (name) => name.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31);
+
+const toXlsx = async (report) => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = getCompany().name;
+  workbook.created = new Date();
+
+  report.sections.forEach(section => {
+    const sheet = workbook.addWorksheet(sheetName(section.name));
+    const { companyName, contact, title, subtitle } = reportHeader(report);
+
+    sheet.addRow([companyName]).font = { bold: true, size: 14 };
+    if (contact) sheet.addRow([contact]);
+    sheet.addRow([title]).font = { bold: true, size: 12 };
+    if (subtitle) sheet.addRow([subtitle]);
+    sheet.addRow([]);
+
+    const columnRow = sheet.addRow(section.columns.map(column => column.header));
+    columnRow.font = { bold: true };
+    columnRow.eachCell(cell => {
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE8EAF6' } };
+      cell.border = { bottom: { style: 'thin' } };
+    });
+
+    section.columns.forEach((column, index) => {
+      const sheetColumn = sheet.getColumn(index + 1);
+      sheetColumn.width = column.width || 14;
+      if (column.format === 'money') {
+        sheetColumn.numFmt = '#,##0.00';
+        sheetColumn.alignment = { horizontal: 'right' };
+      } else if (column.format === 'date') {
+        sheetColumn.numFmt = 'yyyy-mm-dd';
+      }
+    });
+
+    section.rows.forEach(row => {
+      if (row.heading) {
+        sheet.addRow([row.heading]).font = { bold: true };
+        return;
+      }
+      const values = section.columns.map(column => {
+        const value = row[column.key];
+        if (isBlank(value)) return null;
+        if (column.format === 'money' || column.format === 'number') return Number(value);
+        if (column.format === 'date') return value instanceof Date ? value : new Date(value);
+        return String(value);
+      });
+      const sheetRow = sheet.addRow(values);
+      if (row.emphasis) {
+        sheetRow.font = { bold: true };
+      }
+    });
+
+    // Keep the column headings in view while scrolling
+    sheet.views = [{ state: 'frozen', ySplit: columnRow.number }];
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+const PDF_MARGIN = 40;
+const PDF_ROW_HEIGHT = 16;
+const PDF_FONT_SIZE = 8;
+
+const toPdf = (report) => new Promise((resolve, reject) => {
+  const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: PDF_MARGIN, bufferPages: true });
+  const chunks = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  doc.on('end', () => resolve(Buffer.concat(chunks)));
+  doc.on('error', reject);
+
+  const left = doc.page.margins.left;
+  const usableWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const bottom = () => doc.page.height - doc.page.margins.bottom - PDF_ROW_HEIGHT;
+
+  const { companyName, contact, title, subtitle } = reportHeader(report);
+  doc.font('Helvetica-Bold').fontSize(16).text(companyName);
+  if (contact) {
+    doc.font('Helvetica').fontSize(9).text(contact);
+  }
+  doc.moveDown(0.5);
+  doc.font('Helvetica-Bold').fontSize(13).text(title);
+  if (subtitle) {
+    doc.font('Helvetica').fontSize(9).text(subtitle);
+  }
+
+  report.sections.forEach(section => {
+    const totalWidth = section.columns.reduce((sum, column) => sum + (column.width || 14), 0);
+    const widths = section.columns.map(column => ((column.width || 14) / totalWidth) * usableWidth);
+
+    const drawCells = (cells, font) => {
+      const y = doc.y;
+      let x = left;
+      doc.font(font).fontSize(PDF_FONT_SIZE);
+      cells.forEach((text, index) => {
+        const column = section.columns[index];
+        const align = column.format === 'money' || column.format === 'number' ? 'right' : 'left';
+        doc.text(text, x + 2, y + 4, { width: widths[index] - 4, align, lineBreak: false, ellipsis: true });
+        x += widths[index];
+      });
+      doc.x = left;
+      doc.y = y + PDF_ROW_HEIGHT;
+    };
+
+    const drawColumnHeadings = () => {
+      doc.rect(left, doc.y, usableWidth, PDF_ROW_HEIGHT).fill('#e8eaf6');
+      doc.fillColor('black');
+      drawCells(section.columns.map(column => column.header), 'Helvetica-Bold');
+    };
+
+    // Start each section on a fresh page when its heading and first rows would not fit
+    doc.moveDown(1);
+    if (doc.y > bottom() - PDF_ROW_HEIGHT * 3) {
+      doc.addPage();
+    }
+    doc.x = left;
+    doc.font('Helvetica-Bold').fontSize(11).text(section.name);
+    doc.moveDown(0.3);
+    drawColumnHeadings();
+
+    section.rows.forEach(row => {
+      if (doc.y > bottom()) {
+        doc.addPage();
+        drawColumnHeadings();
+      }
+      if (row.heading) {
+        doc.font('Helvetica-Bold').fontSize(9)
+          .text(row.heading, left + 2, doc.y + 4, { width: usableWidth - 4, lineBreak: false, ellipsis: true });
+        doc.x = left;
+        doc.y += PDF_ROW_HEIGHT - 4;
+        return;
+      }
+      drawCells(
+        section.columns.map(column => formatValue(row[column.key], column.format)),
+        row.emphasis ? 'Helvetica-Bold' : 'Helvetica'
+      );
+    });
+  });
+
+  // Number the pages once the total is known; the footer sits inside the bottom margin
+  const generated = `Generated ${new Date().toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  const range = doc.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index += 1) {
+    doc.switchToPage(index);
+    const footerY = doc.page.height - doc.page.margins.bottom + 12;
+    const marginBottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font('Helvetica').fontSize(7).fillColor('gray');
+    doc.text(`${report.title} – ${generated}`, left, footerY, { width: usableWidth, align: 'left', lineBreak: false });
+    doc.text(`Page ${index + 1} of ${range.count}`, left, footerY, { width: usableWidth, align: 'right', lineBreak: false });
+    doc.page.margins.bottom = marginBottom;
+  }
+
+  doc.end();
+});
+
+// Render a report in the requested format and send it as a download
+const sendExport = async (res, report, format, filename) => {
+  const { extension, contentType } = EXPORT_FORMATS[format];
+  let body;
+  if (format === 'csv') body = toCsv(report);
+  else if (format === 'xlsx') body = await toXlsx(report);
+  else body = await toPdf(report);
+
+  res.set({
+    'Content-Type': contentType,
+    'Content-Disposition': `attachment; filename="${filename}.${extension}"`
+  });
+  res.send(body);
+};
+
+module.exports = {
+  EXPORT_FORMATS,
+  formatValue,
+  toCsv,
+  toXlsx,
+  toPdf,
+  sendExport
+};
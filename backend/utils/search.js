@@ -0,0 +1,35 @@
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Amount typed into the search box, e.g. "1,250.50" or "$80"; null when it is not one
+const parseAmount = (query) => {
+  const cleaned = query.replace(/^\$/, '').replace(/,/g, '');
+  if (!/^\d+(\.\d{1,2})?$/.test(cleaned)) return null;
+  return Number(cleaned);
+};
+
+// How well a field matches: exact beats prefix, prefix beats the start of a later
+// word, which beats a match inside a word. 0 means no match.
+const matchScore = (value, query) => {
+  if (value === undefined || value === null) return 0;
+  const text = String(value).toLowerCase();
+  const term = query.toLowerCase();
+
+  if (text === term) return 100;
+  if (text.startsWith(term)) return 75;
+  if (new RegExp(`\\b${escapeRegex(term)}`).test(text)) return 50;
+  if (text.includes(term)) return 25;
+  return 0;
+};
+
+// Highest-scoring hits first, ties broken by the given comparison; drops non-matches
+const rankHits = (hits, limit, tieBreak = () => 0) => hits
+  .filter(hit => hit.score > 0)
+  .sort((a, b) => b.score - a.score || tieBreak(a, b))
+  .slice(0, limit);
+
+module.exports = {
+  escapeRegex,
+  parseAmount,
+  matchScore,
+  rankHits
+};
@@ -0,0 +1,36 @@
+// Build a YYYY-MM-DD string, or null when the parts are not a real calendar date
+const makeDate = (year, month, day) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+// Two-digit years below 70 are taken as 20xx
+const expandYear = (year) => (year < 100 ? (year < 70 ? 2000 + year : 1900 + year) : year);
+
+// Parse "1,234.56", "-12.5" or, with decimalComma, "1234,56"; null when not a number
+const parseDecimal = (value, { decimalComma = false } = {}) => {
+  let text = String(value || '').trim().replace(/\s/g, '');
+  if (decimalComma) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+  return Math.round(parseFloat(text) * 100) / 100;
+};
+
+// Join the non-empty parts of a description with " - "
+const joinText = (...parts) => parts
+  .map(part => (part || '').replace(/\s+/g, ' ').trim())
+  .filter((part, index, all) => part && all.indexOf(part) === index)
+  .join(' - ');
+
+module.exports = {
+  makeDate,
+  expandYear,
+  parseDecimal,
+  joinText
+};
@@ -0,0 +1,33 @@
+const { parseOfx } = require('./ofx');
+const { parseQif } = require('./qif');
+const { parseMt940 } = require('./mt940');
+
+const PARSERS = {
+  ofx: parseOfx,
+  qif: parseQif,
+  mt940: parseMt940
+};
+
+// Guess the format from the file contents
+const detectFormat = (content) => {
+  if (/OFXHEADER|<OFX>/i.test(content)) return 'ofx';
+  if (/^\s*!(Type|Account|Option)/im.test(content)) return 'qif';
+  if (/^:20:/m.test(content) && /^:61:/m.test(content)) return 'mt940';
+  return null;
+};
+
+// Parse a statement file into normalised lines ({ line, date, amount, payee, description,
+// reference, bankTransactionId }) and per-line errors ({ line, message })
+const parseStatement = (content, format = detectFormat(content), options = {}) => {
+  const parser = PARSERS[format];
+  if (!parser) {
+    throw new Error('Unrecognised statement format; expected OFX, QIF or MT940');
+  }
+  return { format, ...parser(String(content).replace(/^\uFEFF/, ''), options) };
+};
+
+module.exports = {
+  FORMATS: Object.keys(PARSERS),
+  detectFormat,
+  parseStatement
+};
@@ -0,0 +1,90 @@
+const { makeDate, expandYear, parseDecimal, joinText } = require('./common');
+
+// :61: value date YYMMDD, optional entry date MMDD, mark (C, D, RC, RD), optional funds
+// code, amount with decimal comma, transaction type (e.g. NTRF), customer reference and
+// an optional //bank reference
+const LINE_PATTERN = /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^/]*?)(?:\/\/(.*))?$/;
+
+// Split the text into { tag, value, line } fields; untagged lines continue the previous field
+const readFields = (content) => {
+  const fields = [];
+  content.split(/\r?\n/).forEach((text, index) => {
+    const tagMatch = /^:(\d{2}[A-Z]?):(.*)$/.exec(text);
+    if (tagMatch) {
+      fields.push({ tag: tagMatch[1], value: tagMatch[2], lines: [], line: index + 1 });
+    } else if (fields.length && text.trim() && !/^-}?$/.test(text.trim()) && !text.startsWith('{')) {
+      fields[fields.length - 1].lines.push(text.trim());
+    }
+  });
+  return fields;
+};
+
+// Parse a SWIFT MT940 statement into { rows, errors, accountNumber }
+const parseMt940 = (content) => {
+  const rows = [];
+  const errors = [];
+  let accountNumber;
+  let current = null;
+
+  readFields(content).forEach(field => {
+    if (field.tag === '25') {
+      accountNumber = accountNumber || field.value.trim();
+      return;
+    }
+
+    if (field.tag === '86' && current) {
+      // Structured :86: text (e.g. ?20 / ?32 subfields) is flattened to plain words
+      current.info = [field.value, ...field.lines].join(' ').replace(/\?\d{2}/g, ' ');
+      return;
+    }
+
+    if (field.tag !== '61') {
+      current = null;
+      return;
+    }
+
+    const match = LINE_PATTERN.exec(field.value.trim());
+    if (!match) {
+      errors.push({ line: field.line, message: `Unrecognised :61: statement line "${field.value.trim()}"` });
+      current = null;
+      return;
+    }
+
+    const [, yy, mm, dd, , mark, , amountText, , customerRef, bankRef] = match;
+    const date = makeDate(expandYear(Number(yy)), Number(mm), Number(dd));
+    if (!date) {
+      errors.push({ line: field.line, message: `Invalid value date "${yy}${mm}${dd}"` });
+      current = null;
+      return;
+    }
+
+    // Credits are money in; a reversal flips the sign of the original entry
+    const magnitude = parseDecimal(amountText, { decimalComma: true });
+    const amount = mark === 'C' || mark === 'RD' ? magnitude : -magnitude;
+    const reference = customerRef && customerRef.trim() !== 'NONREF' ? customerRef.trim() : undefined;
+
+    current = {
+      line: field.line,
+      date,
+      amount,
+      reference,
+      bankTransactionId: bankRef ? bankRef.trim() : undefined,
+      supplementary: field.lines.join(' ')
+    };
+    rows.push(current);
+  });
+
+  return {
+    rows: rows.map(({ info, supplementary, ...row }) => ({
+      ...row,
+      payee: undefined,
+      description: joinText(info, supplementary) || row.reference || 'MT940 transaction'
+    })),
+    errors: rows.length === 0 && errors.length === 0
+      ? [{ line: 1, message: 'No :61: statement lines found' }]
+      : errors,
+    accountNumber
+  };
+};
+
+module.exports = { parseMt940 };
@@ -0,0 +1,67 @@
+const { makeDate, parseDecimal, joinText } = require('./common');
+
+const decodeEntities = (value) => value
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+// Value of a simple element; works for SGML (OFX 1.x, no closing tags) and XML (OFX 2.x)
+const readTag = (block, tag) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : undefined;
+};
+
+// OFX dates are YYYYMMDD optionally followed by a time and timezone, which are ignored
+const parseOfxDate = (value) => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value || '');
+  return match ? makeDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+};
+
+const lineAt = (content, index) => content.slice(0, index).split('\n').length;
+
+// Parse an OFX/QFX statement into { rows, errors, accountNumber }
+const parseOfx = (content) => {
+  const rows = [];
+  const errors = [];
+  const blockPattern = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi;
+  let match;
+
+  while ((match = blockPattern.exec(content))) {
+    const block = match[1];
+    const line = lineAt(content, match.index);
+    const date = parseOfxDate(readTag(block, 'DTPOSTED'));
+    // Some banks write TRNAMT with a decimal comma
+    const amountText = readTag(block, 'TRNAMT') || '';
+    const amount = parseDecimal(amountText, { decimalComma: amountText.includes(',') && !amountText.includes('.') });
+
+    if (!date) {
+      errors.push({ line, message: `Invalid or missing DTPOSTED "${readTag(block, 'DTPOSTED') || ''}"` });
+      continue;
+    }
+    if (amount === null) {
+      errors.push({ line, message: `Invalid or missing TRNAMT "${amountText}"` });
+      continue;
+    }
+
+    const payee = readTag(block, 'NAME') || readTag(block, 'PAYEE');
+    rows.push({
+      line,
+      date,
+      amount,
+      payee,
+      description: joinText(payee, readTag(block, 'MEMO')) || readTag(block, 'TRNTYPE'),
+      reference: readTag(block, 'CHECKNUM') || readTag(block, 'REFNUM'),
+      bankTransactionId: readTag(block, 'FITID')
+    });
+  }
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: 'No <STMTTRN> transactions found' });
+  }
+
+  return { rows, errors, accountNumber: readTag(content, 'ACCTID') };
+};
+
+module.exports = { parseOfx };
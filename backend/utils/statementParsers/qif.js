@@ -0,0 +1,101 @@
+const { makeDate, expandYear, parseDecimal, joinText } = require('./common');
+
+// QIF dates look like 12/31/2025, 12/31'25, 12-31-25 or 2025-12-31. Quicken writes
+// month first; pass dateOrder 'DMY' for banks that write the day first.
+const parseQifDate = (value, dateOrder) => {
+  const text = (value || '').trim().replace(/\s/g, '');
+  let match = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(text);
+  if (match) {
+    return makeDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  match = /^(\d{1,2})[-/.](\d{1,2})(?:[-/.]|')(\d{2}|\d{4})$/.exec(text);
+  if (!match) return null;
+  const [first, second] = [Number(match[1]), Number(match[2])];
+  const year = match[3].length === 4 ? Number(match[3]) : expandYear(Number(match[3]));
+  return dateOrder === 'DMY' ? makeDate(year, second, first) : makeDate(year, first, second);
+};
+
+// Parse a QIF bank/cash export into { rows, errors }
+const parseQif = (content, { dateOrder = 'MDY' } = {}) => {
+  const rows = [];
+  const errors = [];
+  const lines = content.split(/\r?\n/);
+  let record = {};
+  let recordLine = null;
+
+  const finishRecord = () => {
+    if (recordLine === null) return;
+    if (!record.D) {
+      errors.push({ line: recordLine, message: 'Missing date (D) line' });
+    } else if (!record.date) {
+      errors.push({ line: record.dateLine, message: `Invalid date "${record.D}"` });
+    } else if (record.T === undefined) {
+      errors.push({ line: recordLine, message: 'Missing amount (T) line' });
+    } else if (record.amount === null) {
+      errors.push({ line: record.amountLine, message: `Invalid amount "${record.T}"` });
+    } else {
+      rows.push({
+        line: recordLine,
+        date: record.date,
+        amount: record.amount,
+        payee: record.P,
+        description: joinText(record.P, record.M) || record.L || 'QIF transaction',
+        reference: record.N,
+        bankTransactionId: undefined
+      });
+    }
+    record = {};
+    recordLine = null;
+  };
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    const code = text.charAt(0);
+    const value = text.slice(1).trim();
+
+    if (!text.trim() || code === '!') return;
+    if (code === '^') {
+      finishRecord();
+      return;
+    }
+
+    if (recordLine === null) recordLine = line;
+    switch (code) {
+      case 'D':
+        record.D = value;
+        record.dateLine = line;
+        record.date = parseQifDate(value, dateOrder);
+        break;
+      case 'T':
+      case 'U':
+        // U repeats T with more precision in newer exports; keep the first seen
+        if (record.T === undefined) {
+          record.T = value;
+          record.amountLine = line;
+          record.amount = parseDecimal(value);
+        }
+        break;
+      case 'P':
+      case 'M':
+      case 'N':
+      case 'L':
+        record[code] = value;
+        break;
+      default:
+        // Splits (S, E, $), addresses (A) and cleared flags (C) are not needed for import
+        break;
+    }
+  });
+
+  // Tolerate a final record without its closing ^
+  finishRecord();
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: 'No transactions found' });
+  }
+
+  return { rows, errors };
+};
+
+module.exports = { parseQif, parseQifDate };
@@ -0,0 +1,67 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+// File storage behind a small interface so uploads can later move off the local disk.
+// A driver stores buffers under string keys: save(key, buffer), read(key) and remove(key).
+
+// Keep files in a directory on this server; keys are paths relative to it
+const createLocalStorage = (root) => {
+  const base = path.resolve(root);
+
+  // Refuse keys that would escape the storage directory
+  const resolveKey = (key) => {
+    const fullPath = path.resolve(base, key);
+    if (!fullPath.startsWith(base + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return fullPath;
+  };
+
+  return {
+    save: async (key, buffer) => {
+      const fullPath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.promises.writeFile(fullPath, buffer);
+    },
+    // Resolves to null when the file is missing
+    read: async (key) => {
+      try {
+        return await fs.promises.readFile(resolveKey(key));
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    remove: async (key) => {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    }
+  };
+};
+
+const DRIVERS = {
+  local: () => createLocalStorage(process.env.ATTACHMENT_DIR || path.join(__dirname, '..', 'uploads'))
+};
+
+let storage;
+
+// Storage chosen by ATTACHMENT_STORAGE (default: local), created on first use
+const getStorage = () => {
+  if (!storage) {
+    const driver = process.env.ATTACHMENT_STORAGE || 'local';
+    if (!DRIVERS[driver]) {
+      throw new Error(`Unknown attachment storage "${driver}"`);
+    }
+    storage = DRIVERS[driver]();
+  }
+  return storage;
+};
+
+// Fresh key for a file, grouped under a folder such as the transaction id
+const newStorageKey = (folder, extension) => `${folder}/${crypto.randomUUID()}.${extension}`;
+
+module.exports = {
+  createLocalStorage,
+  getStorage,
+  newStorageKey
+};
@@ -0,0 +1,34 @@
+const Account = require('../models/Account');
+const AccountType = require('../models/AccountType');
+
+const EQUITY_TYPE = 'Equity';
+
+// Find or create an equity account the server posts to itself, such as
+// "Opening Balance Equity" or "Retained Earnings"
+const getEquityAccount = async (name) => {
+  const existing = await Account.findOne({ name });
+  if (existing) {
+    return existing;
+  }
+
+  const accountType = await AccountType.findOneAndUpdate(
+    { name: EQUITY_TYPE },
+    {
+      $setOnInsert: {
+        name: EQUITY_TYPE,
+        description: 'Owner equity and opening balances',
+        element: 'equity',
+        normalBalance: 'credit'
+      }
+    },
+    { new: true, upsert: true }
+  );
+
+  const account = new Account({ name, type: accountType._id });
+  await account.save();
+  return account;
+};
+
+module.exports = {
+  getEquityAccount
+};
@@ -0,0 +1,64 @@
+const Account = require('../models/Account');
+
+// Check that debits equal credits, returning an error payload if they don't
+const checkBalance = (details) => {
+  const totalDebits = details
+    .filter(d => d.type === 'debit')
+    .reduce((sum, d) => sum + d.amount, 0);
+  
+  const totalCredits = details
+    .filter(d => d.type === 'credit')
+    .reduce((sum, d) => sum + d.amount, 0);
+  
+  if (Math.abs(totalDebits - totalCredits) > 0.01) {
+    return { 
+      message: 'Total debits must equal total credits',
+      totalDebits,
+      totalCredits 
+    };
+  }
+  return null;
+};
+
+// Convert account names to IDs if provided as names
+const resolveAccounts = async (details) => {
+  for (let detail of details) {
+    if (typeof detail.account === 'string' && !detail.account.match(/^[0-9a-fA-F]{24}$/)) {
+      const account = await Account.findOne({ name: detail.account });
+      if (!account) {
+        return { message: `Account "${detail.account}" not found` };
+      }
+      detail.account = account._id;
+    }
+  }
+  return null;
+};
+
+// Line fields a client may set; reconciliation and anything else on a line belongs to the server
+const EDITABLE_LINE_FIELDS = ['account', 'party', 'description', 'amount', 'type'];
+
+// Keep only the editable fields of client-sent lines. A line whose _id matches one of the
+// stored lines keeps that _id, so draft reconciliations that ticked it still find it.
+const editableLines = (details, storedLines = []) => details.map(detail => {
+  const line = {};
+  EDITABLE_LINE_FIELDS.forEach(field => {
+    if (detail[field] !== undefined) line[field] = detail[field];
+  });
+  const stored = detail._id && storedLines.find(storedLine => String(storedLine._id) === String(detail._id));
+  if (stored) line._id = stored._id;
+  return line;
+});
+
+// Add serial numbers to details; an empty party means the line has none
+const withSerialNumbers = (details) => details.map((detail, index) => ({
+  ...detail,
+  party: detail.party || undefined,
+  serialNo: index + 1
+}));
+
+module.exports = {
+  checkBalance,
+  resolveAccounts,
+  editableLines,
+  withSerialNumbers
+};
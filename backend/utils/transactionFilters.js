@@ -0,0 +1,145 @@
+const mongoose = require('mongoose');
+const Account = require('../models/Account');
+const { VOUCHER_TYPES } = require('./voucherNumbers');
+const { escapeRegex } = require('./search');
+
+// ?sortBy= values and the fields they sort on
+const SORT_FIELDS = {
+  transactionId: 'transactionId',
+  date: 'date',
+  amount: 'totalAmount',
+  voucherNo: 'voucherNo',
+  createdAt: 'createdAt'
+};
+const STATUSES = ['pending', 'completed', 'cancelled'];
+const SIDES = ['debit', 'credit'];
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 100;
+
+const isId = (value) => mongoose.Types.ObjectId.isValid(value);
+
+// Start of the day after the given date, so the end date itself is included
+const dayAfter = (date) => {
+  const next = new Date(date);
+  next.setUTCHours(0, 0, 0, 0);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next;
+};
+
+// Read the transaction list's query string into { page, limit, sort, criteria },
+// or { error } with a message for the first bad parameter
+const parseListQuery = (query) => {
+  const criteria = {};
+
+  for (const name of ['accountId', 'accountType', 'createdBy']) {
+    if (query[name]) {
+      if (!isId(query[name])) return { error: `Invalid ${name}` };
+      criteria[name] = query[name];
+    }
+  }
+
+  for (const name of ['minAmount', 'maxAmount']) {
+    if (query[name] !== undefined && query[name] !== '') {
+      const amount = Number(query[name]);
+      if (!Number.isFinite(amount) || amount < 0) return { error: `${name} must be a positive number` };
+      criteria[name] = amount;
+    }
+  }
+  if (criteria.minAmount !== undefined && criteria.maxAmount !== undefined && criteria.minAmount > criteria.maxAmount) {
+    return { error: 'minAmount cannot be more than maxAmount' };
+  }
+
+  for (const name of ['startDate', 'endDate']) {
+    if (query[name]) {
+      const date = new Date(query[name]);
+      if (Number.isNaN(date.getTime())) return { error: `Invalid ${name}` };
+      criteria[name] = date;
+    }
+  }
+
+  if (query.side) {
+    if (!SIDES.includes(query.side)) return { error: 'side must be debit or credit' };
+    criteria.side = query.side;
+  }
+  if (query.status) {
+    if (!STATUSES.includes(query.status)) return { error: 'Invalid status' };
+    criteria.status = query.status;
+  }
+  if (query.voucherType) {
+    if (!VOUCHER_TYPES[query.voucherType]) return { error: 'Invalid voucher type' };
+    criteria.voucherType = query.voucherType;
+  }
+  if (query.ownerOnly === 'true') {
+    criteria.ownerOnly = true;
+  }
+  if (query.description && String(query.description).trim()) {
+    criteria.description = String(query.description).trim();
+  }
+
+  const sortBy = query.sortBy || 'transactionId';
+  if (!SORT_FIELDS[sortBy]) return { error: 'Invalid sortBy' };
+  if (query.sortOrder && !['asc', 'desc'].includes(query.sortOrder)) return { error: 'sortOrder must be asc or desc' };
+  const direction = query.sortOrder === 'asc' ? 1 : -1;
+  // Transaction numbers break ties so pages never overlap
+  const sort = { [SORT_FIELDS[sortBy]]: direction, transactionId: direction };
+
+  const page = Math.max(parseInt(query.page, 10) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(query.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  return { page, limit, sort, criteria };
+};
+
+// MongoDB filter for parsed criteria. Account, side and amount filters must all hold
+// on the same line, so "debits to Rent over 500" finds that line, not any three lines.
+const buildTransactionFilter = async (criteria) => {
+  const filter = {};
+  const line = {};
+
+  if (criteria.accountType || criteria.ownerOnly) {
+    const accountQuery = {};
+    if (criteria.accountId) accountQuery._id = criteria.accountId;
+    if (criteria.accountType) accountQuery.type = criteria.accountType;
+    if (criteria.ownerOnly) accountQuery.isOwnerAccount = true;
+    line.account = { $in: await Account.find(accountQuery).distinct('_id') };
+  } else if (criteria.accountId) {
+    line.account = criteria.accountId;
+  }
+  if (criteria.side) {
+    line.type = criteria.side;
+  }
+  if (criteria.minAmount !== undefined || criteria.maxAmount !== undefined) {
+    line.amount = {};
+    if (criteria.minAmount !== undefined) line.amount.$gte = criteria.minAmount;
+    if (criteria.maxAmount !== undefined) line.amount.$lte = criteria.maxAmount;
+  }
+  if (Object.keys(line).length > 0) {
+    filter.details = { $elemMatch: line };
+  }
+
+  if (criteria.description) {
+    filter['details.description'] = new RegExp(escapeRegex(criteria.description), 'i');
+  }
+  if (criteria.status) {
+    filter.status = criteria.status;
+  }
+  if (criteria.createdBy) {
+    filter.createdBy = criteria.createdBy;
+  }
+  // Entries from before voucher types count as journals
+  if (criteria.voucherType) {
+    filter.voucherType = criteria.voucherType === 'journal' ? { $in: ['journal', null] } : criteria.voucherType;
+  }
+  if (criteria.startDate || criteria.endDate) {
+    filter.date = {};
+    if (criteria.startDate) filter.date.$gte = criteria.startDate;
+    if (criteria.endDate) filter.date.$lt = dayAfter(criteria.endDate);
+  }
+
+  return filter;
+};
+
+module.exports = {
+  SORT_FIELDS,
+  parseListQuery,
+  buildTransactionFilter
+};
@@ -0,0 +1,224 @@
+const PDFDocument = require('pdfkit');
+const { getCompany, getCurrency } = require('../config/company');
+const { VOUCHER_TYPES } = require('./voucherNumbers');
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+const SCALES = ['', 'Thousand', 'Million', 'Billion', 'Trillion'];
+
+// Words for 1-999
+const hundredsInWords = (number) => {
+  const words = [];
+  if (number >= 100) {
+    words.push(ONES[Math.floor(number / 100)], 'Hundred');
+    number %= 100;
+  }
+  if (number >= 20) {
+    words.push(number % 10 ? `${TENS[Math.floor(number / 10)]}-${ONES[number % 10]}` : TENS[Math.floor(number / 10)]);
+  } else if (number > 0) {
+    words.push(ONES[number]);
+  }
+  return words.join(' ');
+};
+
+const wholeInWords = (number) => {
+  if (number === 0) {
+    return 'Zero';
+  }
+  const groups = [];
+  for (let scale = 0; number > 0; scale += 1) {
+    const group = number % 1000;
+    if (group) {
+      groups.unshift(SCALES[scale] ? `${hundredsInWords(group)} ${SCALES[scale]}` : hundredsInWords(group));
+    }
+    number = Math.floor(number / 1000);
+  }
+  return groups.join(' ');
+};
+
+// Spell out an amount for the voucher in the configured currency,
+// e.g. 1250.5 -> "One Thousand Two Hundred Fifty Dollars and Fifty Cents Only"
+const amountInWords = (amount, currency = getCurrency()) => {
+  const minor = Math.round(Math.abs(amount) * 100);
+  const major = Math.floor(minor / 100);
+  const remainder = minor % 100;
+
+  let words = `${wholeInWords(major)} ${major === 1 ? currency.unit : currency.units}`;
+  if (remainder) {
+    words += ` and ${wholeInWords(remainder)} ${remainder === 1 ? currency.subunit : currency.subunits}`;
+  }
+  return `${words} Only`;
+};
+
+const VOUCHER_TITLES = {
+  payment: 'Payment Voucher',
+  receipt: 'Receipt Voucher',
+  journal: 'Journal Voucher'
+};
+
+// Lay out a populated transaction as a voucher, titled by its voucher type
+// Entries numbered before voucher types existed are titled from their lines instead:
+// money leaving the company's own cash and bank accounts makes a payment, money coming in a receipt;
+// entries that do not move cash (or only move it between own accounts) print as journal vouchers
+const buildVoucher = (transaction) => {
+  let totalDebit = 0;
+  let totalCredit = 0;
+  let cashMovement = 0;
+
+  const lines = transaction.details.map(detail => {
+    const account = detail.account && typeof detail.account === 'object' ? detail.account : null;
+    const party = detail.party && typeof detail.party === 'object' ? detail.party : null;
+    const debit = detail.type === 'debit' ? detail.amount : 0;
+    const credit = detail.type === 'credit' ? detail.amount : 0;
+
+    totalDebit += debit;
+    totalCredit += credit;
+    if (account && account.isOwnerAccount) {
+      cashMovement += debit - credit;
+    }
+
+    return {
+      serialNo: detail.serialNo,
+      accountName: account ? account.name : 'Deleted account',
+      accountNo: account ? account.accountNo || '' : '',
+      ownerAccount: Boolean(account && account.isOwnerAccount),
+      partyName: party ? party.name : '',
+      description: detail.description,
+      debit,
+      credit
+    };
+  });
+
+  const cashRounded = Math.round(cashMovement * 100) / 100;
+  const kind = cashRounded < 0 ? 'payment' : cashRounded > 0 ? 'receipt' : 'journal';
+  const amount = kind === 'journal' ? totalDebit : Math.abs(cashRounded);
+
+  // The counterparty is the first party named on a line that is not a cash or bank line
+  const counterpartyLine = lines.find(line => line.partyName && !line.ownerAccount);
+  const company = getCompany();
+
+  return {
+    kind,
+    title: transaction.voucherNo ? `${VOUCHER_TYPES[transaction.voucherType].label} Voucher` : VOUCHER_TITLES[kind],
+    transaction: transaction._id,
+    transactionId: transaction.transactionId,
+    voucherNo: transaction.voucherNo || String(transaction.transactionId),
+    date: transaction.date,
+    status: transaction.status,
+    partyName: counterpartyLine ? counterpartyLine.partyName : '',
+    lines,
+    totalDebit,
+    totalCredit,
+    amount,
+    amountInWords: amountInWords(amount, company.currency),
+    company
+  };
+};
+
+const formatMoney = (amount) => (amount
+  ? amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  : '');
+
+// Render a voucher as a one-page A4 PDF; long entries run onto further pages
+const voucherPdf = (voucher) => new Promise((resolve, reject) => {
+  const doc = new PDFDocument({ size: 'A4', margin: 50 });
+  const chunks = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  doc.on('end', () => resolve(Buffer.concat(chunks)));
+  doc.on('error', reject);
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const { company } = voucher;
+
+  doc.font('Helvetica-Bold').fontSize(16).text(company.name, { align: 'center' });
+  const contact = [company.address, company.phone, company.email].filter(Boolean).join(' | ');
+  if (contact) {
+    doc.font('Helvetica').fontSize(9).text(contact, { align: 'center' });
+  }
+  doc.moveDown(0.8);
+  doc.font('Helvetica-Bold').fontSize(14).text(voucher.title.toUpperCase(), { align: 'center', characterSpacing: 1 });
+  if (voucher.status === 'cancelled') {
+    doc.font('Helvetica-Bold').fontSize(10).fillColor('red').text('VOIDED', { align: 'center' }).fillColor('black');
+  }
+  doc.moveDown(0.8);
+
+  const infoY = doc.y;
+  doc.font('Helvetica').fontSize(10);
+  doc.text(`Voucher No: ${voucher.voucherNo}`, left, infoY);
+  doc.text(`Date: ${new Date(voucher.date).toISOString().slice(0, 10)}`, left, infoY, { width, align: 'right' });
+  if (voucher.partyName) {
+    const label = voucher.kind === 'payment' ? 'Paid to' : voucher.kind === 'receipt' ? 'Received from' : 'Party';
+    doc.text(`${label}: ${voucher.partyName}`, left);
+  }
+  doc.moveDown(0.8);
+
+  // Lines table: #, account, description, debit, credit
+  const columns = [
+    { header: '#', width: 0.06, align: 'left' },
+    { header: 'Account', width: 0.28, align: 'left' },
+    { header: 'Description', width: 0.36, align: 'left' },
+    { header: 'Debit', width: 0.15, align: 'right' },
+    { header: 'Credit', width: 0.15, align: 'right' }
+  ];
+  const drawRow = (cells, font, shade) => {
+    const texts = cells.map(String);
+    doc.font(font).fontSize(9);
+    const heights = texts.map((text, index) => doc.heightOfString(text, { width: columns[index].width * width - 8 }));
+    const height = Math.max(...heights) + 8;
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+    const y = doc.y;
+    if (shade) {
+      doc.rect(left, y, width, height).fill('#eeeeee').fillColor('black');
+    }
+    let x = left;
+    texts.forEach((text, index) => {
+      const cellWidth = columns[index].width * width;
+      doc.text(text, x + 4, y + 4, { width: cellWidth - 8, align: columns[index].align });
+      x += cellWidth;
+    });
+    doc.moveTo(left, y + height).lineTo(left + width, y + height).lineWidth(0.5).stroke();
+    doc.x = left;
+    doc.y = y + height;
+  };
+
+  drawRow(columns.map(column => column.header), 'Helvetica-Bold', true);
+  voucher.lines.forEach(line => {
+    const account = line.accountNo ? `${line.accountName} (${line.accountNo})` : line.accountName;
+    const description = line.partyName ? `${line.description} – ${line.partyName}` : line.description;
+    drawRow([line.serialNo, account, description, formatMoney(line.debit), formatMoney(line.credit)], 'Helvetica');
+  });
+  const total = (amount) => `${company.currency.symbol} ${formatMoney(amount)}`;
+  drawRow(['', '', 'Total', total(voucher.totalDebit), total(voucher.totalCredit)], 'Helvetica-Bold', true);
+
+  doc.moveDown(1);
+  doc.font('Helvetica-Bold').fontSize(10).text('Amount in words: ', left, doc.y, { continued: true })
+    .font('Helvetica').text(voucher.amountInWords);
+
+  // Signature blocks along the bottom of the last page
+  const signatures = ['Prepared by', 'Approved by', 'Received by'];
+  const blockWidth = width / signatures.length;
+  let signatureY = Math.max(doc.y + 60, doc.page.height - doc.page.margins.bottom - 60);
+  if (signatureY + 30 > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+    signatureY = doc.page.margins.top + 60;
+  }
+  signatures.forEach((label, index) => {
+    const x = left + index * blockWidth;
+    doc.moveTo(x + 10, signatureY).lineTo(x + blockWidth - 10, signatureY).lineWidth(0.5).stroke();
+    doc.font('Helvetica').fontSize(9).text(label, x, signatureY + 6, { width: blockWidth, align: 'center' });
+  });
+
+  doc.end();
+});
+
+module.exports = {
+  amountInWords,
+  buildVoucher,
+  voucherPdf
+};
@@ -0,0 +1,92 @@
+const Counter = require('../models/Counter');
+const VoucherSeries = require('../models/VoucherSeries');
+const { periodOf } = require('./periods');
+
+// Voucher types with their labels and out-of-the-box number formats
+const VOUCHER_TYPES = {
+  cash_payment: { label: 'Cash Payment', format: 'CPV-{YYYY}-{####}' },
+  cash_receipt: { label: 'Cash Receipt', format: 'CRV-{YYYY}-{####}' },
+  bank_payment: { label: 'Bank Payment', format: 'BPV-{YYYY}-{####}' },
+  bank_receipt: { label: 'Bank Receipt', format: 'BRV-{YYYY}-{####}' },
+  journal: { label: 'Journal', format: 'JV-{YYYY}-{####}' },
+  contra: { label: 'Contra', format: 'CV-{YYYY}-{####}' }
+};
+
+const SEQUENCE_TOKEN = /\{(#+)\}/g;
+const YEAR_TOKEN = /\{(YYYY|YY)\}/;
+
+// Return an error body if a number format cannot produce unique yearly numbers, otherwise null
+// Formats take {YYYY} or {YY} for the year and {###…} for the sequence, padded to the number of #
+const validateFormat = (format) => {
+  if (typeof format !== 'string' || !format.trim()) {
+    return { message: 'Number format is required' };
+  }
+  if (format.length > 40) {
+    return { message: 'Number format must be 40 characters or fewer' };
+  }
+  const sequenceTokens = format.match(SEQUENCE_TOKEN) || [];
+  if (sequenceTokens.length !== 1) {
+    return { message: 'Number format must contain exactly one sequence token such as {####}' };
+  }
+  // Numbering restarts every year, so the year keeps numbers from different years apart
+  if (!YEAR_TOKEN.test(format)) {
+    return { message: 'Number format must contain the year as {YYYY} or {YY}' };
+  }
+  return null;
+};
+
+// Fill a number format for a year and sequence, e.g. ('CPV-{YYYY}-{####}', 2026, 7) -> 'CPV-2026-0007'
+const formatVoucherNo = (format, year, sequence) => format
+  .replace(/\{YYYY\}/g, String(year))
+  .replace(/\{YY\}/g, String(year).slice(-2))
+  .replace(SEQUENCE_TOKEN, (_, hashes) => String(sequence).padStart(hashes.length, '0'));
+
+// Everything a format renders before the sequence for a year, e.g. 'CPV-{YYYY}-{####}' -> 'CPV-2026-'
+const renderedPrefix = (format, year) => formatVoucherNo(format.split(SEQUENCE_TOKEN)[0], year, 0);
+
+// Return an error body if a format starts its numbers the same way as another type's series,
+// otherwise null. `formats` maps every voucher type to the format it currently uses.
+const findPrefixClash = (voucherType, format, formats, year) => {
+  const prefix = renderedPrefix(format, year);
+  const clash = Object.keys(formats).find(other =>
+    other !== voucherType && renderedPrefix(formats[other], year) === prefix
+  );
+  if (!clash) return null;
+  return { message: `Number format starts the same way as the ${VOUCHER_TYPES[clash].label} series (${formats[clash]})` };
+};
+
+// Configured format for a voucher type, falling back to the default
+const getFormat = async (voucherType) => {
+  const series = await VoucherSeries.findOne({ voucherType });
+  return series ? series.format : VOUCHER_TYPES[voucherType].format;
+};
+
+// Counter document for one type's series in one year; a new year starts a new counter
+const counterId = (voucherType, year) => `voucher_${voucherType}_${year}`;
+
+// Draw the next number in a type's series for the year of the given date
+const nextVoucherNo = async (voucherType, date) => {
+  const { year } = periodOf(date);
+  const counter = await Counter.findByIdAndUpdate(
+    counterId(voucherType, year),
+    { $inc: { sequence_value: 1 } },
+    { new: true, upsert: true }
+  );
+  return { voucherNo: formatVoucherNo(await getFormat(voucherType), year, counter.sequence_value), voucherYear: year };
+};
+
+// Number the next voucher would get, without drawing it
+const peekVoucherNo = async (voucherType, date) => {
+  const { year } = periodOf(date);
+  const counter = await Counter.findById(counterId(voucherType, year));
+  return formatVoucherNo(await getFormat(voucherType), year, (counter ? counter.sequence_value : 0) + 1);
+};
+
+module.exports = {
+  VOUCHER_TYPES,
+  validateFormat,
+  findPrefixClash,
+  formatVoucherNo,
+  nextVoucherNo,
+  peekVoucherNo
+};
@@ -1,12 +1,27 @@
 import React from 'react';
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import { CssBaseline, Box } from '@mui/material';
 import Sidebar from './components/Sidebar';
 import Dashboard from './pages/Dashboard';
 import Accounts from './pages/Accounts';
 import Transactions from './pages/Transactions';
+import TransactionVoucher from './pages/TransactionVoucher';
+import VoucherNumbering from './pages/VoucherNumbering';
 import Reports from './pages/Reports';
+import Parties from './pages/Parties';
+import PartyStatement from './pages/PartyStatement';
+import Users from './pages/Users';
+import Login from './pages/Login';
+import AuditTrail from './pages/AuditTrail';
+import Periods from './pages/Periods';
+import RecurringSchedules from './pages/RecurringSchedules';
+import JournalTemplates from './pages/JournalTemplates';
+import BankImport from './pages/BankImport';
+import Reconciliations from './pages/Reconciliations';
+import ReconciliationDetail from './pages/ReconciliationDetail';
+import ReconciliationReport from './pages/ReconciliationReport';
+import { AuthProvider, useAuth } from './components/AuthProvider';
 
 const theme = createTheme({
   palette: {
@@ -19,23 +34,59 @@ const theme = createTheme({
   },
 });
 
+// Signed-out visitors only see the login page
+const AppRoutes: React.FC = () => {
+  const { user, loading, isAdmin, canWrite, canViewAudit } = useAuth();
+
+  if (loading) return <div>Loading...</div>;
+
+  if (!user) {
+    return (
+      <Routes>
+        <Route path="/login" element={<Login />} />
+        <Route path="*" element={<Navigate to="/login" replace />} />
+      </Routes>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex' }}>
+      <Sidebar />
+      <Box component="main" sx={{ flexGrow: 1, marginLeft: '30px', marginRight: '30px' }}>
+        <Routes>
+          <Route path="/" element={<Dashboard />} />
+          <Route path="/accounts" element={<Accounts />} />
+          <Route path="/transactions" element={<Transactions />} />
+          <Route path="/transactions/:id/voucher" element={<TransactionVoucher />} />
+          <Route path="/recurring" element={<RecurringSchedules />} />
+          <Route path="/templates" element={<JournalTemplates />} />
+          {canWrite && <Route path="/bank-import" element={<BankImport />} />}
+          <Route path="/reconciliations" element={<Reconciliations />} />
+          <Route path="/reconciliations/:id" element={<ReconciliationDetail />} />
+          <Route path="/reconciliations/:id/report" element={<ReconciliationReport />} />
+          <Route path="/reports" element={<Reports />} />
+          <Route path="/parties" element={<Parties />} />
+          <Route path="/parties/:id/statement" element={<PartyStatement />} />
+          <Route path="/periods" element={<Periods />} />
+          <Route path="/voucher-numbering" element={<VoucherNumbering />} />
+          {canViewAudit && <Route path="/audit" element={<AuditTrail />} />}
+          {isAdmin && <Route path="/users" element={<Users />} />}
+          <Route path="/login" element={<Navigate to="/" replace />} />
+        </Routes>
+      </Box>
+    </Box>
+  );
+};
+
 const App: React.FC = () => {
   return (
     <ThemeProvider theme={theme}>
       <CssBaseline />
-      <Router>
-        <Box sx={{ display: 'flex' }}>
-          <Sidebar />
-          <Box component="main" sx={{ flexGrow: 1, marginLeft: '30px', marginRight: '30px' }}>
-            <Routes>
-              <Route path="/" element={<Dashboard />} />
-              <Route path="/accounts" element={<Accounts />} />
-              <Route path="/transactions" element={<Transactions />} />
-              <Route path="/reports" element={<Reports />} />
-            </Routes>
-          </Box>
-        </Box>
-      </Router>
+      <AuthProvider>
+        <Router>
+          <AppRoutes />
+        </Router>
+      </AuthProvider>
     </ThemeProvider>
   );
 };
@@ -0,0 +1,511 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Card,
+  CardContent,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Alert,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  FormControlLabel,
+  Switch,
+  Menu,
+} from '@mui/material';
+import {
+  Search as SearchIcon,
+  ExpandMore as ExpandMoreIcon,
+  AccountBalance as AccountIcon,
+  TrendingUp as TrendingUpIcon,
+  TrendingDown as TrendingDownIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import dayjs, { Dayjs } from 'dayjs';
+import {
+  accountAPI,
+  reportAPI,
+  Account,
+  AccountLedger,
+  NormalBalance,
+  ExportFormat,
+  ELEMENT_LABELS,
+  EXPORT_FORMAT_LABELS,
+} from '../services/api';
+import { downloadBlob } from '../utils/download';
+
+// Show a balance signed against the normal side with its Dr/Cr label
+const formatBalance = (balance: number, normalBalance: NormalBalance) => {
+  const side = (balance < 0) === (normalBalance === 'debit') ? 'Cr' : 'Dr';
+  return `$${Math.abs(balance).toLocaleString()} ${side}`;
+};
+
+interface FilterState {
+  startDate: Dayjs | null;
+  endDate: Dayjs | null;
+  selectedAccount: string;
+  ownerAccountsOnly: boolean;
+  includeVoided: boolean;
+}
+
+interface AccountLedgerReportProps {
+  // Open on one account's full history instead of the last 30 days of all accounts
+  accountId?: string;
+}
+
+const AccountLedgerReport: React.FC<AccountLedgerReportProps> = ({ accountId = '' }) => {
+  const [filters, setFilters] = useState<FilterState>({
+    startDate: accountId ? null : dayjs().subtract(30, 'days'),
+    endDate: dayjs(),
+    selectedAccount: accountId,
+    ownerAccountsOnly: false,
+    includeVoided: true,
+  });
+  
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [reports, setReports] = useState<AccountLedger[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [summary, setSummary] = useState({
+    totalAccounts: 0,
+    totalCredit: 0,
+    totalDebit: 0,
+    netAmount: 0,
+  });
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  const loadAccounts = async () => {
+    try {
+      const response = await accountAPI.getAll('all');
+      setAccounts(response.data);
+    } catch (error) {
+      console.error('Error loading accounts:', error);
+      setError('Failed to load accounts');
+    }
+  };
+
+  const generateReports = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    
+    try {
+      const response = await reportAPI.getLedgers({
+        from: filters.startDate ? filters.startDate.format('YYYY-MM-DD') : undefined,
+        to: filters.endDate ? filters.endDate.format('YYYY-MM-DD') : undefined,
+        voided: filters.includeVoided ? 'include' : 'exclude',
+        account: filters.selectedAccount || undefined,
+        ownerOnly: !filters.selectedAccount && filters.ownerAccountsOnly ? true : undefined,
+      });
+      // The server leaves out accounts without activity or a balance brought forward
+      const accountReports = response.data;
+
+      const totalCredit = accountReports.reduce((sum, ledger) => sum + ledger.totalCredit, 0);
+      const totalDebit = accountReports.reduce((sum, ledger) => sum + ledger.totalDebit, 0);
+
+      setReports(accountReports);
+      setSummary({
+        totalAccounts: accountReports.length,
+        totalCredit,
+        totalDebit,
+        netAmount: totalDebit - totalCredit,
+      });
+
+    } catch (error) {
+      console.error('Error generating reports:', error);
+      setError('Failed to generate reports');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    generateReports();
+  }, [generateReports]);
+
+  // The server builds the file from the same filters as the screen
+  const handleExport = async (format: ExportFormat) => {
+    setExportAnchor(null);
+    setExporting(true);
+    setError('');
+
+    try {
+      const from = filters.startDate ? filters.startDate.format('YYYY-MM-DD') : undefined;
+      const to = filters.endDate ? filters.endDate.format('YYYY-MM-DD') : undefined;
+      const response = await reportAPI.exportLedger({
+        format,
+        from,
+        to,
+        voided: filters.includeVoided ? 'include' : 'exclude',
+        account: filters.selectedAccount || undefined,
+        ownerOnly: !filters.selectedAccount && filters.ownerAccountsOnly ? true : undefined,
+      });
+      downloadBlob(`account-ledgers-${from || 'start'}-to-${to || 'today'}.${format}`, response.data);
+    } catch (error) {
+      console.error('Error exporting reports:', error);
+      setError('Failed to export report');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFilterChange = (field: keyof FilterState, value: any) => {
+    setFilters(prev => ({
+      ...prev,
+      [field]: value
+    }));
+  };
+
+  const resetFilters = () => {
+    setFilters({
+      startDate: dayjs().subtract(30, 'days'),
+      endDate: dayjs(),
+      selectedAccount: '',
+      ownerAccountsOnly: false,
+      includeVoided: true,
+    });
+  };
+
+  if (loading) return <div>Loading reports...</div>;
+
+  return (
+    <Box>
+      {/* Filters Section */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Filters
+        </Typography>
+        
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'center' }}>
+          {/* Date Range */}
+          <Box sx={{ minWidth: '200px', flex: '1 1 200px' }}>
+            <DatePicker
+              label="Start Date"
+              value={filters.startDate}
+              onChange={(date) => handleFilterChange('startDate', date)}
+              enableAccessibleFieldDOMStructure={false}
+              slots={{ textField: TextField }}
+              slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+            />
+          </Box>
+          
+          <Box sx={{ minWidth: '200px', flex: '1 1 200px' }}>
+            <DatePicker
+              label="End Date"
+              value={filters.endDate}
+              onChange={(date) => handleFilterChange('endDate', date)}
+              enableAccessibleFieldDOMStructure={false}
+              slots={{ textField: TextField }}
+              slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+            />
+          </Box>
+
+          {/* Account Filter */}
+          <Box sx={{ minWidth: '200px', flex: '1 1 200px' }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Specific Account</InputLabel>
+              <Select
+                value={filters.selectedAccount}
+                onChange={(e) => handleFilterChange('selectedAccount', e.target.value)}
+                label="Specific Account"
+              >
+                <MenuItem value="">All Accounts</MenuItem>
+                {accounts.map((account) => (
+                  <MenuItem key={account._id} value={account._id}>
+                    {account.name} ({account.type.name})
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+
+          {/* Owner Accounts Filter */}
+          <Box sx={{ minWidth: '200px', flex: '1 1 200px' }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Filter Type</InputLabel>
+              <Select
+                value={filters.ownerAccountsOnly ? 'owner' : 'all'}
+                onChange={(e) => handleFilterChange('ownerAccountsOnly', e.target.value === 'owner')}
+                label="Filter Type"
+              >
+                <MenuItem value="all">All Accounts</MenuItem>
+                <MenuItem value="owner">Owner Accounts Only</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+
+          {/* Voided Transactions Filter */}
+          <FormControlLabel
+            control={
+              <Switch
+                checked={filters.includeVoided}
+                onChange={(e) => handleFilterChange('includeVoided', e.target.checked)}
+              />
+            }
+            label="Include voided"
+          />
+
+          {/* Action Buttons */}
+          <Box sx={{ display: 'flex', gap: 1, minWidth: '200px' }}>
+            <Button
+              variant="contained"
+              startIcon={<SearchIcon />}
+              onClick={generateReports}
+              disabled={loading}
+            >
+              Generate Report
+            </Button>
+            <Button variant="outlined" onClick={resetFilters}>
+              Reset Filters
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<DownloadIcon />}
+              onClick={(e) => setExportAnchor(e.currentTarget)}
+              disabled={exporting || reports.length === 0}
+            >
+              {exporting ? 'Exporting...' : 'Export'}
+            </Button>
+            <Menu anchorEl={exportAnchor} open={Boolean(exportAnchor)} onClose={() => setExportAnchor(null)}>
+              {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+                <MenuItem key={format} onClick={() => handleExport(format)}>
+                  {EXPORT_FORMAT_LABELS[format]}
+                </MenuItem>
+              ))}
+            </Menu>
+          </Box>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Summary Cards */}
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: 2, mb: 3 }}>
+        <Card>
+          <CardContent>
+            <Box display="flex" alignItems="center">
+              <AccountIcon sx={{ mr: 1, color: 'primary.main' }} />
+              <Box>
+                <Typography color="textSecondary" variant="body2">
+                  Total Accounts
+                </Typography>
+                <Typography variant="h5">
+                  {summary.totalAccounts}
+                </Typography>
+              </Box>
+            </Box>
+          </CardContent>
+        </Card>
+        
+        <Card>
+          <CardContent>
+            <Box display="flex" alignItems="center">
+              <TrendingUpIcon sx={{ mr: 1, color: 'success.main' }} />
+              <Box>
+                <Typography color="textSecondary" variant="body2">
+                  Total Credits
+                </Typography>
+                <Typography variant="h5" color="success.main">
+                  ${summary.totalCredit.toLocaleString()}
+                </Typography>
+              </Box>
+            </Box>
+          </CardContent>
+        </Card>
+        
+        <Card>
+          <CardContent>
+            <Box display="flex" alignItems="center">
+              <TrendingDownIcon sx={{ mr: 1, color: 'error.main' }} />
+              <Box>
+                <Typography color="textSecondary" variant="body2">
+                  Total Debits
+                </Typography>
+                <Typography variant="h5" color="error.main">
+                  ${summary.totalDebit.toLocaleString()}
+                </Typography>
+              </Box>
+            </Box>
+          </CardContent>
+        </Card>
+        
+        <Card>
+          <CardContent>
+            <Box display="flex" alignItems="center">
+              <AccountIcon sx={{ mr: 1, color: 'primary.main' }} />
+              <Box>
+                <Typography color="textSecondary" variant="body2">
+                  Net Movement
+                </Typography>
+                <Typography variant="h5">
+                  {formatBalance(summary.netAmount, 'debit')}
+                </Typography>
+              </Box>
+            </Box>
+          </CardContent>
+        </Card>
+      </Box>
+
+      {/* Account Reports */}
+      {reports.length === 0 ? (
+        <Paper sx={{ p: 3, textAlign: 'center' }}>
+          <Typography variant="h6" color="textSecondary">
+            No data found for the selected filters
+          </Typography>
+          <Typography variant="body2" color="textSecondary">
+            Try adjusting your date range or account filters
+          </Typography>
+        </Paper>
+      ) : (
+        reports.map((report) => (
+          <Accordion key={report.account._id} sx={{ mb: 2 }}>
+            <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+              <Box sx={{ width: '100%', display: 'flex', justifyContent: 'space-between', alignItems: 'center', mr: 2 }}>
+                <Box>
+                  <Typography variant="h6">
+                    {report.account.name}
+                  </Typography>
+                  <Box sx={{ display: 'flex', gap: 1, mt: 0.5 }}>
+                    <Chip
+                      label={report.account.type.name}
+                      size="small"
+                      variant="outlined"
+                    />
+                    {report.account.type.element && (
+                      <Chip
+                        label={ELEMENT_LABELS[report.account.type.element]}
+                        size="small"
+                      />
+                    )}
+                    {report.account.isOwnerAccount && (
+                      <Chip
+                        label="Owner Account"
+                        size="small"
+                        color="primary"
+                      />
+                    )}
+                  </Box>
+                </Box>
+                <Box sx={{ textAlign: 'right' }}>
+                  <Typography variant="body2" color="textSecondary">
+                    Opening: {formatBalance(report.openingBalance, report.normalBalance)}
+                  </Typography>
+                  <Typography variant="body2" color="success.main">
+                    Credits: ${report.totalCredit.toLocaleString()}
+                  </Typography>
+                  <Typography variant="body2" color="error.main">
+                    Debits: ${report.totalDebit.toLocaleString()}
+                  </Typography>
+                  <Typography variant="body1" fontWeight="bold">
+                    Closing: {formatBalance(report.closingBalance, report.normalBalance)}
+                  </Typography>
+                </Box>
+              </Box>
+            </AccordionSummary>
+            
+            <AccordionDetails>
+              <Typography variant="h6" gutterBottom>
+                Ledger ({report.lines.length} entries)
+              </Typography>
+              
+              <TableContainer component={Paper} variant="outlined">
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Transaction ID</TableCell>
+                      <TableCell>Date</TableCell>
+                      <TableCell>Description</TableCell>
+                      <TableCell align="right">Credit</TableCell>
+                      <TableCell align="right">Debit</TableCell>
+                      <TableCell align="right">Balance</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    <TableRow>
+                      <TableCell colSpan={5}>
+                        <Typography fontWeight="bold">Opening Balance</Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Typography fontWeight="bold">
+                          {formatBalance(report.openingBalance, report.normalBalance)}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                    {report.lines.map((line) => (
+                      <TableRow key={`${line.transaction}-${line.serialNo}`}>
+                        <TableCell>
+                          <Chip
+                            label={line.transactionId}
+                            size="small"
+                            variant="outlined"
+                            color={line.status === 'cancelled' ? 'warning' : 'default'}
+                            title={line.status === 'cancelled' ? 'Voided' : undefined}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {new Date(line.date).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>{line.description}</TableCell>
+                        <TableCell align="right">
+                          {line.credit > 0 ? (
+                            <Typography color="success.main" fontWeight="bold">
+                              ${line.credit.toLocaleString()}
+                            </Typography>
+                          ) : '-'}
+                        </TableCell>
+                        <TableCell align="right">
+                          {line.debit > 0 ? (
+                            <Typography color="error.main" fontWeight="bold">
+                              ${line.debit.toLocaleString()}
+                            </Typography>
+                          ) : '-'}
+                        </TableCell>
+                        <TableCell align="right">
+                          {formatBalance(line.balance, report.normalBalance)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={5}>
+                        <Typography fontWeight="bold">Closing Balance</Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Typography fontWeight="bold">
+                          {formatBalance(report.closingBalance, report.normalBalance)}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </AccordionDetails>
+          </Accordion>
+        ))
+      )}
+    </Box>
+  );
+};
+
+export default AccountLedgerReport;
\ No newline at end of file
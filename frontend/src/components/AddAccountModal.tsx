@@ -14,8 +14,14 @@ import {
   Checkbox,
   Box,
   Alert,
+  Typography,
 } from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import dayjs, { Dayjs } from 'dayjs';
 import { accountAPI, accountTypeAPI, CreateAccountData, AccountType, Account } from '../services/api';
+import { toDateParam, fromStoredDate } from '../utils/dates';
 
 interface AddAccountModalProps {
   open: boolean;
@@ -38,7 +44,11 @@ const AddAccountModal: React.FC<AddAccountModalProps> = ({
     address: '',
     contact: '',
     isOwnerAccount: false,
+    openingBalanceType: 'debit',
   });
+  /** Keep raw user input as string to avoid "jumping to 0" issues while typing */
+  const [openingBalanceStr, setOpeningBalanceStr] = useState<string>('');
+  const [openingBalanceDate, setOpeningBalanceDate] = useState<Dayjs | null>(dayjs());
   
   const [accountTypes, setAccountTypes] = useState<AccountType[]>([]);
   const [loading, setLoading] = useState(false);
@@ -60,7 +70,10 @@ const AddAccountModal: React.FC<AddAccountModalProps> = ({
           address: editAccount.address || '',
           contact: editAccount.contact || '',
           isOwnerAccount: editAccount.isOwnerAccount || false,
+          openingBalanceType: editAccount.openingBalanceType || 'debit',
         });
+        setOpeningBalanceStr(editAccount.openingBalance ? String(editAccount.openingBalance) : '');
+        setOpeningBalanceDate(fromStoredDate(editAccount.openingBalanceDate || editAccount.createdAt));
       } else {
         // Reset form for new account
         setFormData({
@@ -71,7 +84,10 @@ const AddAccountModal: React.FC<AddAccountModalProps> = ({
           address: '',
           contact: '',
           isOwnerAccount: false,
+          openingBalanceType: 'debit',
         });
+        setOpeningBalanceStr('');
+        setOpeningBalanceDate(dayjs());
       }
       setError('');
     }
@@ -104,6 +120,11 @@ const AddAccountModal: React.FC<AddAccountModalProps> = ({
       setError('Account type is required');
       return;
     }
+    const openingBalance = openingBalanceStr ? parseFloat(openingBalanceStr) : 0;
+    if (!Number.isFinite(openingBalance) || openingBalance < 0) {
+      setError('Opening balance must be a positive amount');
+      return;
+    }
 
     setLoading(true);
     setError('');
@@ -114,6 +135,8 @@ const AddAccountModal: React.FC<AddAccountModalProps> = ({
         name: formData.name.trim(),
         type: formData.type,
         isOwnerAccount: formData.isOwnerAccount,
+        openingBalance,
+        openingBalanceType: formData.openingBalanceType,
       };
 
       // Only include optional fields if they have values
@@ -121,6 +144,7 @@ const AddAccountModal: React.FC<AddAccountModalProps> = ({
       if (formData.branch?.trim()) cleanData.branch = formData.branch.trim();
       if (formData.address?.trim()) cleanData.address = formData.address.trim();
       if (formData.contact?.trim()) cleanData.contact = formData.contact.trim();
+      if (openingBalance > 0 && openingBalanceDate) cleanData.openingBalanceDate = toDateParam(openingBalanceDate);
 
       if (isEditing && editAccount) {
         // Update existing account
@@ -141,113 +165,150 @@ const AddAccountModal: React.FC<AddAccountModalProps> = ({
   };
 
   return (
-    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
-      <DialogTitle>
-        {isEditing ? 'Edit Account' : 'Add New Account'}
-      </DialogTitle>
-      <DialogContent>
-        {error && (
-          <Alert severity="error" sx={{ mb: 2 }}>
-            {error}
-          </Alert>
-        )}
-
-        <Box sx={{ mt: 2 }}>
-          {/* Row 1: Account Name and Type */}
-          <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
-            <TextField
-              fullWidth
-              label="Account Name *"
-              value={formData.name}
-              onChange={(e) => handleInputChange('name', e.target.value)}
-              placeholder="e.g., Meezan Bank, John Doe, Cash in Hand"
-            />
-            <FormControl fullWidth>
-              <InputLabel>Account Type *</InputLabel>
-              <Select
-                value={formData.type}
-                onChange={(e) => handleInputChange('type', e.target.value)}
-                label="Account Type *"
-              >
-                {accountTypes.map((type) => (
-                  <MenuItem key={type._id} value={type.name}>
-                    {type.name}
-                  </MenuItem>
-                ))}
-              </Select>
-            </FormControl>
-          </Box>
+    <LocalizationProvider dateAdapter={AdapterDayjs}>
+      <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {isEditing ? 'Edit Account' : 'Add New Account'}
+        </DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
 
-          {/* Row 2: Account Number and Branch */}
-          <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
-            <TextField
-              fullWidth
-              label="Account Number"
-              value={formData.accountNo || ''}
-              onChange={(e) => handleInputChange('accountNo', e.target.value)}
-              placeholder="e.g., 12345-67890-001"
-            />
-            <TextField
-              fullWidth
-              label="Branch"
-              value={formData.branch || ''}
-              onChange={(e) => handleInputChange('branch', e.target.value)}
-              placeholder="e.g., Main Branch Karachi"
-            />
-          </Box>
+          <Box sx={{ mt: 2 }}>
+            {/* Row 1: Account Name and Type */}
+            <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+              <TextField
+                fullWidth
+                label="Account Name *"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                placeholder="e.g., Meezan Bank, John Doe, Cash in Hand"
+              />
+              <FormControl fullWidth>
+                <InputLabel>Account Type *</InputLabel>
+                <Select
+                  value={formData.type}
+                  onChange={(e) => handleInputChange('type', e.target.value)}
+                  label="Account Type *"
+                >
+                  {accountTypes.map((type) => (
+                    <MenuItem key={type._id} value={type.name}>
+                      {type.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
 
-          {/* Row 3: Address (full width) */}
-          <Box sx={{ mb: 2 }}>
-            <TextField
-              fullWidth
-              label="Address"
-              value={formData.address || ''}
-              onChange={(e) => handleInputChange('address', e.target.value)}
-              placeholder="e.g., I.I. Chundrigar Road, Karachi"
-              multiline
-              rows={2}
-            />
-          </Box>
+            {/* Row 2: Account Number and Branch */}
+            <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+              <TextField
+                fullWidth
+                label="Account Number"
+                value={formData.accountNo || ''}
+                onChange={(e) => handleInputChange('accountNo', e.target.value)}
+                placeholder="e.g., 12345-67890-001"
+              />
+              <TextField
+                fullWidth
+                label="Branch"
+                value={formData.branch || ''}
+                onChange={(e) => handleInputChange('branch', e.target.value)}
+                placeholder="e.g., Main Branch Karachi"
+              />
+            </Box>
+
+            {/* Row 3: Address (full width) */}
+            <Box sx={{ mb: 2 }}>
+              <TextField
+                fullWidth
+                label="Address"
+                value={formData.address || ''}
+                onChange={(e) => handleInputChange('address', e.target.value)}
+                placeholder="e.g., I.I. Chundrigar Road, Karachi"
+                multiline
+                rows={2}
+              />
+            </Box>
 
-          {/* Row 4: Contact and Owner Account Checkbox */}
-          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
-            <TextField
-              fullWidth
-              label="Contact"
-              value={formData.contact || ''}
-              onChange={(e) => handleInputChange('contact', e.target.value)}
-              placeholder="e.g., +92-21-111-331-962"
-            />
-            <FormControlLabel
-              control={
-                <Checkbox
-                  checked={formData.isOwnerAccount}
-                  onChange={(e) => handleInputChange('isOwnerAccount', e.target.checked)}
-                />
-              }
-              label="This is my own account"
-              sx={{ minWidth: '200px' }}
-            />
+            {/* Row 4: Contact and Owner Account Checkbox */}
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+              <TextField
+                fullWidth
+                label="Contact"
+                value={formData.contact || ''}
+                onChange={(e) => handleInputChange('contact', e.target.value)}
+                placeholder="e.g., +92-21-111-331-962"
+              />
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={formData.isOwnerAccount}
+                    onChange={(e) => handleInputChange('isOwnerAccount', e.target.checked)}
+                  />
+                }
+                label="This is my own account"
+                sx={{ minWidth: '200px' }}
+              />
+            </Box>
+
+            {/* Row 5: Opening Balance */}
+            <Typography variant="subtitle1" sx={{ mt: 3, mb: 1 }}>
+              Opening Balance
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                fullWidth
+                type="number"
+                label="Amount"
+                value={openingBalanceStr}
+                onChange={(e) => setOpeningBalanceStr(e.target.value)}
+                placeholder="0"
+                inputProps={{ min: 0, step: 0.01 }}
+              />
+              <FormControl fullWidth>
+                <InputLabel>Side</InputLabel>
+                <Select
+                  value={formData.openingBalanceType || 'debit'}
+                  onChange={(e) => handleInputChange('openingBalanceType', e.target.value)}
+                  label="Side"
+                >
+                  <MenuItem value="debit">Debit</MenuItem>
+                  <MenuItem value="credit">Credit</MenuItem>
+                </Select>
+              </FormControl>
+              <DatePicker
+                label="As of"
+                value={openingBalanceDate}
+                onChange={(newValue) => setOpeningBalanceDate(newValue)}
+                enableAccessibleFieldDOMStructure={false}
+                slots={{ textField: TextField }}
+                slotProps={{ textField: { fullWidth: true } }}
+              />
+            </Box>
           </Box>
-        </Box>
-      </DialogContent>
-
-      <DialogActions>
-        <Button onClick={onClose} disabled={loading}>
-          Cancel
-        </Button>
-        <Button 
-          onClick={handleSubmit} 
-          variant="contained" 
-          disabled={loading}
-        >
-          {loading 
-            ? (isEditing ? 'Updating...' : 'Adding...')
-            : (isEditing ? 'Update Account' : 'Add Account')
-          }
-        </Button>
-      </DialogActions>
-    </Dialog>
+        </DialogContent>
+
+        <DialogActions>
+          <Button onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button 
+            onClick={handleSubmit} 
+            variant="contained" 
+            disabled={loading}
+          >
+            {loading 
+              ? (isEditing ? 'Updating...' : 'Adding...')
+              : (isEditing ? 'Update Account' : 'Add Account')
+            }
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </LocalizationProvider>
   );
 };
 
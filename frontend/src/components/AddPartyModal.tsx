@@ -0,0 +1,156 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Alert,
+} from '@mui/material';
+import { partyAPI, Party } from '../services/api';
+
+interface PartyFormData {
+  name: string;
+  contact: string;
+  address: string;
+}
+
+interface AddPartyModalProps {
+  open: boolean;
+  onClose: () => void;
+  onPartyAdded: () => void;
+  editParty?: Party | null;
+}
+
+const emptyForm: PartyFormData = {
+  name: '',
+  contact: '',
+  address: '',
+};
+
+const AddPartyModal: React.FC<AddPartyModalProps> = ({
+  open,
+  onClose,
+  onPartyAdded,
+  editParty,
+}) => {
+  const [formData, setFormData] = useState<PartyFormData>(emptyForm);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const isEditing = Boolean(editParty);
+
+  useEffect(() => {
+    if (open) {
+      if (editParty) {
+        setFormData({
+          name: editParty.name || '',
+          contact: editParty.contact || '',
+          address: editParty.address || '',
+        });
+      } else {
+        setFormData(emptyForm);
+      }
+      setError('');
+    }
+  }, [open, editParty]);
+
+  const handleInputChange = (field: keyof PartyFormData, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: value
+    }));
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name.trim()) {
+      setError('Party name is required');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const cleanData: Partial<Party> = {
+        name: formData.name.trim(),
+        contact: formData.contact.trim(),
+        address: formData.address.trim(),
+      };
+
+      if (isEditing && editParty) {
+        await partyAPI.update(editParty._id, cleanData);
+      } else {
+        await partyAPI.create(cleanData);
+      }
+
+      onPartyAdded();
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving party:', error);
+      setError(error.response?.data?.message || `Failed to ${isEditing ? 'update' : 'create'} party`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {isEditing ? 'Edit Party' : 'Add New Party'}
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ mt: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <TextField
+            fullWidth
+            label="Party Name *"
+            value={formData.name}
+            onChange={(e) => handleInputChange('name', e.target.value)}
+            placeholder="e.g., Al-Fatah Traders"
+          />
+          <TextField
+            fullWidth
+            label="Contact"
+            value={formData.contact}
+            onChange={(e) => handleInputChange('contact', e.target.value)}
+            placeholder="e.g., +92-300-1234567"
+          />
+          <TextField
+            fullWidth
+            label="Address"
+            value={formData.address}
+            onChange={(e) => handleInputChange('address', e.target.value)}
+            multiline
+            rows={2}
+          />
+        </Box>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} disabled={loading}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          variant="contained"
+          disabled={loading}
+        >
+          {loading
+            ? (isEditing ? 'Updating...' : 'Adding...')
+            : (isEditing ? 'Update Party' : 'Add Party')
+          }
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AddPartyModal;
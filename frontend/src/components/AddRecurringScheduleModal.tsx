@@ -0,0 +1,337 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Alert,
+  Typography,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import dayjs, { Dayjs } from 'dayjs';
+import {
+  accountAPI,
+  partyAPI,
+  recurringAPI,
+  Account,
+  Party,
+  RecurringSchedule,
+  RecurringFrequency,
+  CreateRecurringScheduleData,
+  VoucherType,
+  FREQUENCY_LABELS,
+  VOUCHER_TYPE_LABELS,
+} from '../services/api';
+import TransactionLinesEditor, {
+  DetailLine,
+  emptyLine,
+  toDetailLines,
+  fromDetailLines,
+  validateLines,
+} from './TransactionLinesEditor';
+
+type EndType = 'never' | 'date' | 'count';
+
+interface AddRecurringScheduleModalProps {
+  open: boolean;
+  onClose: () => void;
+  onScheduleSaved: () => void;
+  editSchedule?: RecurringSchedule | null;
+}
+
+const AddRecurringScheduleModal: React.FC<AddRecurringScheduleModalProps> = ({
+  open,
+  onClose,
+  onScheduleSaved,
+  editSchedule,
+}) => {
+  const [name, setName] = useState<string>('');
+  const [frequency, setFrequency] = useState<RecurringFrequency>('monthly');
+  const [repeatEvery, setRepeatEvery] = useState<string>('1');
+  const [startDate, setStartDate] = useState<Dayjs>(dayjs());
+  const [endType, setEndType] = useState<EndType>('never');
+  const [endDate, setEndDate] = useState<Dayjs | null>(null);
+  const [maxOccurrences, setMaxOccurrences] = useState<string>('');
+  const [transactionStatus, setTransactionStatus] = useState<'pending' | 'completed'>('completed');
+  const [voucherType, setVoucherType] = useState<VoucherType>('journal');
+  const [details, setDetails] = useState<DetailLine[]>([emptyLine(1), emptyLine(2)]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [parties, setParties] = useState<Party[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const isEditing = Boolean(editSchedule);
+  // Occurrences are counted from the start date, so timing is fixed once a schedule has posted
+  const timingLocked = Boolean(editSchedule && editSchedule.nextIndex > 0);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const init = async () => {
+      setError('');
+      await Promise.all([loadAccounts(), loadParties()]);
+
+      if (editSchedule) {
+        setName(editSchedule.name);
+        setFrequency(editSchedule.frequency);
+        setRepeatEvery(String(editSchedule.interval));
+        setStartDate(dayjs(editSchedule.startDate));
+        setEndType(editSchedule.endDate ? 'date' : editSchedule.maxOccurrences ? 'count' : 'never');
+        setEndDate(editSchedule.endDate ? dayjs(editSchedule.endDate) : null);
+        setMaxOccurrences(editSchedule.maxOccurrences ? String(editSchedule.maxOccurrences) : '');
+        setTransactionStatus(editSchedule.transactionStatus);
+        setVoucherType(editSchedule.voucherType || 'journal');
+        setDetails(toDetailLines(editSchedule.details));
+      } else {
+        setName('');
+        setFrequency('monthly');
+        setRepeatEvery('1');
+        setStartDate(dayjs());
+        setEndType('never');
+        setEndDate(null);
+        setMaxOccurrences('');
+        setTransactionStatus('completed');
+        setVoucherType('journal');
+        setDetails([emptyLine(1), emptyLine(2)]);
+      }
+    };
+
+    init();
+  }, [open, editSchedule]);
+
+  const loadAccounts = async () => {
+    try {
+      const response = await accountAPI.getAll('all');
+      setAccounts(response.data);
+    } catch (err) {
+      console.error('Error loading accounts:', err);
+      setError('Failed to load accounts');
+    }
+  };
+
+  const loadParties = async () => {
+    try {
+      const response = await partyAPI.getAll();
+      setParties(response.data);
+    } catch (err) {
+      console.error('Error loading parties:', err);
+      setError('Failed to load parties');
+    }
+  };
+
+  const validate = () => {
+    const errors: string[] = [];
+    if (!name.trim()) {
+      errors.push('Name is required');
+    }
+    if (!(parseInt(repeatEvery, 10) >= 1)) {
+      errors.push('Repeat interval must be at least 1');
+    }
+    if (endType === 'date' && (!endDate || endDate.isBefore(startDate, 'day'))) {
+      errors.push('End date must be on or after the start date');
+    }
+    if (endType === 'count' && !(parseInt(maxOccurrences, 10) >= 1)) {
+      errors.push('Number of occurrences must be at least 1');
+    }
+    return errors.concat(validateLines(details));
+  };
+
+  const handleSubmit = async () => {
+    const validationErrors = validate();
+    if (validationErrors.length > 0) {
+      setError(validationErrors.join('\n'));
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const scheduleData: CreateRecurringScheduleData = {
+        name: name.trim(),
+        frequency,
+        interval: parseInt(repeatEvery, 10),
+        startDate: startDate.format('YYYY-MM-DD'),
+        endDate: endType === 'date' && endDate ? endDate.format('YYYY-MM-DD') : null,
+        maxOccurrences: endType === 'count' ? parseInt(maxOccurrences, 10) : null,
+        transactionStatus,
+        voucherType,
+        details: fromDetailLines(details),
+      };
+
+      if (isEditing && editSchedule) {
+        await recurringAPI.update(editSchedule._id, scheduleData);
+      } else {
+        await recurringAPI.create(scheduleData);
+      }
+
+      onScheduleSaved();
+      onClose();
+    } catch (err: any) {
+      console.error('Error saving schedule:', err);
+      setError(err?.response?.data?.message || 'Failed to save schedule');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDayjs}>
+      <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+        <DialogTitle>
+          {isEditing ? 'Edit Recurring Schedule' : 'Add Recurring Schedule'}
+        </DialogTitle>
+
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2, whiteSpace: 'pre-line' }}>
+              {error}
+            </Alert>
+          )}
+          {timingLocked && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              This schedule has already posted transactions, so its frequency and start date cannot change.
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 3, mt: 2 }}>
+            <TextField
+              label="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              sx={{ flex: '1 1 300px' }}
+              required
+            />
+            <FormControl sx={{ minWidth: '180px' }}>
+              <InputLabel>Post As</InputLabel>
+              <Select
+                value={transactionStatus}
+                onChange={(e) => setTransactionStatus(e.target.value as 'pending' | 'completed')}
+                label="Post As"
+              >
+                <MenuItem value="completed">Completed</MenuItem>
+                <MenuItem value="pending">Pending approval</MenuItem>
+              </Select>
+            </FormControl>
+            <FormControl sx={{ minWidth: '180px' }}>
+              <InputLabel>Voucher Type</InputLabel>
+              <Select
+                value={voucherType}
+                onChange={(e) => setVoucherType(e.target.value as VoucherType)}
+                label="Voucher Type"
+              >
+                {(Object.keys(VOUCHER_TYPE_LABELS) as VoucherType[]).map((type) => (
+                  <MenuItem key={type} value={type}>
+                    {VOUCHER_TYPE_LABELS[type]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center', mb: 3 }}>
+            <TextField
+              label="Repeat Every"
+              type="number"
+              value={repeatEvery}
+              onChange={(e) => setRepeatEvery(e.target.value)}
+              inputProps={{ min: 1, step: 1 }}
+              disabled={timingLocked}
+              sx={{ width: '140px' }}
+            />
+            <FormControl sx={{ minWidth: '140px' }} disabled={timingLocked}>
+              <InputLabel>Period</InputLabel>
+              <Select
+                value={frequency}
+                onChange={(e) => setFrequency(e.target.value as RecurringFrequency)}
+                label="Period"
+              >
+                {(Object.keys(FREQUENCY_LABELS) as RecurringFrequency[]).map((key) => (
+                  <MenuItem key={key} value={key}>
+                    {FREQUENCY_LABELS[key]}(s)
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Box sx={{ width: '200px' }}>
+              <DatePicker
+                label="Start Date"
+                value={startDate}
+                onChange={(newValue) => newValue && setStartDate(newValue)}
+                disabled={timingLocked}
+                enableAccessibleFieldDOMStructure={false}
+                slots={{ textField: TextField }}
+                slotProps={{ textField: { fullWidth: true } }}
+              />
+            </Box>
+            <FormControl sx={{ minWidth: '160px' }}>
+              <InputLabel>Ends</InputLabel>
+              <Select
+                value={endType}
+                onChange={(e) => setEndType(e.target.value as EndType)}
+                label="Ends"
+              >
+                <MenuItem value="never">Never</MenuItem>
+                <MenuItem value="date">On a date</MenuItem>
+                <MenuItem value="count">After a number of runs</MenuItem>
+              </Select>
+            </FormControl>
+            {endType === 'date' && (
+              <Box sx={{ width: '200px' }}>
+                <DatePicker
+                  label="End Date"
+                  value={endDate}
+                  onChange={(newValue) => setEndDate(newValue)}
+                  enableAccessibleFieldDOMStructure={false}
+                  slots={{ textField: TextField }}
+                  slotProps={{ textField: { fullWidth: true } }}
+                />
+              </Box>
+            )}
+            {endType === 'count' && (
+              <TextField
+                label="Occurrences"
+                type="number"
+                value={maxOccurrences}
+                onChange={(e) => setMaxOccurrences(e.target.value)}
+                inputProps={{ min: 1, step: 1 }}
+                sx={{ width: '140px' }}
+              />
+            )}
+          </Box>
+
+          <Typography variant="h6" gutterBottom>
+            Transaction Template
+          </Typography>
+
+          <TransactionLinesEditor
+            lines={details}
+            onChange={setDetails}
+            accounts={accounts}
+            parties={parties}
+          />
+        </DialogContent>
+
+        <DialogActions>
+          <Button onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} variant="contained" disabled={loading}>
+            {loading ? 'Saving...' : isEditing ? 'Update Schedule' : 'Add Schedule'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </LocalizationProvider>
+  );
+};
+
+export default AddRecurringScheduleModal;
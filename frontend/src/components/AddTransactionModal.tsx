@@ -6,41 +6,42 @@ import {
   DialogActions,
   TextField,
   Button,
-  FormControl,
-  Select,
-  MenuItem,
   Box,
   Alert,
-  Table,
-  TableBody,
-  TableCell,
-  TableContainer,
-  TableHead,
-  TableRow,
-  IconButton,
   Typography,
-  Paper,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormHelperText,
 } from '@mui/material';
-import {
-  Add as AddIcon,
-  Delete as DeleteIcon,
-} from '@mui/icons-material';
+import { BookmarkAdd as SaveTemplateIcon } from '@mui/icons-material';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
 import dayjs, { Dayjs } from 'dayjs';
-import { accountAPI, transactionAPI, Account, Transaction, CreateTransactionData } from '../services/api';
-
-type DetailType = 'debit' | 'credit';
-
-interface TransactionDetail {
-  serialNo: number;
-  account: string;
-  description: string;
-  /** Keep raw user input as string to avoid "jumping to 0" issues while typing */
-  amountStr: string;
-  type: DetailType;
-}
+import {
+  accountAPI,
+  partyAPI,
+  transactionAPI,
+  templateAPI,
+  Account,
+  Party,
+  Transaction,
+  CreateTransactionData,
+  JournalTemplate,
+  VoucherType,
+  VOUCHER_TYPE_LABELS,
+} from '../services/api';
+import TransactionLinesEditor, {
+  DetailLine,
+  emptyLine,
+  toDetailLines,
+  fromDetailLines,
+  validateLines,
+} from './TransactionLinesEditor';
+import SaveTemplateDialog from './SaveTemplateDialog';
+import { toDateParam, fromStoredDate } from '../utils/dates';
 
 interface AddTransactionModalProps {
   open: boolean;
@@ -49,11 +50,6 @@ interface AddTransactionModalProps {
   editTransaction?: Transaction | null;
 }
 
-const toNumber = (s: string) => {
-  const n = parseFloat(s);
-  return Number.isFinite(n) ? n : 0;
-};
-
 const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
   open,
   onClose,
@@ -61,16 +57,13 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
   editTransaction,
 }) => {
   const [date, setDate] = useState<Dayjs>(dayjs());
-  const [details, setDetails] = useState<TransactionDetail[]>([
-    {
-      serialNo: 1,
-      account: '',
-      description: '',
-      amountStr: '',
-      type: 'credit',
-    },
-  ]);
+  const [voucherType, setVoucherType] = useState<VoucherType>('journal');
+  const [details, setDetails] = useState<DetailLine[]>([emptyLine(1)]);
   const [accounts, setAccounts] = useState<Account[]>([]);
+  const [parties, setParties] = useState<Party[]>([]);
+  const [templates, setTemplates] = useState<JournalTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string>('');
+  const [saveTemplateOpen, setSaveTemplateOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
 
@@ -81,33 +74,17 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
 
     const init = async () => {
       setError('');
-      await loadAccounts();
+      setTemplateId('');
+      await Promise.all([loadAccounts(), loadParties(), loadTemplates()]);
 
       if (editTransaction) {
-        setDate(dayjs(editTransaction.date));
-        setDetails(
-          editTransaction.details.map((detail, index) => ({
-            serialNo: index + 1,
-            account:
-              typeof detail.account === 'string'
-                ? detail.account
-                : detail.account.name,
-            description: detail.description || '',
-            amountStr: String(detail.amount ?? ''),
-            type: detail.type as DetailType,
-          }))
-        );
+        setDate(fromStoredDate(editTransaction.date));
+        setVoucherType(editTransaction.voucherType || 'journal');
+        setDetails(toDetailLines(editTransaction.details));
       } else {
         setDate(dayjs());
-        setDetails([
-          {
-            serialNo: 1,
-            account: '',
-            description: '',
-            amountStr: '',
-            type: 'credit',
-          },
-        ]);
+        setVoucherType('journal');
+        setDetails([emptyLine(1)]);
       }
     };
 
@@ -116,7 +93,8 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
 
   const loadAccounts = async () => {
     try {
-      const response = await accountAPI.getAll();
+      // Archived accounts are only offered on lines that already use them
+      const response = await accountAPI.getAll('all');
       setAccounts(response.data);
     } catch (err) {
       console.error('Error loading accounts:', err);
@@ -124,82 +102,37 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
     }
   };
 
-  const addDetailRow = () => {
-    const newDetail: TransactionDetail = {
-      serialNo: details.length + 1,
-      account: '',
-      description: '',
-      amountStr: '',
-      type: 'credit',
-    };
-    setDetails((prev) => [...prev, newDetail]);
-  };
-
-  const removeDetailRow = (index: number) => {
-    setDetails((prev) => {
-      if (prev.length <= 1) return prev;
-      const newDetails = prev.filter((_, i) => i !== index);
-      // re-number serials
-      return newDetails.map((d, i) => ({ ...d, serialNo: i + 1 }));
-    });
-  };
-
-  const updateDetail = <K extends keyof TransactionDetail>(
-    index: number,
-    field: K,
-    value: TransactionDetail[K]
-  ) => {
-    setDetails((prev) => {
-      const next = [...prev];
-      next[index] = { ...next[index], [field]: value };
-      return next;
-    });
+  const loadParties = async () => {
+    try {
+      const response = await partyAPI.getAll();
+      setParties(response.data);
+    } catch (err) {
+      console.error('Error loading parties:', err);
+      setError('Failed to load parties');
+    }
   };
 
-  const validateTransaction = () => {
-    const errors: string[] = [];
-
-    details.forEach((detail, index) => {
-      if (!detail.account) {
-        errors.push(`Row ${index + 1}: Account is required`);
-      }
-      if (!detail.description.trim()) {
-        errors.push(`Row ${index + 1}: Description is required`);
-      }
-      if (toNumber(detail.amountStr) <= 0) {
-        errors.push(`Row ${index + 1}: Amount must be greater than 0`);
-      }
-    });
-
-    const totalDebits = details
-      .filter((d) => d.type === 'debit')
-      .reduce((sum, d) => sum + toNumber(d.amountStr), 0);
-
-    const totalCredits = details
-      .filter((d) => d.type === 'credit')
-      .reduce((sum, d) => sum + toNumber(d.amountStr), 0);
-
-    if (Math.abs(totalDebits - totalCredits) > 0.01) {
-      errors.push('Total debits must equal total credits');
+  const loadTemplates = async () => {
+    try {
+      const response = await templateAPI.getAll();
+      setTemplates(response.data);
+    } catch (err) {
+      console.error('Error loading templates:', err);
     }
-
-    return errors;
   };
 
-  const getTotals = () => {
-    const totalDebits = details
-      .filter((d) => d.type === 'debit')
-      .reduce((sum, d) => sum + toNumber(d.amountStr), 0);
-
-    const totalCredits = details
-      .filter((d) => d.type === 'credit')
-      .reduce((sum, d) => sum + toNumber(d.amountStr), 0);
-
-    return { totalDebits, totalCredits };
+  // Replace the rows with the template's lines, keeping the chosen date
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find((t) => t._id === id);
+    if (template) {
+      setDetails(toDetailLines(template.details));
+      setError('');
+    }
   };
 
   const handleSubmit = async () => {
-    const validationErrors = validateTransaction();
+    const validationErrors = validateLines(details);
     if (validationErrors.length > 0) {
       setError(validationErrors.join('\n'));
       return;
@@ -210,19 +143,13 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
 
     try {
       const transactionData: CreateTransactionData = {
-        date: date.toISOString(),
-        details: details.map((detail) => ({
-          account: detail.account,
-          description: detail.description.trim(),
-          amount: toNumber(detail.amountStr),
-          type: detail.type,
-        })),
+        date: toDateParam(date),
+        voucherType,
+        details: fromDetailLines(details),
       };
 
       if (isEditing && editTransaction) {
-        // Implement update in backend if needed
-        // await transactionAPI.update(editTransaction._id, transactionData);
-        console.log('Edit transaction:', transactionData);
+        await transactionAPI.update(editTransaction._id, transactionData);
       } else {
         await transactionAPI.create(transactionData);
       }
@@ -237,9 +164,6 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
     }
   };
 
-  const { totalDebits, totalCredits } = getTotals();
-  const diff = Math.abs(totalCredits - totalDebits);
-
   return (
     <LocalizationProvider dateAdapter={AdapterDayjs}>
       <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
@@ -254,160 +178,72 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
             </Alert>
           )}
 
-          <Box sx={{ mb: 3, mt: 2 }}>
-            <DatePicker
-              label="Transaction Date"
-              value={date}
-              onChange={(newValue) => newValue && setDate(newValue)}
-              enableAccessibleFieldDOMStructure={false}
-              slots={{ textField: TextField }}
-              slotProps={{ textField: { fullWidth: true } }}
-            />
+          <Box sx={{ display: 'flex', gap: 2, mb: 3, mt: 2 }}>
+            <Box sx={{ flex: 1 }}>
+              <DatePicker
+                label="Transaction Date"
+                value={date}
+                onChange={(newValue) => newValue && setDate(newValue)}
+                enableAccessibleFieldDOMStructure={false}
+                slots={{ textField: TextField }}
+                slotProps={{ textField: { fullWidth: true } }}
+              />
+            </Box>
+            <FormControl sx={{ flex: 1 }}>
+              <InputLabel>Voucher Type</InputLabel>
+              <Select
+                value={voucherType}
+                onChange={(e) => setVoucherType(e.target.value as VoucherType)}
+                label="Voucher Type"
+              >
+                {(Object.keys(VOUCHER_TYPE_LABELS) as VoucherType[]).map((type) => (
+                  <MenuItem key={type} value={type}>
+                    {VOUCHER_TYPE_LABELS[type]}
+                  </MenuItem>
+                ))}
+              </Select>
+              {isEditing && editTransaction?.voucherNo && voucherType !== editTransaction.voucherType && (
+                <FormHelperText>A new number will replace {editTransaction.voucherNo}</FormHelperText>
+              )}
+            </FormControl>
+            <FormControl sx={{ flex: 1 }}>
+              <InputLabel>Load Template</InputLabel>
+              <Select
+                value={templateId}
+                onChange={(e) => handleTemplateChange(e.target.value)}
+                label="Load Template"
+                disabled={templates.length === 0}
+              >
+                {templates.map((template) => (
+                  <MenuItem key={template._id} value={template._id}>
+                    {template.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
           </Box>
 
           <Typography variant="h6" gutterBottom>
             Transaction Details
           </Typography>
 
-          <Paper variant="outlined" sx={{ mb: 2 }}>
-            <TableContainer>
-              <Table>
-                <TableHead>
-                  <TableRow>
-                    <TableCell>S.No</TableCell>
-                    <TableCell>Account</TableCell>
-                    <TableCell>Description</TableCell>
-                    <TableCell>Credit Amount</TableCell>
-                    <TableCell>Debit Amount</TableCell>
-                    <TableCell align="center">Actions</TableCell>
-                  </TableRow>
-                </TableHead>
-                <TableBody>
-                  {details.map((detail, index) => (
-                    <TableRow key={detail.serialNo}>
-                      <TableCell>{detail.serialNo}</TableCell>
-
-                      <TableCell>
-                        <FormControl fullWidth size="small">
-                          <Select
-                            value={detail.account}
-                            onChange={(e) =>
-                              updateDetail(index, 'account', e.target.value)
-                            }
-                            displayEmpty
-                          >
-                            <MenuItem value="">Select Account</MenuItem>
-                            {accounts.map((account) => (
-                              <MenuItem key={account._id} value={account.name}>
-                                {account.name}
-                              </MenuItem>
-                            ))}
-                          </Select>
-                        </FormControl>
-                      </TableCell>
-
-                      <TableCell>
-                        <TextField
-                          size="small"
-                          fullWidth
-                          value={detail.description}
-                          onChange={(e) =>
-                            updateDetail(index, 'description', e.target.value)
-                          }
-                          placeholder="Enter description"
-                        />
-                      </TableCell>
-
-                      {/* Credit input controls the type=credit and keeps raw string */}
-                      <TableCell>
-                        <TextField
-                          size="small"
-                          fullWidth
-                          type="number"
-                          value={detail.type === 'credit' ? detail.amountStr : ''}
-                          onChange={(e) => {
-                            // switch to credit side if not already
-                            if (detail.type !== 'credit') {
-                              updateDetail(index, 'type', 'credit');
-                            }
-                            updateDetail(index, 'amountStr', e.target.value);
-                          }}
-                          placeholder="0"
-                          inputProps={{ min: 0, step: 0.01 }}
-                        />
-                      </TableCell>
-
-                      {/* Debit input controls the type=debit and keeps raw string */}
-                      <TableCell>
-                        <TextField
-                          size="small"
-                          fullWidth
-                          type="number"
-                          value={detail.type === 'debit' ? detail.amountStr : ''}
-                          onChange={(e) => {
-                            if (detail.type !== 'debit') {
-                              updateDetail(index, 'type', 'debit');
-                            }
-                            updateDetail(index, 'amountStr', e.target.value);
-                          }}
-                          placeholder="0"
-                          inputProps={{ min: 0, step: 0.01 }}
-                        />
-                      </TableCell>
-
-                      <TableCell align="center">
-                        <IconButton
-                          size="small"
-                          color="error"
-                          onClick={() => removeDetailRow(index)}
-                          disabled={details.length === 1}
-                        >
-                          <DeleteIcon fontSize="small" />
-                        </IconButton>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </TableContainer>
-          </Paper>
-
-          <Box
-            sx={{
-              display: 'flex',
-              justifyContent: 'space-between',
-              alignItems: 'center',
-              mb: 2,
-            }}
-          >
-            <Button
-              startIcon={<AddIcon />}
-              onClick={addDetailRow}
-              variant="outlined"
-            >
-              Add Row
-            </Button>
-
-            <Box sx={{ textAlign: 'right' }}>
-              <Typography variant="body2">
-                Total Credits:{' '}
-                <strong>${totalCredits.toLocaleString()}</strong>
-              </Typography>
-              <Typography variant="body2">
-                Total Debits:{' '}
-                <strong>${totalDebits.toLocaleString()}</strong>
-              </Typography>
-              <Typography
-                variant="body2"
-                color={diff < 0.01 ? 'success.main' : 'error.main'}
-              >
-                Difference: <strong>${diff.toLocaleString()}</strong>
-              </Typography>
-            </Box>
-          </Box>
+          <TransactionLinesEditor
+            lines={details}
+            onChange={setDetails}
+            accounts={accounts}
+            parties={parties}
+          />
         </DialogContent>
 
         <DialogActions>
+          <Button
+            startIcon={<SaveTemplateIcon />}
+            onClick={() => setSaveTemplateOpen(true)}
+            disabled={loading}
+            sx={{ mr: 'auto' }}
+          >
+            Save as Template
+          </Button>
           <Button onClick={onClose} disabled={loading}>
             Cancel
           </Button>
@@ -422,6 +258,13 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
           </Button>
         </DialogActions>
       </Dialog>
+
+      <SaveTemplateDialog
+        open={saveTemplateOpen}
+        onClose={() => setSaveTemplateOpen(false)}
+        lines={details}
+        onSaved={loadTemplates}
+      />
     </LocalizationProvider>
   );
 };
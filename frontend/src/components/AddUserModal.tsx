@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Alert,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import { userAPI, User, UserFormData, UserRole, ROLE_LABELS } from '../services/api';
+
+interface AddUserModalProps {
+  open: boolean;
+  onClose: () => void;
+  onUserSaved: () => void;
+  editUser?: User | null;
+}
+
+const emptyForm: UserFormData = {
+  username: '',
+  name: '',
+  role: 'viewer',
+  isActive: true,
+  password: '',
+};
+
+const AddUserModal: React.FC<AddUserModalProps> = ({
+  open,
+  onClose,
+  onUserSaved,
+  editUser,
+}) => {
+  const [formData, setFormData] = useState<UserFormData>(emptyForm);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const isEditing = Boolean(editUser);
+
+  useEffect(() => {
+    if (open) {
+      if (editUser) {
+        setFormData({
+          username: editUser.username,
+          name: editUser.name || '',
+          role: editUser.role,
+          isActive: editUser.isActive,
+          password: '',
+        });
+      } else {
+        setFormData(emptyForm);
+      }
+      setError('');
+    }
+  }, [open, editUser]);
+
+  const handleInputChange = (field: keyof UserFormData, value: any) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: value
+    }));
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.username.trim()) {
+      setError('Username is required');
+      return;
+    }
+    // Leaving the password blank keeps the current one when editing
+    if (!isEditing && !formData.password) {
+      setError('Password is required');
+      return;
+    }
+    if (formData.password && formData.password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const cleanData: UserFormData = {
+        username: formData.username.trim(),
+        name: formData.name?.trim(),
+        role: formData.role,
+        isActive: formData.isActive,
+      };
+      if (formData.password) {
+        cleanData.password = formData.password;
+      }
+
+      if (isEditing && editUser) {
+        await userAPI.update(editUser._id, cleanData);
+      } else {
+        await userAPI.create(cleanData);
+      }
+
+      onUserSaved();
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving user:', error);
+      setError(error.response?.data?.message || `Failed to ${isEditing ? 'update' : 'create'} user`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {isEditing ? 'Edit User' : 'Add New User'}
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ mt: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <TextField
+            fullWidth
+            label="Username *"
+            value={formData.username}
+            onChange={(e) => handleInputChange('username', e.target.value)}
+          />
+          <TextField
+            fullWidth
+            label="Full Name"
+            value={formData.name}
+            onChange={(e) => handleInputChange('name', e.target.value)}
+          />
+          <FormControl fullWidth>
+            <InputLabel>Role</InputLabel>
+            <Select
+              value={formData.role}
+              onChange={(e) => handleInputChange('role', e.target.value as UserRole)}
+              label="Role"
+            >
+              {(Object.keys(ROLE_LABELS) as UserRole[]).map((role) => (
+                <MenuItem key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            fullWidth
+            type="password"
+            label={isEditing ? 'New Password' : 'Password *'}
+            value={formData.password}
+            onChange={(e) => handleInputChange('password', e.target.value)}
+            helperText={isEditing ? 'Leave blank to keep the current password' : 'At least 8 characters'}
+            autoComplete="new-password"
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={Boolean(formData.isActive)}
+                onChange={(e) => handleInputChange('isActive', e.target.checked)}
+              />
+            }
+            label="Active"
+          />
+        </Box>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} disabled={loading}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          variant="contained"
+          disabled={loading}
+        >
+          {loading
+            ? (isEditing ? 'Updating...' : 'Adding...')
+            : (isEditing ? 'Update User' : 'Add User')
+          }
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AddUserModal;
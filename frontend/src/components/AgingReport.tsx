@@ -0,0 +1,242 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Alert,
+} from '@mui/material';
+import {
+  Search as SearchIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import dayjs, { Dayjs } from 'dayjs';
+import {
+  accountTypeAPI,
+  reportAPI,
+  AccountType,
+  AgingBuckets,
+  AgingReport as AgingData,
+  AgingSide,
+} from '../services/api';
+import { downloadCsv } from '../utils/exportCsv';
+
+const BUCKET_COLUMNS: { key: keyof AgingBuckets; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days1to30', label: '1–30 Days' },
+  { key: 'days31to60', label: '31–60 Days' },
+  { key: 'days61to90', label: '61–90 Days' },
+  { key: 'over90', label: '90+ Days' },
+];
+
+// Credit balances (owed by us) are shown in brackets
+const formatAmount = (amount: number) => {
+  if (Math.abs(amount) < 0.005) return '-';
+  return amount < 0
+    ? `($${Math.abs(amount).toLocaleString()})`
+    : `$${amount.toLocaleString()}`;
+};
+
+const AgingReport: React.FC = () => {
+  const [asOf, setAsOf] = useState<Dayjs | null>(dayjs());
+  const [side, setSide] = useState<AgingSide>('all');
+  const [accountType, setAccountType] = useState<string>('');
+  // As-of date and filters the aging on screen was run with
+  const [shown, setShown] = useState({ asOf, side, accountType });
+  const [accountTypes, setAccountTypes] = useState<AccountType[]>([]);
+  const [report, setReport] = useState<AgingData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    loadAccountTypes();
+  }, []);
+
+  const loadAccountTypes = async () => {
+    try {
+      const response = await accountTypeAPI.getAll();
+      setAccountTypes(response.data);
+    } catch (error) {
+      console.error('Error loading account types:', error);
+    }
+  };
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await reportAPI.getAging({
+        asOf: shown.asOf ? shown.asOf.format('YYYY-MM-DD') : undefined,
+        side: shown.side,
+        accountType: shown.accountType || undefined,
+      });
+      setReport(response.data);
+    } catch (error) {
+      console.error('Error loading aging report:', error);
+      setError('Failed to load aging report');
+    } finally {
+      setLoading(false);
+    }
+  }, [shown]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleExport = () => {
+    if (!report) return;
+
+    downloadCsv(
+      `aging-${report.side}-${report.asOf}.csv`,
+      ['Party', ...BUCKET_COLUMNS.map((column) => column.label), 'Balance'],
+      [
+        ...report.rows.map((row) => [
+          row.party.name,
+          ...BUCKET_COLUMNS.map((column) => row[column.key].toFixed(2)),
+          row.balance.toFixed(2),
+        ]),
+        [
+          'Total',
+          ...BUCKET_COLUMNS.map((column) => report.totals[column.key].toFixed(2)),
+          report.totals.balance.toFixed(2),
+        ],
+      ]
+    );
+  };
+
+  return (
+    <Box>
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+          <Box sx={{ minWidth: '200px' }}>
+            <DatePicker
+              label="As of"
+              value={asOf}
+              onChange={(date) => setAsOf(date)}
+              enableAccessibleFieldDOMStructure={false}
+              slots={{ textField: TextField }}
+              slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+            />
+          </Box>
+          <FormControl size="small" sx={{ minWidth: '180px' }}>
+            <InputLabel>Show</InputLabel>
+            <Select
+              value={side}
+              onChange={(e) => setSide(e.target.value as AgingSide)}
+              label="Show"
+            >
+              <MenuItem value="all">Receivables & Payables</MenuItem>
+              <MenuItem value="receivable">Receivables</MenuItem>
+              <MenuItem value="payable">Payables</MenuItem>
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: '200px' }}>
+            <InputLabel>Account Type</InputLabel>
+            <Select
+              value={accountType}
+              onChange={(e) => setAccountType(e.target.value)}
+              label="Account Type"
+            >
+              <MenuItem value="">All Account Types</MenuItem>
+              {accountTypes.map((type) => (
+                <MenuItem key={type._id} value={type._id}>
+                  {type.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button
+            variant="contained"
+            startIcon={<SearchIcon />}
+            onClick={() => setShown({ asOf, side, accountType })}
+            disabled={loading}
+          >
+            Generate Report
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            onClick={handleExport}
+            disabled={!report || report.rows.length === 0}
+          >
+            Export CSV
+          </Button>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <div>Loading aging report...</div>
+      ) : report && (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Party</TableCell>
+                {BUCKET_COLUMNS.map((column) => (
+                  <TableCell key={column.key} align="right">{column.label}</TableCell>
+                ))}
+                <TableCell align="right">Balance</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {report.rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={BUCKET_COLUMNS.length + 2} align="center">
+                    No outstanding party balances as of {dayjs(report.asOf).format('DD MMM YYYY')}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                report.rows.map((row) => (
+                  <TableRow key={row.party._id}>
+                    <TableCell>{row.party.name}</TableCell>
+                    {BUCKET_COLUMNS.map((column) => (
+                      <TableCell key={column.key} align="right">
+                        {formatAmount(row[column.key])}
+                      </TableCell>
+                    ))}
+                    <TableCell align="right">
+                      <Typography fontWeight="bold">{formatAmount(row.balance)}</Typography>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+              <TableRow>
+                <TableCell>
+                  <Typography fontWeight="bold">Total</Typography>
+                </TableCell>
+                {BUCKET_COLUMNS.map((column) => (
+                  <TableCell key={column.key} align="right">
+                    <Typography fontWeight="bold">{formatAmount(report.totals[column.key])}</Typography>
+                  </TableCell>
+                ))}
+                <TableCell align="right">
+                  <Typography fontWeight="bold">{formatAmount(report.totals.balance)}</Typography>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+};
+
+export default AgingReport;
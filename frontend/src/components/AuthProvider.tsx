@@ -0,0 +1,73 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { authAPI, authToken, User } from '../services/api';
+
+interface AuthContextValue {
+  user: User | null;
+  loading: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => void;
+  // Post and edit entries, accounts and parties
+  canWrite: boolean;
+  // Change account types and manage users
+  isAdmin: boolean;
+  // Read the audit trail
+  canViewAudit: boolean;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    const loadUser = async () => {
+      if (!authToken.get()) {
+        setLoading(false);
+        return;
+      }
+      try {
+        const response = await authAPI.me();
+        setUser(response.data);
+      } catch (error) {
+        console.error('Error restoring session:', error);
+        authToken.clear();
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadUser();
+  }, []);
+
+  const login = async (username: string, password: string) => {
+    const response = await authAPI.login(username, password);
+    authToken.set(response.data.token);
+    setUser(response.data.user);
+  };
+
+  const logout = () => {
+    authToken.clear();
+    setUser(null);
+  };
+
+  const value: AuthContextValue = {
+    user,
+    loading,
+    login,
+    logout,
+    canWrite: user?.role === 'admin' || user?.role === 'accountant',
+    isAdmin: user?.role === 'admin',
+    canViewAudit: user?.role === 'admin' || user?.role === 'accountant',
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside AuthProvider');
+  }
+  return context;
+};
@@ -0,0 +1,167 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Alert,
+  Chip,
+} from '@mui/material';
+import {
+  Search as SearchIcon,
+  Print as PrintIcon,
+} from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import dayjs, { Dayjs } from 'dayjs';
+import { reportAPI, BalanceSheet } from '../services/api';
+import StatementSectionRows, { formatStatementAmount } from './StatementSectionRows';
+
+const formatDate = (date: string) => dayjs(date).format('DD MMM YYYY');
+
+const BalanceSheetReport: React.FC = () => {
+  const [asOf, setAsOf] = useState<Dayjs | null>(dayjs());
+  const [compareAsOf, setCompareAsOf] = useState<Dayjs | null>(dayjs().subtract(1, 'year'));
+  // Dates on screen; Generate Report applies the pickers
+  const [shown, setShown] = useState({ asOf, compareAsOf });
+  const [balanceSheet, setBalanceSheet] = useState<BalanceSheet | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const loadBalanceSheet = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await reportAPI.getBalanceSheet(
+        shown.asOf ? shown.asOf.format('YYYY-MM-DD') : undefined,
+        shown.compareAsOf ? shown.compareAsOf.format('YYYY-MM-DD') : undefined
+      );
+      setBalanceSheet(response.data);
+    } catch (error) {
+      console.error('Error loading balance sheet:', error);
+      setError('Failed to load balance sheet');
+    } finally {
+      setLoading(false);
+    }
+  }, [shown]);
+
+  useEffect(() => {
+    loadBalanceSheet();
+  }, [loadBalanceSheet]);
+
+  return (
+    <Box>
+      <Paper sx={{ p: 3, mb: 3, displayPrint: 'none' }}>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+          <Box sx={{ minWidth: '200px' }}>
+            <DatePicker
+              label="As of"
+              value={asOf}
+              onChange={(date) => setAsOf(date)}
+              enableAccessibleFieldDOMStructure={false}
+              slots={{ textField: TextField }}
+              slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+            />
+          </Box>
+          <Box sx={{ minWidth: '200px' }}>
+            <DatePicker
+              label="Compare with"
+              value={compareAsOf}
+              onChange={(date) => setCompareAsOf(date)}
+              enableAccessibleFieldDOMStructure={false}
+              slots={{ textField: TextField }}
+              slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+            />
+          </Box>
+          <Button
+            variant="contained"
+            startIcon={<SearchIcon />}
+            onClick={() => setShown({ asOf, compareAsOf })}
+            disabled={loading}
+          >
+            Generate Report
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<PrintIcon />}
+            onClick={() => window.print()}
+            disabled={!balanceSheet}
+          >
+            Print
+          </Button>
+          {balanceSheet && !balanceSheet.isBalanced && (
+            <Chip label="Out of balance" color="error" />
+          )}
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <div>Loading balance sheet...</div>
+      ) : balanceSheet && (
+        <Paper sx={{ p: 3 }}>
+          <Box sx={{ textAlign: 'center', mb: 2 }}>
+            <Typography variant="h5">Balance Sheet</Typography>
+            <Typography color="textSecondary">
+              As of {formatDate(balanceSheet.asOf)}
+            </Typography>
+          </Box>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Account</TableCell>
+                  <TableCell align="right">{formatDate(balanceSheet.asOf)}</TableCell>
+                  <TableCell align="right">{formatDate(balanceSheet.previousAsOf)}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                <StatementSectionRows title="Assets" section={balanceSheet.assets} />
+                <StatementSectionRows title="Liabilities" section={balanceSheet.liabilities} />
+                <StatementSectionRows
+                  title="Equity"
+                  section={balanceSheet.equity}
+                  extraLines={[
+                    {
+                      label: 'Net profit to date',
+                      amount: balanceSheet.netProfit,
+                      previousAmount: balanceSheet.previousNetProfit,
+                    },
+                  ]}
+                />
+                <TableRow>
+                  <TableCell>
+                    <Typography variant="h6">Total Liabilities & Equity</Typography>
+                  </TableCell>
+                  <TableCell align="right">
+                    <Typography variant="h6">
+                      {formatStatementAmount(balanceSheet.totalLiabilitiesAndEquity)}
+                    </Typography>
+                  </TableCell>
+                  <TableCell align="right">
+                    <Typography variant="h6">
+                      {formatStatementAmount(balanceSheet.previousTotalLiabilitiesAndEquity)}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default BalanceSheetReport;
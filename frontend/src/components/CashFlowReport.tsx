@@ -0,0 +1,217 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Alert,
+} from '@mui/material';
+import { Search as SearchIcon } from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { BarChart } from '@mui/x-charts/BarChart';
+import dayjs, { Dayjs } from 'dayjs';
+import { reportAPI, CashFlowReport as CashFlowData, CashFlowInterval, CashFlowItem } from '../services/api';
+
+const formatAmount = (amount: number) =>
+  amount < 0
+    ? `($${Math.abs(amount).toLocaleString()})`
+    : `$${amount.toLocaleString()}`;
+
+const CashFlowReport: React.FC = () => {
+  const [startDate, setStartDate] = useState<Dayjs | null>(dayjs().subtract(5, 'month').startOf('month'));
+  const [endDate, setEndDate] = useState<Dayjs | null>(dayjs());
+  const [interval, setInterval] = useState<CashFlowInterval>('month');
+  // Settings behind the figures on screen, applied by Generate Report
+  const [shown, setShown] = useState({ startDate, endDate, interval });
+  const [report, setReport] = useState<CashFlowData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const loadReport = useCallback(async () => {
+    if (!shown.startDate || !shown.endDate) {
+      setError('Select both a start and an end date');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      const response = await reportAPI.getCashFlow({
+        from: shown.startDate.format('YYYY-MM-DD'),
+        to: shown.endDate.format('YYYY-MM-DD'),
+        interval: shown.interval,
+      });
+      setReport(response.data);
+    } catch (error) {
+      console.error('Error loading cash flow:', error);
+      setError('Failed to load cash flow');
+    } finally {
+      setLoading(false);
+    }
+  }, [shown]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const periodLabel = (start: string) =>
+    shown.interval === 'week'
+      ? `Week of ${dayjs(start).format('DD MMM')}`
+      : dayjs(start).format('MMM YYYY');
+
+  const renderFlows = (label: string, items: CashFlowItem[], total: number) => (
+    <>
+      <TableRow>
+        <TableCell colSpan={2}>
+          <Typography variant="subtitle2">{label}</Typography>
+        </TableCell>
+      </TableRow>
+      {items.map((item) => (
+        <TableRow key={item.account._id}>
+          <TableCell sx={{ pl: 4 }}>{item.account.name}</TableCell>
+          <TableCell align="right">{formatAmount(item.amount)}</TableCell>
+        </TableRow>
+      ))}
+      <TableRow>
+        <TableCell sx={{ pl: 2 }}>Total {label.toLowerCase()}</TableCell>
+        <TableCell align="right">{formatAmount(total)}</TableCell>
+      </TableRow>
+    </>
+  );
+
+  return (
+    <Box>
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+          <Box sx={{ minWidth: '200px' }}>
+            <DatePicker
+              label="Start Date"
+              value={startDate}
+              onChange={(date) => setStartDate(date)}
+              enableAccessibleFieldDOMStructure={false}
+              slots={{ textField: TextField }}
+              slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+            />
+          </Box>
+          <Box sx={{ minWidth: '200px' }}>
+            <DatePicker
+              label="End Date"
+              value={endDate}
+              onChange={(date) => setEndDate(date)}
+              enableAccessibleFieldDOMStructure={false}
+              slots={{ textField: TextField }}
+              slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+            />
+          </Box>
+          <FormControl size="small" sx={{ minWidth: '160px' }}>
+            <InputLabel>Group By</InputLabel>
+            <Select
+              value={interval}
+              onChange={(e) => setInterval(e.target.value as CashFlowInterval)}
+              label="Group By"
+            >
+              <MenuItem value="month">Month</MenuItem>
+              <MenuItem value="week">Week</MenuItem>
+            </Select>
+          </FormControl>
+          <Button
+            variant="contained"
+            startIcon={<SearchIcon />}
+            onClick={() => setShown({ startDate, endDate, interval })}
+            disabled={loading}
+          >
+            Generate Report
+          </Button>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <div>Loading cash flow...</div>
+      ) : report && (
+        <>
+          {report.accounts.length === 0 && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              No owner accounts found. Mark your bank and cash accounts as "my own account" to see their cash flow.
+            </Alert>
+          )}
+
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Cash In vs Cash Out
+            </Typography>
+            <BarChart
+              height={300}
+              xAxis={[{ scaleType: 'band', data: report.periods.map((p) => periodLabel(p.start)) }]}
+              series={[
+                { label: 'Inflows', data: report.periods.map((p) => p.totalInflow), color: '#2e7d32' },
+                { label: 'Outflows', data: report.periods.map((p) => p.totalOutflow), color: '#d32f2f' },
+                { label: 'Closing Cash', data: report.periods.map((p) => p.closingCash), color: '#1976d2' },
+              ]}
+            />
+          </Paper>
+
+          {report.periods.map((period) => (
+            <Paper key={period.start} sx={{ mb: 2 }}>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>
+                        <Typography fontWeight="bold">{periodLabel(period.start)}</Typography>
+                        <Typography variant="caption" color="textSecondary">
+                          {dayjs(period.start).format('DD MMM YYYY')} – {dayjs(period.end).format('DD MMM YYYY')}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">Amount</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    <TableRow>
+                      <TableCell>
+                        <Typography fontWeight="bold">Opening Cash</Typography>
+                      </TableCell>
+                      <TableCell align="right">{formatAmount(period.openingCash)}</TableCell>
+                    </TableRow>
+                    {renderFlows('Inflows', period.inflows, period.totalInflow)}
+                    {renderFlows('Outflows', period.outflows, period.totalOutflow)}
+                    <TableRow>
+                      <TableCell>Net Change</TableCell>
+                      <TableCell align="right">{formatAmount(period.netChange)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>
+                        <Typography fontWeight="bold">Closing Cash</Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Typography fontWeight="bold">{formatAmount(period.closingCash)}</Typography>
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+          ))}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default CashFlowReport;
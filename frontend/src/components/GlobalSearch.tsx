@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Autocomplete, Box, InputAdornment, TextField, Typography } from '@mui/material';
+import { Search as SearchIcon } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { searchAPI, SearchResults } from '../services/api';
+
+// Shortest text worth sending, and how long typing has to pause before searching
+const MIN_QUERY_LENGTH = 2;
+const SEARCH_DELAY_MS = 300;
+
+interface SearchOption {
+  key: string;
+  group: string;
+  primary: string;
+  secondary: string;
+  path: string;
+}
+
+// One list of options for the dropdown, keeping the server's grouping and ranking
+const toOptions = (results: SearchResults): SearchOption[] => [
+  ...results.transactions.map((hit) => ({
+    key: `transaction-${hit._id}`,
+    group: 'Transactions',
+    primary: `#${hit.transactionId}${hit.voucherNo ? ` · ${hit.voucherNo}` : ''} – $${hit.amount.toLocaleString()}`,
+    secondary: [dayjs(hit.date).format('DD MMM YYYY'), hit.status === 'cancelled' ? 'Voided' : '', hit.description]
+      .filter(Boolean)
+      .join(' · '),
+    path: `/transactions/${hit._id}/voucher`,
+  })),
+  ...results.accounts.map((hit) => ({
+    key: `account-${hit._id}`,
+    group: 'Accounts',
+    primary: hit.name,
+    secondary: [hit.accountNo, hit.typeName, hit.isArchived ? 'Archived' : ''].filter(Boolean).join(' · '),
+    path: `/reports?account=${hit._id}`,
+  })),
+  ...results.parties.map((hit) => ({
+    key: `party-${hit._id}`,
+    group: 'Parties',
+    primary: hit.name,
+    secondary: hit.contact || '',
+    path: `/parties/${hit._id}/statement`,
+  })),
+];
+
+const GlobalSearch: React.FC = () => {
+  const navigate = useNavigate();
+  const [inputValue, setInputValue] = useState<string>('');
+  const [options, setOptions] = useState<SearchOption[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  useEffect(() => {
+    const query = inputValue.trim();
+    if (query.length < MIN_QUERY_LENGTH) {
+      setOptions([]);
+      setLoading(false);
+      return;
+    }
+
+    // Drop answers to queries the user has already typed past
+    let stale = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await searchAPI.search(query);
+        if (!stale) setOptions(toOptions(response.data));
+      } catch (error) {
+        console.error('Error searching:', error);
+        if (!stale) setOptions([]);
+      } finally {
+        if (!stale) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [inputValue]);
+
+  return (
+    <Autocomplete<SearchOption, false, false, true>
+      freeSolo
+      autoHighlight
+      size="small"
+      options={options}
+      groupBy={(option) => option.group}
+      getOptionLabel={(option) => (typeof option === 'string' ? option : option.primary)}
+      filterOptions={(items) => items}
+      value={null}
+      inputValue={inputValue}
+      onInputChange={(_, value, reason) => {
+        if (reason !== 'reset') setInputValue(value);
+      }}
+      onChange={(_, option) => {
+        if (option && typeof option !== 'string') {
+          setInputValue('');
+          navigate(option.path);
+        }
+      }}
+      loading={loading}
+      noOptionsText={inputValue.trim().length < MIN_QUERY_LENGTH ? 'Type to search' : 'No matches'}
+      slotProps={{ popper: { placement: 'bottom-start', sx: { minWidth: 360 } } }}
+      renderOption={(props, option) => {
+        const { key, ...optionProps } = props;
+        return (
+          <Box component="li" key={option.key} {...optionProps}>
+            <Box sx={{ minWidth: 0 }}>
+              <Typography variant="body2" noWrap>
+                {option.primary}
+              </Typography>
+              {option.secondary && (
+                <Typography variant="caption" color="textSecondary" noWrap component="div">
+                  {option.secondary}
+                </Typography>
+              )}
+            </Box>
+          </Box>
+        );
+      }}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          placeholder="Search..."
+          InputProps={{
+            ...params.InputProps,
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon fontSize="small" />
+              </InputAdornment>
+            ),
+          }}
+        />
+      )}
+    />
+  );
+};
+
+export default GlobalSearch;
@@ -0,0 +1,163 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Alert,
+} from '@mui/material';
+import {
+  Search as SearchIcon,
+  Print as PrintIcon,
+} from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import dayjs, { Dayjs } from 'dayjs';
+import { reportAPI, IncomeStatement } from '../services/api';
+import StatementSectionRows, { formatStatementAmount } from './StatementSectionRows';
+
+const formatPeriod = (from: string, to: string) =>
+  `${dayjs(from).format('DD MMM YYYY')} – ${dayjs(to).format('DD MMM YYYY')}`;
+
+const IncomeStatementReport: React.FC = () => {
+  const [startDate, setStartDate] = useState<Dayjs | null>(dayjs().startOf('month'));
+  const [endDate, setEndDate] = useState<Dayjs | null>(dayjs());
+  // Period on screen; Generate Report applies the pickers
+  const [shown, setShown] = useState({ startDate, endDate });
+  const [statement, setStatement] = useState<IncomeStatement | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const loadStatement = useCallback(async () => {
+    if (!shown.startDate || !shown.endDate) {
+      setError('Select both a start and an end date');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      const response = await reportAPI.getIncomeStatement({
+        from: shown.startDate.format('YYYY-MM-DD'),
+        to: shown.endDate.format('YYYY-MM-DD'),
+      });
+      setStatement(response.data);
+    } catch (error) {
+      console.error('Error loading income statement:', error);
+      setError('Failed to load income statement');
+    } finally {
+      setLoading(false);
+    }
+  }, [shown]);
+
+  useEffect(() => {
+    loadStatement();
+  }, [loadStatement]);
+
+  return (
+    <Box>
+      <Paper sx={{ p: 3, mb: 3, displayPrint: 'none' }}>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+          <Box sx={{ minWidth: '200px' }}>
+            <DatePicker
+              label="Start Date"
+              value={startDate}
+              onChange={(date) => setStartDate(date)}
+              enableAccessibleFieldDOMStructure={false}
+              slots={{ textField: TextField }}
+              slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+            />
+          </Box>
+          <Box sx={{ minWidth: '200px' }}>
+            <DatePicker
+              label="End Date"
+              value={endDate}
+              onChange={(date) => setEndDate(date)}
+              enableAccessibleFieldDOMStructure={false}
+              slots={{ textField: TextField }}
+              slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+            />
+          </Box>
+          <Button
+            variant="contained"
+            startIcon={<SearchIcon />}
+            onClick={() => setShown({ startDate, endDate })}
+            disabled={loading}
+          >
+            Generate Report
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<PrintIcon />}
+            onClick={() => window.print()}
+            disabled={!statement}
+          >
+            Print
+          </Button>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <div>Loading income statement...</div>
+      ) : statement && (
+        <Paper sx={{ p: 3 }}>
+          <Box sx={{ textAlign: 'center', mb: 2 }}>
+            <Typography variant="h5">Income Statement</Typography>
+            <Typography color="textSecondary">
+              For the period {formatPeriod(statement.from, statement.to)}
+            </Typography>
+          </Box>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Account</TableCell>
+                  <TableCell align="right">{formatPeriod(statement.from, statement.to)}</TableCell>
+                  <TableCell align="right">{formatPeriod(statement.previousFrom, statement.previousTo)}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                <StatementSectionRows title="Income" section={statement.income} />
+                <StatementSectionRows title="Expenses" section={statement.expenses} />
+                <TableRow>
+                  <TableCell>
+                    <Typography variant="h6">
+                      {statement.netProfit < 0 ? 'Net Loss' : 'Net Profit'}
+                    </Typography>
+                  </TableCell>
+                  <TableCell align="right">
+                    <Typography
+                      variant="h6"
+                      color={statement.netProfit < 0 ? 'error.main' : 'success.main'}
+                    >
+                      {formatStatementAmount(statement.netProfit)}
+                    </Typography>
+                  </TableCell>
+                  <TableCell align="right">
+                    <Typography variant="h6">
+                      {formatStatementAmount(statement.previousNetProfit)}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default IncomeStatementReport;
@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Alert,
+  FormControlLabel,
+  Checkbox,
+  Typography,
+} from '@mui/material';
+import { templateAPI } from '../services/api';
+import { DetailLine, fromDetailLines, toNumber } from './TransactionLinesEditor';
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  onClose: () => void;
+  lines: DetailLine[];
+  defaultName?: string;
+  onSaved?: () => void;
+}
+
+const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({
+  open,
+  onClose,
+  lines,
+  defaultName = '',
+  onSaved,
+}) => {
+  const [name, setName] = useState<string>('');
+  const [keepAmounts, setKeepAmounts] = useState<boolean>(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName);
+      setKeepAmounts(true);
+      setError('');
+    }
+  }, [open, defaultName]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Template name is required');
+      return;
+    }
+    const missingAccount = lines.findIndex((line) => !line.account);
+    if (missingAccount >= 0) {
+      setError(`Row ${missingAccount + 1}: Account is required`);
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      await templateAPI.create({
+        name: name.trim(),
+        details: fromDetailLines(lines).map((detail, index) => ({
+          ...detail,
+          amount: keepAmounts && toNumber(lines[index].amountStr) > 0 ? detail.amount : undefined,
+        })),
+      });
+      onSaved?.();
+      onClose();
+    } catch (err: any) {
+      console.error('Error saving template:', err);
+      setError(err?.response?.data?.message || 'Failed to save template');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Save as Template</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+          The template keeps the {lines.length} line(s) with their accounts, parties,
+          descriptions and sides.
+        </Typography>
+        <TextField
+          label="Template Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          fullWidth
+          autoFocus
+          required
+        />
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={keepAmounts}
+              onChange={(e) => setKeepAmounts(e.target.checked)}
+            />
+          }
+          label="Save amounts as defaults"
+          sx={{ mt: 1 }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={loading}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} variant="contained" disabled={loading}>
+          {loading ? 'Saving...' : 'Save Template'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SaveTemplateDialog;
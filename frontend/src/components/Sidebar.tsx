@@ -10,13 +10,28 @@ import {
   Toolbar,
   Typography,
   Divider,
+  Box,
+  Button,
 } from '@mui/material';
 import {
   Dashboard as DashboardIcon,
   AccountBalance as AccountIcon,
   SwapHoriz as TransactionIcon,
   Assessment as ReportIcon,
+  People as PartyIcon,
+  ManageAccounts as UsersIcon,
+  FactCheck as AuditIcon,
+  EventBusy as PeriodIcon,
+  EventRepeat as RecurringIcon,
+  Bookmarks as TemplateIcon,
+  UploadFile as ImportIcon,
+  PlaylistAddCheck as ReconcileIcon,
+  Numbers as NumberingIcon,
+  Logout as LogoutIcon,
 } from '@mui/icons-material';
+import { useAuth } from './AuthProvider';
+import GlobalSearch from './GlobalSearch';
+import { ROLE_LABELS } from '../services/api';
 
 const drawerWidth = 220;
 
@@ -24,18 +39,32 @@ interface MenuItem {
   text: string;
   icon: React.ReactNode;
   path: string;
+  visibleTo?: 'admin' | 'audit' | 'write';
 }
 
 const menuItems: MenuItem[] = [
   { text: 'Dashboard', icon: <DashboardIcon />, path: '/' },
   { text: 'Transactions', icon: <TransactionIcon />, path: '/transactions' },
+  { text: 'Recurring', icon: <RecurringIcon />, path: '/recurring' },
+  { text: 'Templates', icon: <TemplateIcon />, path: '/templates' },
+  { text: 'Bank Import', icon: <ImportIcon />, path: '/bank-import', visibleTo: 'write' },
+  { text: 'Reconciliation', icon: <ReconcileIcon />, path: '/reconciliations' },
   { text: 'Accounts', icon: <AccountIcon />, path: '/accounts' },
+  { text: 'Parties', icon: <PartyIcon />, path: '/parties' },
   { text: 'Reports', icon: <ReportIcon />, path: '/reports' },
+  { text: 'Fiscal Periods', icon: <PeriodIcon />, path: '/periods' },
+  { text: 'Voucher Numbering', icon: <NumberingIcon />, path: '/voucher-numbering' },
+  { text: 'Audit Trail', icon: <AuditIcon />, path: '/audit', visibleTo: 'audit' },
+  { text: 'Users', icon: <UsersIcon />, path: '/users', visibleTo: 'admin' },
 ];
 
 const Sidebar: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { user, isAdmin, canWrite, canViewAudit, logout } = useAuth();
+
+  const visibility = { admin: isAdmin, audit: canViewAudit, write: canWrite };
+  const isVisible = (item: MenuItem) => !item.visibleTo || visibility[item.visibleTo];
 
   return (
     <Drawer
@@ -43,6 +72,7 @@ const Sidebar: React.FC = () => {
       sx={{
         width: drawerWidth,
         flexShrink: 0,
+        displayPrint: 'none',
         '& .MuiDrawer-paper': {
           width: drawerWidth,
           boxSizing: 'border-box',
@@ -55,8 +85,11 @@ const Sidebar: React.FC = () => {
         </Typography>
       </Toolbar>
       <Divider />
+      <Box sx={{ px: 1.5, pt: 1.5 }}>
+        <GlobalSearch />
+      </Box>
       <List>
-        {menuItems.map((item) => (
+        {menuItems.filter(isVisible).map((item) => (
           <ListItem key={item.text} disablePadding>
             <ListItemButton
               selected={location.pathname === item.path}
@@ -68,6 +101,25 @@ const Sidebar: React.FC = () => {
           </ListItem>
         ))}
       </List>
+      <Box sx={{ mt: 'auto', p: 2 }}>
+        <Divider sx={{ mb: 2 }} />
+        <Typography variant="subtitle2" noWrap>
+          {user?.name || user?.username}
+        </Typography>
+        <Typography variant="body2" color="textSecondary" gutterBottom>
+          {user ? ROLE_LABELS[user.role] : ''}
+        </Typography>
+        <Button
+          size="small"
+          startIcon={<LogoutIcon />}
+          onClick={() => {
+            logout();
+            navigate('/login');
+          }}
+        >
+          Log Out
+        </Button>
+      </Box>
     </Drawer>
   );
 };
@@ -0,0 +1,93 @@
+import React from 'react';
+import {
+  TableRow,
+  TableCell,
+  Typography,
+} from '@mui/material';
+import { StatementSection } from '../services/api';
+
+// Negative statement amounts are shown in brackets
+export const formatStatementAmount = (amount: number) =>
+  amount < 0
+    ? `($${Math.abs(amount).toLocaleString()})`
+    : `$${amount.toLocaleString()}`;
+
+interface ExtraLine {
+  label: string;
+  amount: number;
+  previousAmount: number;
+}
+
+interface StatementSectionRowsProps {
+  title: string;
+  section: StatementSection;
+  /** Lines that are not accounts, e.g. earnings carried into equity; included in the total */
+  extraLines?: ExtraLine[];
+}
+
+const StatementSectionRows: React.FC<StatementSectionRowsProps> = ({ title, section, extraLines = [] }) => {
+  const total = extraLines.reduce((sum, line) => sum + line.amount, section.total);
+  const previousTotal = extraLines.reduce((sum, line) => sum + line.previousAmount, section.previousTotal);
+
+  return (
+    <>
+      <TableRow sx={{ bgcolor: 'action.hover' }}>
+        <TableCell colSpan={3}>
+          <Typography fontWeight="bold">{title}</Typography>
+        </TableCell>
+      </TableRow>
+      {section.groups.length === 0 && extraLines.length === 0 && (
+        <TableRow>
+          <TableCell colSpan={3}>
+            <Typography variant="body2" color="textSecondary">
+              No {title.toLowerCase()} accounts
+            </Typography>
+          </TableCell>
+        </TableRow>
+      )}
+      {section.groups.map((group) => (
+        <React.Fragment key={group.type._id}>
+          <TableRow>
+            <TableCell colSpan={3} sx={{ pl: 3 }}>
+              <Typography variant="subtitle2">{group.type.name}</Typography>
+            </TableCell>
+          </TableRow>
+          {group.accounts.map((line) => (
+            <TableRow key={line.account._id}>
+              <TableCell sx={{ pl: 5 }}>{line.account.name}</TableCell>
+              <TableCell align="right">{formatStatementAmount(line.amount)}</TableCell>
+              <TableCell align="right">{formatStatementAmount(line.previousAmount)}</TableCell>
+            </TableRow>
+          ))}
+          {section.groups.length > 1 && (
+            <TableRow>
+              <TableCell sx={{ pl: 3 }}>Total {group.type.name}</TableCell>
+              <TableCell align="right">{formatStatementAmount(group.total)}</TableCell>
+              <TableCell align="right">{formatStatementAmount(group.previousTotal)}</TableCell>
+            </TableRow>
+          )}
+        </React.Fragment>
+      ))}
+      {extraLines.map((line) => (
+        <TableRow key={line.label}>
+          <TableCell sx={{ pl: 3 }}>{line.label}</TableCell>
+          <TableCell align="right">{formatStatementAmount(line.amount)}</TableCell>
+          <TableCell align="right">{formatStatementAmount(line.previousAmount)}</TableCell>
+        </TableRow>
+      ))}
+      <TableRow>
+        <TableCell>
+          <Typography fontWeight="bold">Total {title}</Typography>
+        </TableCell>
+        <TableCell align="right">
+          <Typography fontWeight="bold">{formatStatementAmount(total)}</Typography>
+        </TableCell>
+        <TableCell align="right">
+          <Typography fontWeight="bold">{formatStatementAmount(previousTotal)}</Typography>
+        </TableCell>
+      </TableRow>
+    </>
+  );
+};
+
+export default StatementSectionRows;
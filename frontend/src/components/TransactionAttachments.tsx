@@ -0,0 +1,267 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Paper,
+  Tooltip,
+} from '@mui/material';
+import {
+  AttachFile as AttachFileIcon,
+  Download as DownloadIcon,
+  Delete as DeleteIcon,
+  PictureAsPdf as PdfIcon,
+} from '@mui/icons-material';
+import { attachmentAPI, Attachment } from '../services/api';
+import { downloadBlob } from '../utils/download';
+
+// Same limits as the server, checked here to save a pointless upload
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const ACCEPTED_TYPES = 'image/jpeg,image/png,image/gif,image/webp,application/pdf';
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const isImage = (attachment: Attachment) => attachment.mimeType.startsWith('image/');
+
+interface TransactionAttachmentsProps {
+  transactionId: string;
+  attachments: Attachment[];
+  canEdit: boolean;
+  onChange: (attachments: Attachment[]) => void;
+}
+
+const TransactionAttachments: React.FC<TransactionAttachmentsProps> = ({
+  transactionId,
+  attachments,
+  canEdit,
+  onChange,
+}) => {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [uploading, setUploading] = useState<boolean>(false);
+  const [deleting, setDeleting] = useState<boolean>(false);
+  const [attachmentToDelete, setAttachmentToDelete] = useState<Attachment | null>(null);
+  const [error, setError] = useState<string>('');
+  const fileInput = useRef<HTMLInputElement>(null);
+  const thumbnailUrls = useRef<Record<string, string>>({});
+
+  // Fetch images not shown yet; files need the login token, so they come in as blobs.
+  // Downloads still running when the list changes or the row closes are dropped.
+  useEffect(() => {
+    let cancelled = false;
+    attachments.filter((attachment) => isImage(attachment) && !thumbnailUrls.current[attachment._id]).forEach(async (attachment) => {
+      try {
+        const response = await attachmentAPI.download(transactionId, attachment._id);
+        if (cancelled) return;
+        thumbnailUrls.current[attachment._id] = URL.createObjectURL(response.data);
+        setThumbnails({ ...thumbnailUrls.current });
+      } catch (error) {
+        console.error('Error loading attachment preview:', error);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [transactionId, attachments]);
+
+  // Release the previews when the row is collapsed; a remount fetches them again
+  useEffect(() => {
+    const urls = thumbnailUrls.current;
+    return () => {
+      Object.keys(urls).forEach((id) => {
+        URL.revokeObjectURL(urls[id]);
+        delete urls[id];
+      });
+      setThumbnails({});
+    };
+  }, []);
+
+  const releaseThumbnail = (attachmentId: string) => {
+    const url = thumbnailUrls.current[attachmentId];
+    if (!url) return;
+    URL.revokeObjectURL(url);
+    delete thumbnailUrls.current[attachmentId];
+    setThumbnails({ ...thumbnailUrls.current });
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError('');
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      setError('Attachments must be 10 MB or smaller');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const response = await attachmentAPI.upload(transactionId, file);
+      onChange([...attachments, response.data]);
+    } catch (error: any) {
+      console.error('Error uploading attachment:', error);
+      setError(error.response?.data?.message || 'Failed to upload attachment');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Open in a new tab, reusing the preview for images
+  const handleOpen = async (attachment: Attachment) => {
+    if (thumbnails[attachment._id]) {
+      window.open(thumbnails[attachment._id], '_blank');
+      return;
+    }
+    try {
+      const response = await attachmentAPI.download(transactionId, attachment._id);
+      const url = URL.createObjectURL(response.data);
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+      setError('Failed to open attachment');
+    }
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      const response = await attachmentAPI.download(transactionId, attachment._id);
+      downloadBlob(attachment.fileName, response.data);
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      setError('Failed to download attachment');
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!attachmentToDelete) return;
+
+    setDeleting(true);
+    try {
+      await attachmentAPI.delete(transactionId, attachmentToDelete._id);
+      releaseThumbnail(attachmentToDelete._id);
+      onChange(attachments.filter((attachment) => attachment._id !== attachmentToDelete._id));
+      setAttachmentToDelete(null);
+    } catch (error: any) {
+      console.error('Error deleting attachment:', error);
+      setError(error.response?.data?.message || 'Failed to delete attachment');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="subtitle1">Attachments</Typography>
+        {canEdit && (
+          <>
+            <input ref={fileInput} type="file" accept={ACCEPTED_TYPES} hidden onChange={handleFileSelected} />
+            <Button
+              size="small"
+              startIcon={<AttachFileIcon />}
+              onClick={() => fileInput.current?.click()}
+              disabled={uploading}
+            >
+              {uploading ? 'Uploading...' : 'Attach File'}
+            </Button>
+          </>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 1 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {attachments.length === 0 ? (
+        <Typography variant="body2" color="textSecondary">
+          No attachments
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+          {attachments.map((attachment) => (
+            <Paper key={attachment._id} variant="outlined" sx={{ width: 160, p: 1 }}>
+              <Box
+                onClick={() => handleOpen(attachment)}
+                sx={{
+                  height: 100,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  cursor: 'pointer',
+                  bgcolor: 'grey.100',
+                  overflow: 'hidden',
+                }}
+              >
+                {isImage(attachment) ? (
+                  thumbnails[attachment._id] && (
+                    <img
+                      src={thumbnails[attachment._id]}
+                      alt={attachment.fileName}
+                      style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }}
+                    />
+                  )
+                ) : (
+                  <PdfIcon color="error" sx={{ fontSize: 48 }} />
+                )}
+              </Box>
+              <Tooltip title={attachment.fileName}>
+                <Typography variant="body2" noWrap sx={{ mt: 1 }}>
+                  {attachment.fileName}
+                </Typography>
+              </Tooltip>
+              <Box display="flex" justifyContent="space-between" alignItems="center">
+                <Typography variant="caption" color="textSecondary">
+                  {formatSize(attachment.size)}
+                </Typography>
+                <Box>
+                  <IconButton size="small" onClick={() => handleDownload(attachment)} title="Download">
+                    <DownloadIcon fontSize="small" />
+                  </IconButton>
+                  {canEdit && (
+                    <IconButton
+                      size="small"
+                      color="error"
+                      onClick={() => setAttachmentToDelete(attachment)}
+                      title="Delete Attachment"
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  )}
+                </Box>
+              </Box>
+            </Paper>
+          ))}
+        </Box>
+      )}
+
+      <Dialog open={Boolean(attachmentToDelete)} onClose={() => setAttachmentToDelete(null)}>
+        <DialogTitle>Delete Attachment</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Delete "{attachmentToDelete?.fileName}"? The file will be removed permanently.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAttachmentToDelete(null)} disabled={deleting}>
+            Cancel
+          </Button>
+          <Button onClick={handleDeleteConfirm} color="error" variant="contained" disabled={deleting}>
+            {deleting ? 'Deleting...' : 'Delete'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default TransactionAttachments;
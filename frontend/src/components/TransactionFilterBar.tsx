@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  TextField,
+} from '@mui/material';
+import { FilterList as FilterIcon, Clear as ClearIcon } from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import dayjs from 'dayjs';
+import {
+  accountAPI,
+  accountTypeAPI,
+  transactionAPI,
+  Account,
+  AccountType,
+  TransactionCreator,
+  TransactionFilters,
+  VoucherType,
+  VOUCHER_TYPE_LABELS,
+} from '../services/api';
+
+// Query string keys the filter bar owns; sorting and paging live alongside them
+export const FILTER_KEYS: (keyof TransactionFilters)[] = [
+  'description',
+  'accountId',
+  'accountType',
+  'ownerOnly',
+  'side',
+  'minAmount',
+  'maxAmount',
+  'startDate',
+  'endDate',
+  'status',
+  'voucherType',
+  'createdBy',
+];
+
+// Filters currently in the URL; the server rejects any value that is not valid
+export const readFilters = (searchParams: URLSearchParams): TransactionFilters =>
+  Object.fromEntries(
+    FILTER_KEYS.filter((key) => searchParams.get(key)).map((key) => [key, searchParams.get(key)])
+  ) as TransactionFilters;
+
+const STATUS_LABELS: Record<NonNullable<TransactionFilters['status']>, string> = {
+  completed: 'Completed',
+  pending: 'Pending',
+  cancelled: 'Voided',
+};
+
+interface TransactionFilterBarProps {
+  filters: TransactionFilters;
+  onApply: (filters: TransactionFilters) => void;
+}
+
+const TransactionFilterBar: React.FC<TransactionFilterBarProps> = ({ filters, onApply }) => {
+  const [draft, setDraft] = useState<TransactionFilters>(filters);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountTypes, setAccountTypes] = useState<AccountType[]>([]);
+  const [creators, setCreators] = useState<TransactionCreator[]>([]);
+
+  useEffect(() => {
+    loadOptions();
+  }, []);
+
+  // Follow the URL when it changes from outside, e.g. the browser's back button
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const loadOptions = async () => {
+    try {
+      const [accountsResponse, typesResponse, creatorsResponse] = await Promise.all([
+        accountAPI.getAll('all'),
+        accountTypeAPI.getAll('all'),
+        transactionAPI.getCreators(),
+      ]);
+      setAccounts(accountsResponse.data);
+      setAccountTypes(typesResponse.data);
+      setCreators(creatorsResponse.data);
+    } catch (error) {
+      console.error('Error loading filter options:', error);
+    }
+  };
+
+  const setField = <K extends keyof TransactionFilters>(key: K, value: TransactionFilters[K] | '' | null) => {
+    setDraft((current) => ({ ...current, [key]: value || undefined }));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onApply(draft);
+  };
+
+  const handleClear = () => {
+    setDraft({});
+    onApply({});
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDayjs}>
+      <Paper component="form" onSubmit={handleSubmit} sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+          <TextField
+            size="small"
+            label="Description contains"
+            value={draft.description || ''}
+            onChange={(e) => setField('description', e.target.value)}
+            sx={{ minWidth: '220px' }}
+          />
+          <FormControl size="small" sx={{ minWidth: '200px' }}>
+            <InputLabel>Account</InputLabel>
+            <Select
+              value={draft.accountId || ''}
+              onChange={(e) => setField('accountId', e.target.value)}
+              label="Account"
+            >
+              <MenuItem value="">All Accounts</MenuItem>
+              {accounts.map((account) => (
+                <MenuItem key={account._id} value={account._id}>
+                  {account.name}
+                  {account.isArchived ? ' (archived)' : ''}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: '180px' }}>
+            <InputLabel>Account Type</InputLabel>
+            <Select
+              value={draft.accountType || ''}
+              onChange={(e) => setField('accountType', e.target.value)}
+              label="Account Type"
+            >
+              <MenuItem value="">All Types</MenuItem>
+              {accountTypes.map((accountType) => (
+                <MenuItem key={accountType._id} value={accountType._id}>
+                  {accountType.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: '120px' }}>
+            <InputLabel>Side</InputLabel>
+            <Select
+              value={draft.side || ''}
+              onChange={(e) => setField('side', e.target.value as TransactionFilters['side'])}
+              label="Side"
+            >
+              <MenuItem value="">Either</MenuItem>
+              <MenuItem value="debit">Debit</MenuItem>
+              <MenuItem value="credit">Credit</MenuItem>
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            type="number"
+            label="Min Amount"
+            value={draft.minAmount || ''}
+            onChange={(e) => setField('minAmount', e.target.value)}
+            inputProps={{ min: 0, step: '0.01' }}
+            sx={{ width: '130px' }}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label="Max Amount"
+            value={draft.maxAmount || ''}
+            onChange={(e) => setField('maxAmount', e.target.value)}
+            inputProps={{ min: 0, step: '0.01' }}
+            sx={{ width: '130px' }}
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={draft.ownerOnly === 'true'}
+                onChange={(e) => setField('ownerOnly', e.target.checked ? 'true' : undefined)}
+              />
+            }
+            label="Owner accounts only"
+          />
+        </Box>
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center', mt: 2 }}>
+          <Box sx={{ width: '170px' }}>
+            <DatePicker
+              label="From"
+              value={draft.startDate ? dayjs(draft.startDate) : null}
+              onChange={(date) => setField('startDate', date && date.isValid() ? date.format('YYYY-MM-DD') : undefined)}
+              enableAccessibleFieldDOMStructure={false}
+              slots={{ textField: TextField }}
+              slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+            />
+          </Box>
+          <Box sx={{ width: '170px' }}>
+            <DatePicker
+              label="To"
+              value={draft.endDate ? dayjs(draft.endDate) : null}
+              onChange={(date) => setField('endDate', date && date.isValid() ? date.format('YYYY-MM-DD') : undefined)}
+              enableAccessibleFieldDOMStructure={false}
+              slots={{ textField: TextField }}
+              slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+            />
+          </Box>
+          <FormControl size="small" sx={{ minWidth: '140px' }}>
+            <InputLabel>Status</InputLabel>
+            <Select
+              value={draft.status || ''}
+              onChange={(e) => setField('status', e.target.value as TransactionFilters['status'])}
+              label="Status"
+            >
+              <MenuItem value="">Any Status</MenuItem>
+              {(Object.keys(STATUS_LABELS) as NonNullable<TransactionFilters['status']>[]).map((status) => (
+                <MenuItem key={status} value={status}>
+                  {STATUS_LABELS[status]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: '200px' }}>
+            <InputLabel>Voucher Type</InputLabel>
+            <Select
+              value={draft.voucherType || ''}
+              onChange={(e) => setField('voucherType', e.target.value as VoucherType)}
+              label="Voucher Type"
+            >
+              <MenuItem value="">All Types</MenuItem>
+              {(Object.keys(VOUCHER_TYPE_LABELS) as VoucherType[]).map((type) => (
+                <MenuItem key={type} value={type}>
+                  {VOUCHER_TYPE_LABELS[type]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: '160px' }}>
+            <InputLabel>Created By</InputLabel>
+            <Select
+              value={draft.createdBy || ''}
+              onChange={(e) => setField('createdBy', e.target.value)}
+              label="Created By"
+            >
+              <MenuItem value="">Anyone</MenuItem>
+              {creators.map((creator) => (
+                <MenuItem key={creator._id} value={creator._id}>
+                  {creator.name || creator.username}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button type="submit" variant="contained" startIcon={<FilterIcon />}>
+            Apply Filters
+          </Button>
+          <Button startIcon={<ClearIcon />} onClick={handleClear}>
+            Clear
+          </Button>
+        </Box>
+      </Paper>
+    </LocalizationProvider>
+  );
+};
+
+export default TransactionFilterBar;
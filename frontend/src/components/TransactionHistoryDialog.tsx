@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Alert,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Paper,
+} from '@mui/material';
+import { transactionAPI, Transaction, TransactionRevision } from '../services/api';
+
+interface TransactionHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  transaction: Transaction | null;
+}
+
+const TransactionHistoryDialog: React.FC<TransactionHistoryDialogProps> = ({
+  open,
+  onClose,
+  transaction,
+}) => {
+  const [revisions, setRevisions] = useState<TransactionRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (!open || !transaction) return;
+
+    const loadHistory = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const response = await transactionAPI.getHistory(transaction._id);
+        // Newest revision first
+        setRevisions([...response.data].reverse());
+      } catch (err) {
+        console.error('Error loading transaction history:', err);
+        setError('Failed to load transaction history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [open, transaction]);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        History of Transaction ID: {transaction?.transactionId}
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Typography>Loading history...</Typography>
+        ) : revisions.length === 0 ? (
+          <Typography color="textSecondary">
+            This transaction has not been edited.
+          </Typography>
+        ) : (
+          revisions.map((revision) => (
+            <Paper key={revision._id} variant="outlined" sx={{ mb: 2, p: 2 }}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+                <Typography variant="subtitle1">
+                  Version {revision.version} — {new Date(revision.date).toLocaleDateString()}
+                </Typography>
+                <Typography variant="body2" color="textSecondary">
+                  Replaced on {new Date(revision.changedAt).toLocaleString()}
+                </Typography>
+              </Box>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>S.No</TableCell>
+                    <TableCell>Account</TableCell>
+                    <TableCell>Description</TableCell>
+                    <TableCell>Credit Amount</TableCell>
+                    <TableCell>Debit Amount</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {revision.details.map((detail, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{detail.serialNo}</TableCell>
+                      <TableCell>
+                        {typeof detail.account === 'string'
+                          ? detail.account
+                          : detail.account?.name || 'Deleted account'}
+                      </TableCell>
+                      <TableCell>{detail.description}</TableCell>
+                      <TableCell>
+                        {detail.type === 'credit'
+                          ? `$${detail.amount.toLocaleString()}`
+                          : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {detail.type === 'debit'
+                          ? `$${detail.amount.toLocaleString()}`
+                          : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+          ))
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TransactionHistoryDialog;
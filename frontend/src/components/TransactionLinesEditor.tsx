@@ -0,0 +1,307 @@
+import React from 'react';
+import {
+  TextField,
+  Button,
+  FormControl,
+  Select,
+  MenuItem,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Typography,
+  Paper,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { Account, Party, JournalTemplateDetail } from '../services/api';
+
+type DetailType = 'debit' | 'credit';
+
+export interface DetailLine {
+  serialNo: number;
+  /** Account name; the backend resolves names to ids */
+  account: string;
+  /** Party _id, or '' when the line has no party */
+  party: string;
+  description: string;
+  /** Keep raw user input as string to avoid "jumping to 0" issues while typing */
+  amountStr: string;
+  type: DetailType;
+}
+
+export const toNumber = (s: string) => {
+  const n = parseFloat(s);
+  return Number.isFinite(n) ? n : 0;
+};
+
+export const emptyLine = (serialNo: number): DetailLine => ({
+  serialNo,
+  account: '',
+  party: '',
+  description: '',
+  amountStr: '',
+  type: 'credit',
+});
+
+// Turn saved lines (populated or not) back into editable rows; a missing amount stays blank
+export const toDetailLines = (details: JournalTemplateDetail[]): DetailLine[] =>
+  details.map((detail, index) => ({
+    serialNo: index + 1,
+    account:
+      typeof detail.account === 'string'
+        ? detail.account
+        : detail.account?.name || '',
+    party:
+      !detail.party
+        ? ''
+        : typeof detail.party === 'string'
+        ? detail.party
+        : detail.party._id,
+    description: detail.description || '',
+    amountStr: String(detail.amount ?? ''),
+    type: detail.type as DetailType,
+  }));
+
+// Request payload for the lines
+export const fromDetailLines = (lines: DetailLine[]) =>
+  lines.map((line) => ({
+    account: line.account,
+    party: line.party || undefined,
+    description: line.description.trim(),
+    amount: toNumber(line.amountStr),
+    type: line.type,
+  }));
+
+export const getLineTotals = (lines: DetailLine[]) => {
+  const totalDebits = lines
+    .filter((d) => d.type === 'debit')
+    .reduce((sum, d) => sum + toNumber(d.amountStr), 0);
+
+  const totalCredits = lines
+    .filter((d) => d.type === 'credit')
+    .reduce((sum, d) => sum + toNumber(d.amountStr), 0);
+
+  return { totalDebits, totalCredits };
+};
+
+export const validateLines = (lines: DetailLine[]) => {
+  const errors: string[] = [];
+
+  lines.forEach((detail, index) => {
+    if (!detail.account) {
+      errors.push(`Row ${index + 1}: Account is required`);
+    }
+    if (!detail.description.trim()) {
+      errors.push(`Row ${index + 1}: Description is required`);
+    }
+    if (toNumber(detail.amountStr) <= 0) {
+      errors.push(`Row ${index + 1}: Amount must be greater than 0`);
+    }
+  });
+
+  const { totalDebits, totalCredits } = getLineTotals(lines);
+  if (Math.abs(totalDebits - totalCredits) > 0.01) {
+    errors.push('Total debits must equal total credits');
+  }
+
+  return errors;
+};
+
+interface TransactionLinesEditorProps {
+  lines: DetailLine[];
+  onChange: (lines: DetailLine[]) => void;
+  accounts: Account[];
+  parties: Party[];
+}
+
+const TransactionLinesEditor: React.FC<TransactionLinesEditorProps> = ({
+  lines,
+  onChange,
+  accounts,
+  parties,
+}) => {
+  const addDetailRow = () => {
+    onChange([...lines, emptyLine(lines.length + 1)]);
+  };
+
+  const removeDetailRow = (index: number) => {
+    if (lines.length <= 1) return;
+    const newDetails = lines.filter((_, i) => i !== index);
+    // re-number serials
+    onChange(newDetails.map((d, i) => ({ ...d, serialNo: i + 1 })));
+  };
+
+  const updateDetail = (index: number, changes: Partial<DetailLine>) => {
+    const next = [...lines];
+    next[index] = { ...next[index], ...changes };
+    onChange(next);
+  };
+
+  const { totalDebits, totalCredits } = getLineTotals(lines);
+  const diff = Math.abs(totalCredits - totalDebits);
+
+  return (
+    <>
+      <Paper variant="outlined" sx={{ mb: 2 }}>
+        <TableContainer>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>S.No</TableCell>
+                <TableCell>Account</TableCell>
+                <TableCell>Party</TableCell>
+                <TableCell>Description</TableCell>
+                <TableCell>Credit Amount</TableCell>
+                <TableCell>Debit Amount</TableCell>
+                <TableCell align="center">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {lines.map((detail, index) => (
+                <TableRow key={detail.serialNo}>
+                  <TableCell>{detail.serialNo}</TableCell>
+
+                  <TableCell>
+                    <FormControl fullWidth size="small">
+                      <Select
+                        value={detail.account}
+                        onChange={(e) =>
+                          updateDetail(index, { account: e.target.value })
+                        }
+                        displayEmpty
+                      >
+                        <MenuItem value="">Select Account</MenuItem>
+                        {accounts
+                          .filter((account) => !account.isArchived || account.name === detail.account)
+                          .map((account) => (
+                            <MenuItem key={account._id} value={account.name}>
+                              {account.name}
+                            </MenuItem>
+                          ))}
+                      </Select>
+                    </FormControl>
+                  </TableCell>
+
+                  <TableCell>
+                    <FormControl fullWidth size="small">
+                      <Select
+                        value={detail.party}
+                        onChange={(e) =>
+                          updateDetail(index, { party: e.target.value })
+                        }
+                        displayEmpty
+                      >
+                        <MenuItem value="">No Party</MenuItem>
+                        {parties.map((party) => (
+                          <MenuItem key={party._id} value={party._id}>
+                            {party.name}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  </TableCell>
+
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      fullWidth
+                      value={detail.description}
+                      onChange={(e) =>
+                        updateDetail(index, { description: e.target.value })
+                      }
+                      placeholder="Enter description"
+                    />
+                  </TableCell>
+
+                  {/* Credit input controls the type=credit and keeps raw string */}
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      fullWidth
+                      type="number"
+                      value={detail.type === 'credit' ? detail.amountStr : ''}
+                      onChange={(e) =>
+                        updateDetail(index, { type: 'credit', amountStr: e.target.value })
+                      }
+                      placeholder="0"
+                      inputProps={{ min: 0, step: 0.01 }}
+                    />
+                  </TableCell>
+
+                  {/* Debit input controls the type=debit and keeps raw string */}
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      fullWidth
+                      type="number"
+                      value={detail.type === 'debit' ? detail.amountStr : ''}
+                      onChange={(e) =>
+                        updateDetail(index, { type: 'debit', amountStr: e.target.value })
+                      }
+                      placeholder="0"
+                      inputProps={{ min: 0, step: 0.01 }}
+                    />
+                  </TableCell>
+
+                  <TableCell align="center">
+                    <IconButton
+                      size="small"
+                      color="error"
+                      onClick={() => removeDetailRow(index)}
+                      disabled={lines.length === 1}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 2,
+        }}
+      >
+        <Button
+          startIcon={<AddIcon />}
+          onClick={addDetailRow}
+          variant="outlined"
+        >
+          Add Row
+        </Button>
+
+        <Box sx={{ textAlign: 'right' }}>
+          <Typography variant="body2">
+            Total Credits:{' '}
+            <strong>${totalCredits.toLocaleString()}</strong>
+          </Typography>
+          <Typography variant="body2">
+            Total Debits:{' '}
+            <strong>${totalDebits.toLocaleString()}</strong>
+          </Typography>
+          <Typography
+            variant="body2"
+            color={diff < 0.01 ? 'success.main' : 'error.main'}
+          >
+            Difference: <strong>${diff.toLocaleString()}</strong>
+          </Typography>
+        </Box>
+      </Box>
+    </>
+  );
+};
+
+export default TransactionLinesEditor;
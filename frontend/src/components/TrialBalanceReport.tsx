@@ -0,0 +1,249 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Alert,
+  IconButton,
+  Collapse,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import {
+  Search as SearchIcon,
+  ExpandMore as ExpandMoreIcon,
+  ExpandLess as ExpandLessIcon,
+} from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import dayjs, { Dayjs } from 'dayjs';
+import { reportAPI, AccountLedger, TrialBalance, TrialBalanceAccount, ELEMENT_LABELS } from '../services/api';
+
+const formatAmount = (amount: number) => (amount ? `$${amount.toLocaleString()}` : '-');
+
+const TrialBalanceReport: React.FC = () => {
+  const [asOf, setAsOf] = useState<Dayjs | null>(dayjs());
+  const [includeVoided, setIncludeVoided] = useState(true);
+  // Filters behind the figures on screen; Generate copies the form into them
+  const [shown, setShown] = useState({ asOf, includeVoided });
+  const [trialBalance, setTrialBalance] = useState<TrialBalance | null>(null);
+  const [ledgers, setLedgers] = useState<Record<string, AccountLedger>>({});
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const loadTrialBalance = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await reportAPI.getTrialBalance(
+        shown.asOf ? shown.asOf.format('YYYY-MM-DD') : undefined,
+        shown.includeVoided ? 'include' : 'exclude'
+      );
+      setTrialBalance(response.data);
+      setLedgers({});
+      setExpandedRows(new Set());
+    } catch (error) {
+      console.error('Error loading trial balance:', error);
+      setError('Failed to load trial balance');
+    } finally {
+      setLoading(false);
+    }
+  }, [shown]);
+
+  useEffect(() => {
+    loadTrialBalance();
+  }, [loadTrialBalance]);
+
+  const toggleAccount = async (row: TrialBalanceAccount) => {
+    const accountId = row.account._id;
+    const newExpanded = new Set(expandedRows);
+    if (newExpanded.has(accountId)) {
+      newExpanded.delete(accountId);
+      setExpandedRows(newExpanded);
+      return;
+    }
+
+    newExpanded.add(accountId);
+    setExpandedRows(newExpanded);
+
+    if (!ledgers[accountId]) {
+      try {
+        const response = await reportAPI.getLedger(accountId, {
+          to: asOf ? asOf.format('YYYY-MM-DD') : undefined,
+          voided: includeVoided ? 'include' : 'exclude',
+        });
+        setLedgers((prev) => ({ ...prev, [accountId]: response.data }));
+      } catch (error) {
+        console.error('Error loading account ledger:', error);
+        setError('Failed to load account lines');
+      }
+    }
+  };
+
+  return (
+    <Box>
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <Box sx={{ minWidth: '200px' }}>
+            <DatePicker
+              label="As of"
+              value={asOf}
+              onChange={(date) => setAsOf(date)}
+              enableAccessibleFieldDOMStructure={false}
+              slots={{ textField: TextField }}
+              slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+            />
+          </Box>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={includeVoided}
+                onChange={(e) => setIncludeVoided(e.target.checked)}
+              />
+            }
+            label="Include voided"
+          />
+          <Button
+            variant="contained"
+            startIcon={<SearchIcon />}
+            onClick={() => setShown({ asOf, includeVoided })}
+            disabled={loading}
+          >
+            Generate Report
+          </Button>
+          {trialBalance && (
+            <Chip
+              label={trialBalance.isBalanced ? 'Balanced' : 'Out of balance'}
+              color={trialBalance.isBalanced ? 'success' : 'error'}
+            />
+          )}
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <div>Loading trial balance...</div>
+      ) : trialBalance && (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell />
+                <TableCell>Account</TableCell>
+                <TableCell align="right">Debit</TableCell>
+                <TableCell align="right">Credit</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {trialBalance.groups.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} align="center">
+                    No transactions posted up to this date
+                  </TableCell>
+                </TableRow>
+              )}
+              {trialBalance.groups.map((group) => (
+                <React.Fragment key={group.type._id || 'unclassified'}>
+                  <TableRow sx={{ bgcolor: 'action.hover' }}>
+                    <TableCell colSpan={4}>
+                      <Typography fontWeight="bold">
+                        {group.type.name}
+                        {group.type.element && ` (${ELEMENT_LABELS[group.type.element]})`}
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                  {group.accounts.map((row) => (
+                    <React.Fragment key={row.account._id}>
+                      <TableRow hover>
+                        <TableCell padding="checkbox">
+                          <IconButton size="small" onClick={() => toggleAccount(row)}>
+                            {expandedRows.has(row.account._id) ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+                          </IconButton>
+                        </TableCell>
+                        <TableCell>{row.account.name}</TableCell>
+                        <TableCell align="right">{formatAmount(row.balanceDebit)}</TableCell>
+                        <TableCell align="right">{formatAmount(row.balanceCredit)}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell colSpan={4} sx={{ py: 0 }}>
+                          <Collapse in={expandedRows.has(row.account._id)} timeout="auto" unmountOnExit>
+                            {ledgers[row.account._id] ? (
+                              <Table size="small" sx={{ my: 1 }}>
+                                <TableHead>
+                                  <TableRow>
+                                    <TableCell>Transaction ID</TableCell>
+                                    <TableCell>Date</TableCell>
+                                    <TableCell>Description</TableCell>
+                                    <TableCell align="right">Debit</TableCell>
+                                    <TableCell align="right">Credit</TableCell>
+                                  </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                  {ledgers[row.account._id].lines.map((line) => (
+                                    <TableRow key={`${line.transaction}-${line.serialNo}`}>
+                                      <TableCell>{line.transactionId}</TableCell>
+                                      <TableCell>{new Date(line.date).toLocaleDateString()}</TableCell>
+                                      <TableCell>{line.description}</TableCell>
+                                      <TableCell align="right">{formatAmount(line.debit)}</TableCell>
+                                      <TableCell align="right">{formatAmount(line.credit)}</TableCell>
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                            ) : (
+                              <Typography variant="body2" sx={{ my: 1 }}>
+                                Loading lines...
+                              </Typography>
+                            )}
+                          </Collapse>
+                        </TableCell>
+                      </TableRow>
+                    </React.Fragment>
+                  ))}
+                  <TableRow>
+                    <TableCell />
+                    <TableCell>
+                      <Typography variant="body2" color="textSecondary">
+                        Total {group.type.name}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">{formatAmount(group.totalDebit)}</TableCell>
+                    <TableCell align="right">{formatAmount(group.totalCredit)}</TableCell>
+                  </TableRow>
+                </React.Fragment>
+              ))}
+              <TableRow>
+                <TableCell />
+                <TableCell>
+                  <Typography fontWeight="bold">Grand Total</Typography>
+                </TableCell>
+                <TableCell align="right">
+                  <Typography fontWeight="bold">${trialBalance.totalDebit.toLocaleString()}</Typography>
+                </TableCell>
+                <TableCell align="right">
+                  <Typography fontWeight="bold">${trialBalance.totalCredit.toLocaleString()}</Typography>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+};
+
+export default TrialBalanceReport;
@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Alert,
+  Typography,
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import dayjs, { Dayjs } from 'dayjs';
+import { transactionAPI, Transaction } from '../services/api';
+
+interface VoidTransactionDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onVoided: () => void;
+  transaction: Transaction | null;
+}
+
+const VoidTransactionDialog: React.FC<VoidTransactionDialogProps> = ({
+  open,
+  onClose,
+  onVoided,
+  transaction,
+}) => {
+  const [voidDate, setVoidDate] = useState<Dayjs | null>(dayjs());
+  const [reason, setReason] = useState<string>('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (open) {
+      setVoidDate(dayjs());
+      setReason('');
+      setError('');
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!transaction) return;
+
+    if (!voidDate) {
+      setError('Void date is required');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      await transactionAPI.void(transaction._id, {
+        date: voidDate.format('YYYY-MM-DD'),
+        reason: reason.trim() || undefined,
+      });
+      onVoided();
+      onClose();
+    } catch (error: any) {
+      console.error('Error voiding transaction:', error);
+      setError(error.response?.data?.message || 'Failed to void transaction');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDayjs}>
+      <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+        <DialogTitle>Void Transaction ID: {transaction?.transactionId}</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Typography variant="body2" color="textSecondary">
+            The transaction will be marked cancelled and a reversing entry will be posted on the void date.
+          </Typography>
+
+          <Box sx={{ mt: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <DatePicker
+              label="Void Date"
+              value={voidDate}
+              onChange={(date) => setVoidDate(date)}
+              enableAccessibleFieldDOMStructure={false}
+              slots={{ textField: TextField }}
+              slotProps={{ textField: { fullWidth: true } }}
+            />
+            <TextField
+              fullWidth
+              label="Reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              multiline
+              rows={2}
+            />
+          </Box>
+        </DialogContent>
+
+        <DialogActions>
+          <Button onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            color="error"
+            variant="contained"
+            disabled={loading}
+          >
+            {loading ? 'Voiding...' : 'Void Transaction'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </LocalizationProvider>
+  );
+};
+
+export default VoidTransactionDialog;
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -17,18 +18,29 @@ import {
   DialogTitle,
   DialogContent,
   DialogActions,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import { 
   Add as AddIcon, 
   Refresh as RefreshIcon,
   Edit as EditIcon,
   Delete as DeleteIcon,
+  Archive as ArchiveIcon,
+  Unarchive as UnarchiveIcon,
+  FactCheck as AuditIcon,
+  PlaylistAddCheck as ReconcileIcon,
 } from '@mui/icons-material';
-import { accountAPI, Account } from '../services/api';
+import { accountAPI, accountTypeAPI, Account, AccountType, DependentsError } from '../services/api';
 import AddAccountModal from '../components/AddAccountModal';
+import { useAuth } from '../components/AuthProvider';
 
 const Accounts: React.FC = () => {
+  const navigate = useNavigate();
+  const { canWrite, isAdmin, canViewAudit } = useAuth();
   const [accounts, setAccounts] = useState<Account[]>([]);
+  const [archivedTypes, setArchivedTypes] = useState<AccountType[]>([]);
+  const [view, setView] = useState<'active' | 'archived'>('active');
   const [loading, setLoading] = useState<boolean>(true);
   const [addModalOpen, setAddModalOpen] = useState<boolean>(false);
   const [editModalOpen, setEditModalOpen] = useState<boolean>(false);
@@ -36,24 +48,34 @@ const Accounts: React.FC = () => {
   const [selectedAccount, setSelectedAccount] = useState<Account | null>(null);
   const [error, setError] = useState<string>('');
   const [deleteLoading, setDeleteLoading] = useState<boolean>(false);
+  const [deleteBlocked, setDeleteBlocked] = useState<DependentsError | null>(null);
 
-  useEffect(() => {
-    loadAccounts();
-  }, []);
-
-  const loadAccounts = async (): Promise<void> => {
+  const loadAccounts = useCallback(async (): Promise<void> => {
     try {
       setLoading(true);
       setError('');
-      const response = await accountAPI.getAll();
-      setAccounts(response.data);
+      if (view === 'archived') {
+        const [accountsResponse, typesResponse] = await Promise.all([
+          accountAPI.getAll('true'),
+          accountTypeAPI.getAll('true'),
+        ]);
+        setAccounts(accountsResponse.data);
+        setArchivedTypes(typesResponse.data);
+      } else {
+        const response = await accountAPI.getAll();
+        setAccounts(response.data);
+      }
     } catch (error) {
       console.error('Error loading accounts:', error);
       setError('Failed to load accounts');
     } finally {
       setLoading(false);
     }
-  };
+  }, [view]);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
 
   const handleAccountAdded = () => {
     loadAccounts(); // Refresh the accounts list
@@ -80,12 +102,48 @@ const Accounts: React.FC = () => {
       loadAccounts(); // Refresh the accounts list
     } catch (error: any) {
       console.error('Error deleting account:', error);
-      setError(error.response?.data?.message || 'Failed to delete account');
+      if (error.response?.status === 409) {
+        // Keep the dialog open and offer archiving instead
+        setDeleteBlocked(error.response.data);
+      } else {
+        setError(error.response?.data?.message || 'Failed to delete account');
+      }
     } finally {
       setDeleteLoading(false);
     }
   };
 
+  const handleArchive = async (account: Account) => {
+    try {
+      await accountAPI.archive(account._id);
+      handleDeleteDialogClose();
+      loadAccounts();
+    } catch (error: any) {
+      console.error('Error archiving account:', error);
+      setError(error.response?.data?.message || 'Failed to archive account');
+    }
+  };
+
+  const handleRestore = async (account: Account) => {
+    try {
+      await accountAPI.restore(account._id);
+      loadAccounts();
+    } catch (error: any) {
+      console.error('Error restoring account:', error);
+      setError(error.response?.data?.message || 'Failed to restore account');
+    }
+  };
+
+  const handleRestoreType = async (accountType: AccountType) => {
+    try {
+      await accountTypeAPI.restore(accountType._id);
+      loadAccounts();
+    } catch (error: any) {
+      console.error('Error restoring account type:', error);
+      setError(error.response?.data?.message || 'Failed to restore account type');
+    }
+  };
+
   const handleEditModalClose = () => {
     setEditModalOpen(false);
     setSelectedAccount(null);
@@ -93,6 +151,7 @@ const Accounts: React.FC = () => {
 
   const handleDeleteDialogClose = () => {
     setDeleteDialogOpen(false);
+    setDeleteBlocked(null);
     setSelectedAccount(null);
   };
 
@@ -103,6 +162,15 @@ const Accounts: React.FC = () => {
       <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
         <Typography variant="h4">Accounts</Typography>
         <Box sx={{ display: 'flex', gap: 2 }}>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={view}
+            onChange={(_, value) => value && setView(value)}
+          >
+            <ToggleButton value="active">Active</ToggleButton>
+            <ToggleButton value="archived">Archived</ToggleButton>
+          </ToggleButtonGroup>
           <Button
             variant="outlined"
             startIcon={<RefreshIcon />}
@@ -110,13 +178,15 @@ const Accounts: React.FC = () => {
           >
             Refresh
           </Button>
-          <Button
-            variant="contained"
-            startIcon={<AddIcon />}
-            onClick={() => setAddModalOpen(true)}
-          >
-            Add Account
-          </Button>
+          {canWrite && (
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => setAddModalOpen(true)}
+            >
+              Add Account
+            </Button>
+          )}
         </Box>
       </Box>
 
@@ -145,7 +215,9 @@ const Accounts: React.FC = () => {
               {accounts.length === 0 ? (
                 <TableRow>
                   <TableCell colSpan={8} align="center">
-                    No accounts found. Click "Add Account" to create your first account.
+                    {view === 'archived'
+                      ? 'No archived accounts.'
+                      : 'No accounts found. Click "Add Account" to create your first account.'}
                   </TableCell>
                 </TableRow>
               ) : (
@@ -178,24 +250,71 @@ const Accounts: React.FC = () => {
                       />
                     </TableCell>
                     <TableCell align="center">
-                      <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center' }}>
-                        <IconButton
-                          size="small"
-                          color="primary"
-                          onClick={() => handleEditClick(account)}
-                          title="Edit Account"
-                        >
-                          <EditIcon fontSize="small" />
-                        </IconButton>
-                        <IconButton
-                          size="small"
-                          color="error"
-                          onClick={() => handleDeleteClick(account)}
-                          title="Delete Account"
-                        >
-                          <DeleteIcon fontSize="small" />
-                        </IconButton>
-                      </Box>
+                      {!canWrite ? '-' : view === 'archived' ? (
+                        <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center' }}>
+                          <IconButton
+                            size="small"
+                            color="primary"
+                            onClick={() => handleRestore(account)}
+                            title="Restore Account"
+                          >
+                            <UnarchiveIcon fontSize="small" />
+                          </IconButton>
+                          {canViewAudit && (
+                            <IconButton
+                              size="small"
+                              onClick={() => navigate(`/audit?entity=Account&entityId=${account._id}`)}
+                              title="Audit Trail"
+                            >
+                              <AuditIcon fontSize="small" />
+                            </IconButton>
+                          )}
+                        </Box>
+                      ) : (
+                        <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center' }}>
+                          {canViewAudit && (
+                            <IconButton
+                              size="small"
+                              onClick={() => navigate(`/audit?entity=Account&entityId=${account._id}`)}
+                              title="Audit Trail"
+                            >
+                              <AuditIcon fontSize="small" />
+                            </IconButton>
+                          )}
+                          {account.isOwnerAccount && (
+                            <IconButton
+                              size="small"
+                              onClick={() => navigate(`/reconciliations?account=${account._id}`)}
+                              title="Reconcile Account"
+                            >
+                              <ReconcileIcon fontSize="small" />
+                            </IconButton>
+                          )}
+                          <IconButton
+                            size="small"
+                            color="primary"
+                            onClick={() => handleEditClick(account)}
+                            title="Edit Account"
+                          >
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                          <IconButton
+                            size="small"
+                            onClick={() => handleArchive(account)}
+                            title="Archive Account"
+                          >
+                            <ArchiveIcon fontSize="small" />
+                          </IconButton>
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => handleDeleteClick(account)}
+                            title="Delete Account"
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </Box>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))
@@ -205,6 +324,65 @@ const Accounts: React.FC = () => {
         </TableContainer>
       </Paper>
 
+      {/* Archived Account Types */}
+      {view === 'archived' && (
+        <Paper sx={{ mt: 3 }}>
+          <Typography variant="h6" sx={{ p: 2 }}>
+            Archived Account Types
+          </Typography>
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Description</TableCell>
+                  <TableCell align="center">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {archivedTypes.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} align="center">
+                      No archived account types.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  archivedTypes.map((accountType) => (
+                    <TableRow key={accountType._id}>
+                      <TableCell>{accountType.name}</TableCell>
+                      <TableCell>{accountType.description || '-'}</TableCell>
+                      <TableCell align="center">
+                        <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center' }}>
+                          {isAdmin && (
+                            <IconButton
+                              size="small"
+                              color="primary"
+                              onClick={() => handleRestoreType(accountType)}
+                              title="Restore Account Type"
+                            >
+                              <UnarchiveIcon fontSize="small" />
+                            </IconButton>
+                          )}
+                          {canViewAudit && (
+                            <IconButton
+                              size="small"
+                              onClick={() => navigate(`/audit?entity=AccountType&entityId=${accountType._id}`)}
+                              title="Audit Trail"
+                            >
+                              <AuditIcon fontSize="small" />
+                            </IconButton>
+                          )}
+                        </Box>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+
       {/* Add Account Modal */}
       <AddAccountModal
         open={addModalOpen}
@@ -229,11 +407,40 @@ const Accounts: React.FC = () => {
           Confirm Delete
         </DialogTitle>
         <DialogContent>
-          Are you sure you want to delete the account "{selectedAccount?.name}"?
-          <br />
-          <Typography variant="body2" color="error" sx={{ mt: 1 }}>
-            This action cannot be undone.
-          </Typography>
+          {deleteBlocked ? (
+            <>
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                {deleteBlocked.message}
+              </Alert>
+              {deleteBlocked.dependents.transactions && deleteBlocked.dependents.transactions.length > 0 && (
+                <Typography variant="body2">
+                  Transaction IDs:{' '}
+                  {deleteBlocked.dependents.transactions.map((t) => t.transactionId).join(', ')}
+                  {(deleteBlocked.dependents.transactionCount || 0) > deleteBlocked.dependents.transactions.length && ', ...'}
+                </Typography>
+              )}
+              {deleteBlocked.dependents.recurringSchedules && deleteBlocked.dependents.recurringSchedules.length > 0 && (
+                <Typography variant="body2">
+                  Recurring schedules:{' '}
+                  {deleteBlocked.dependents.recurringSchedules.map((schedule) => schedule.name).join(', ')}
+                </Typography>
+              )}
+              {deleteBlocked.dependents.journalTemplates && deleteBlocked.dependents.journalTemplates.length > 0 && (
+                <Typography variant="body2">
+                  Journal templates:{' '}
+                  {deleteBlocked.dependents.journalTemplates.map((template) => template.name).join(', ')}
+                </Typography>
+              )}
+            </>
+          ) : (
+            <>
+              Are you sure you want to delete the account "{selectedAccount?.name}"?
+              <br />
+              <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+                This action cannot be undone.
+              </Typography>
+            </>
+          )}
         </DialogContent>
         <DialogActions>
           <Button 
@@ -242,14 +449,24 @@ const Accounts: React.FC = () => {
           >
             Cancel
           </Button>
-          <Button 
-            onClick={handleDeleteConfirm} 
-            color="error" 
-            variant="contained"
-            disabled={deleteLoading}
-          >
-            {deleteLoading ? 'Deleting...' : 'Delete'}
-          </Button>
+          {deleteBlocked && selectedAccount ? (
+            <Button
+              onClick={() => handleArchive(selectedAccount)}
+              variant="contained"
+              startIcon={<ArchiveIcon />}
+            >
+              Archive Instead
+            </Button>
+          ) : (
+            <Button 
+              onClick={handleDeleteConfirm} 
+              color="error" 
+              variant="contained"
+              disabled={deleteLoading}
+            >
+              {deleteLoading ? 'Deleting...' : 'Delete'}
+            </Button>
+          )}
         </DialogActions>
       </Dialog>
     </Box>
@@ -0,0 +1,293 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Chip,
+  Alert,
+} from '@mui/material';
+import { Search as SearchIcon } from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import dayjs, { Dayjs } from 'dayjs';
+import {
+  auditAPI,
+  AuditAction,
+  AuditEntity,
+  AuditEntry,
+  AuditUser,
+  AUDIT_ENTITY_LABELS,
+} from '../services/api';
+
+const ACTION_COLORS: Record<AuditAction, 'success' | 'info' | 'error' | 'default' | 'warning'> = {
+  create: 'success',
+  update: 'info',
+  delete: 'error',
+  archive: 'default',
+  restore: 'default',
+  void: 'warning',
+};
+
+// Show scalars as-is and objects (e.g. transaction lines) as compact JSON
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const AuditTrail: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const entity = (searchParams.get('entity') || '') as AuditEntity | '';
+  const entityId = searchParams.get('entityId') || '';
+
+  const [user, setUser] = useState<string>('');
+  const [startDate, setStartDate] = useState<Dayjs | null>(null);
+  const [endDate, setEndDate] = useState<Dayjs | null>(null);
+  // User and dates the entries on screen were searched with
+  const [shown, setShown] = useState({ user, startDate, endDate });
+  const [users, setUsers] = useState<AuditUser[]>([]);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [page, setPage] = useState<number>(0);
+  const [rowsPerPage, setRowsPerPage] = useState<number>(25);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    try {
+      const response = await auditAPI.getUsers();
+      setUsers(response.data);
+    } catch (error) {
+      console.error('Error loading audit users:', error);
+    }
+  };
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await auditAPI.getAll({
+        entity: entity || undefined,
+        entityId: entityId || undefined,
+        user: shown.user || undefined,
+        from: shown.startDate ? shown.startDate.format('YYYY-MM-DD') : undefined,
+        to: shown.endDate ? shown.endDate.format('YYYY-MM-DD') : undefined,
+        page: page + 1,
+        limit: rowsPerPage,
+      });
+      setEntries(response.data.entries);
+      setTotal(response.data.total);
+    } catch (error: any) {
+      console.error('Error loading audit trail:', error);
+      setError(error.response?.data?.message || 'Failed to load audit trail');
+    } finally {
+      setLoading(false);
+    }
+  }, [entity, entityId, shown, page, rowsPerPage]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  // Entity filters live in the URL so record pages can link straight here
+  const handleEntityChange = (value: AuditEntity | '') => {
+    const params: Record<string, string> = {};
+    if (value) params.entity = value;
+    setSearchParams(params);
+    setPage(0);
+  };
+
+  const handleSearch = () => {
+    setShown({ user, startDate, endDate });
+    setPage(0);
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDayjs}>
+      <Box sx={{ p: 3 }}>
+        <Typography variant="h4" sx={{ mb: 3 }}>
+          Audit Trail
+        </Typography>
+
+        <Paper sx={{ p: 3, mb: 3 }}>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+            <FormControl size="small" sx={{ minWidth: '180px' }}>
+              <InputLabel>Record Type</InputLabel>
+              <Select
+                value={entity}
+                onChange={(e) => handleEntityChange(e.target.value as AuditEntity | '')}
+                label="Record Type"
+              >
+                <MenuItem value="">All Records</MenuItem>
+                {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map((key) => (
+                  <MenuItem key={key} value={key}>
+                    {AUDIT_ENTITY_LABELS[key]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ minWidth: '180px' }}>
+              <InputLabel>User</InputLabel>
+              <Select
+                value={user}
+                onChange={(e) => setUser(e.target.value)}
+                label="User"
+              >
+                <MenuItem value="">All Users</MenuItem>
+                {users.map((auditUser) => (
+                  <MenuItem key={auditUser._id} value={auditUser._id}>
+                    {auditUser.username}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Box sx={{ minWidth: '180px' }}>
+              <DatePicker
+                label="From"
+                value={startDate}
+                onChange={(date) => setStartDate(date)}
+                enableAccessibleFieldDOMStructure={false}
+                slots={{ textField: TextField }}
+                slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+              />
+            </Box>
+            <Box sx={{ minWidth: '180px' }}>
+              <DatePicker
+                label="To"
+                value={endDate}
+                onChange={(date) => setEndDate(date)}
+                enableAccessibleFieldDOMStructure={false}
+                slots={{ textField: TextField }}
+                slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+              />
+            </Box>
+            <Button
+              variant="contained"
+              startIcon={<SearchIcon />}
+              onClick={handleSearch}
+              disabled={loading}
+            >
+              Search
+            </Button>
+            {entityId && (
+              <Chip
+                label={`Single ${entity ? AUDIT_ENTITY_LABELS[entity].toLowerCase() : 'record'}`}
+                onDelete={() => handleEntityChange(entity)}
+              />
+            )}
+          </Box>
+        </Paper>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Paper>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>When</TableCell>
+                  <TableCell>User</TableCell>
+                  <TableCell>Action</TableCell>
+                  <TableCell>Record</TableCell>
+                  <TableCell>Changes</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} align="center">Loading audit trail...</TableCell>
+                  </TableRow>
+                ) : entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} align="center">No audit entries found.</TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map((entry) => (
+                    <TableRow key={entry._id} sx={{ verticalAlign: 'top' }}>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                        {dayjs(entry.timestamp).format('DD MMM YYYY HH:mm')}
+                      </TableCell>
+                      <TableCell>{entry.username || '-'}</TableCell>
+                      <TableCell>
+                        <Chip label={entry.action} color={ACTION_COLORS[entry.action]} size="small" />
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2">{AUDIT_ENTITY_LABELS[entry.entity]}</Typography>
+                        <Typography variant="caption" color="textSecondary">
+                          {entry.entityLabel || entry.entityId}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        {entry.changes.map((change) => (
+                          <Box key={change.field} sx={{ mb: 0.5 }}>
+                            <Typography variant="body2" component="span" fontWeight="bold">
+                              {change.field}:
+                            </Typography>{' '}
+                            <Typography
+                              variant="body2"
+                              component="span"
+                              color="error.main"
+                              sx={{ wordBreak: 'break-word' }}
+                            >
+                              {formatValue(change.before)}
+                            </Typography>
+                            {' → '}
+                            <Typography
+                              variant="body2"
+                              component="span"
+                              color="success.main"
+                              sx={{ wordBreak: 'break-word' }}
+                            >
+                              {formatValue(change.after)}
+                            </Typography>
+                          </Box>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          <TablePagination
+            component="div"
+            count={total}
+            page={page}
+            onPageChange={(_, newPage) => setPage(newPage)}
+            rowsPerPage={rowsPerPage}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value, 10));
+              setPage(0);
+            }}
+            rowsPerPageOptions={[25, 50, 100]}
+          />
+        </Paper>
+      </Box>
+    </LocalizationProvider>
+  );
+};
+
+export default AuditTrail;
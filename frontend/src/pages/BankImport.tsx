@@ -0,0 +1,650 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Alert,
+  Chip,
+  Stepper,
+  Step,
+  StepLabel,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Checkbox,
+  RadioGroup,
+  Radio,
+} from '@mui/material';
+import { UploadFile as UploadIcon } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+import {
+  accountAPI,
+  bankImportAPI,
+  Account,
+  BankStatementRow,
+  BankImportPreviewRow,
+  BankImportResult,
+  ParsedStatement,
+} from '../services/api';
+import { parseCsv, parseAmount } from '../services/csv';
+
+dayjs.extend(customParseFormat);
+
+const STEPS = ['Upload Statement', 'Map Columns', 'Review & Import'];
+
+// Files with these extensions are parsed by the backend instead of mapped as CSV
+const STATEMENT_EXTENSIONS = ['ofx', 'qfx', 'qif', 'sta', 'mt940', '940'];
+
+const FORMAT_LABELS: Record<ParsedStatement['format'], string> = {
+  ofx: 'OFX',
+  qif: 'QIF',
+  mt940: 'MT940',
+};
+
+const normalizeAccountNo = (value?: string) => (value || '').replace(/[\s-]/g, '').toUpperCase();
+
+const DATE_FORMATS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD-MM-YYYY', 'DD.MM.YYYY', 'D MMM YYYY'];
+
+type AmountMode = 'signed' | 'split';
+
+interface ColumnMapping {
+  date: string;
+  dateFormat: string;
+  description: string;
+  reference: string;
+  amountMode: AmountMode;
+  amount: string;
+  moneyIn: string;
+  moneyOut: string;
+}
+
+const emptyMapping: ColumnMapping = {
+  date: '',
+  dateFormat: DATE_FORMATS[0],
+  description: '',
+  reference: '',
+  amountMode: 'signed',
+  amount: '',
+  moneyIn: '',
+  moneyOut: '',
+};
+
+// Preselect columns whose header looks like the field
+const guessMapping = (headers: string[]): ColumnMapping => {
+  const find = (pattern: RegExp) => {
+    const index = headers.findIndex((header) => pattern.test(header));
+    return index >= 0 ? String(index) : '';
+  };
+  const moneyIn = find(/credit|deposit|paid in|money in/i);
+  const moneyOut = find(/debit|withdrawal|paid out|money out/i);
+  return {
+    ...emptyMapping,
+    date: find(/date/i),
+    description: find(/desc|narration|details|payee|memo|particular/i),
+    reference: find(/ref|cheque|check/i),
+    amountMode: moneyIn && moneyOut ? 'split' : 'signed',
+    amount: find(/amount|value/i),
+    moneyIn,
+    moneyOut,
+  };
+};
+
+const formatMoney = (amount?: number) =>
+  amount === undefined ? '' : `$${Math.abs(amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+const BankImport: React.FC = () => {
+  const [activeStep, setActiveStep] = useState<number>(0);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [bankAccount, setBankAccount] = useState<string>('');
+  const [fileName, setFileName] = useState<string>('');
+  const [cells, setCells] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState<boolean>(true);
+  const [statementText, setStatementText] = useState<string>('');
+  const [parsed, setParsed] = useState<ParsedStatement | null>(null);
+  const [qifDateOrder, setQifDateOrder] = useState<'MDY' | 'DMY'>('MDY');
+  const [mapping, setMapping] = useState<ColumnMapping>(emptyMapping);
+  const [statementRows, setStatementRows] = useState<BankStatementRow[]>([]);
+  const [previewRows, setPreviewRows] = useState<BankImportPreviewRow[]>([]);
+  const [contraAccounts, setContraAccounts] = useState<Record<number, string>>({});
+  const [defaultContra, setDefaultContra] = useState<string>('');
+  const [result, setResult] = useState<BankImportResult | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  const loadAccounts = async () => {
+    try {
+      const response = await accountAPI.getAll();
+      setAccounts(response.data);
+    } catch (error) {
+      console.error('Error loading accounts:', error);
+      setError('Failed to load accounts');
+    }
+  };
+
+  const ownerAccounts = accounts.filter((account) => account.isOwnerAccount);
+  const headers = cells.length
+    ? cells[0].map((cell, index) => (hasHeader && cell ? cell : `Column ${index + 1}`))
+    : [];
+  const dataRows = hasHeader ? cells.slice(1) : cells;
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result || '');
+      setError('');
+      setResult(null);
+      setFileName(file.name);
+
+      if (STATEMENT_EXTENSIONS.includes(extension)) {
+        setCells([]);
+        setStatementText(text);
+        parseStatementFile(text, qifDateOrder);
+        return;
+      }
+
+      const rows = parseCsv(text);
+      if (rows.length === 0) {
+        setError('The file has no rows');
+        return;
+      }
+      setStatementText('');
+      setParsed(null);
+      setCells(rows);
+      setMapping(guessMapping(rows[0]));
+    };
+    reader.onerror = () => setError('Failed to read the file');
+    reader.readAsText(file);
+  };
+
+  const parseStatementFile = async (text: string, dateOrder: 'MDY' | 'DMY') => {
+    setLoading(true);
+    setParsed(null);
+    try {
+      const response = await bankImportAPI.parse(text, dateOrder);
+      setParsed(response.data);
+    } catch (error: any) {
+      console.error('Error parsing statement:', error);
+      setError(error.response?.data?.message || 'Failed to read the statement file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleQifDateOrderChange = (dateOrder: 'MDY' | 'DMY') => {
+    setQifDateOrder(dateOrder);
+    parseStatementFile(statementText, dateOrder);
+  };
+
+  // OFX, QIF and MT940 files are already normalised, so they skip column mapping
+  const handleUploadNext = () => {
+    if (parsed) {
+      loadPreview(parsed.rows.map(({ date, description, amount, reference, bankTransactionId }) => ({
+        date,
+        description,
+        amount,
+        reference,
+        bankTransactionId,
+      })));
+    } else {
+      setActiveStep(1);
+    }
+  };
+
+  const updateMapping = (changes: Partial<ColumnMapping>) => {
+    setMapping((current) => ({ ...current, ...changes }));
+  };
+
+  // Turn the mapped CSV cells into statement rows; unreadable values reach the backend
+  // as blanks so they are reported on the row instead of silently dropped
+  const buildRows = (): BankStatementRow[] =>
+    dataRows.map((row) => {
+      const cell = (column: string) => (column === '' ? '' : row[Number(column)] || '');
+      const date = dayjs(cell(mapping.date), mapping.dateFormat, true);
+      const amount =
+        mapping.amountMode === 'signed'
+          ? parseAmount(cell(mapping.amount)) || 0
+          : Math.abs(parseAmount(cell(mapping.moneyIn)) || 0) - Math.abs(parseAmount(cell(mapping.moneyOut)) || 0);
+
+      return {
+        date: date.isValid() ? date.format('YYYY-MM-DD') : '',
+        description: cell(mapping.description),
+        amount,
+        reference: cell(mapping.reference) || undefined,
+      };
+    });
+
+  const validateMapping = () => {
+    if (mapping.date === '') return 'Choose the date column';
+    if (mapping.description === '') return 'Choose the description column';
+    if (mapping.amountMode === 'signed' && mapping.amount === '') return 'Choose the amount column';
+    if (mapping.amountMode === 'split' && (mapping.moneyIn === '' || mapping.moneyOut === '')) {
+      return 'Choose both the money in and money out columns';
+    }
+    return '';
+  };
+
+  const loadPreview = async (rows: BankStatementRow[]) => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await bankImportAPI.preview(bankAccount, rows);
+      setStatementRows(rows);
+      setPreviewRows(response.data.rows);
+      setContraAccounts({});
+      setActiveStep(2);
+    } catch (error: any) {
+      console.error('Error previewing import:', error);
+      setError(error.response?.data?.message || 'Failed to preview the statement');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMappingNext = () => {
+    const mappingError = validateMapping();
+    if (mappingError) {
+      setError(mappingError);
+      return;
+    }
+    loadPreview(buildRows());
+  };
+
+  const isImportable = (row: BankImportPreviewRow) => !row.error && !row.duplicateOf;
+
+  const handleApplyDefault = () => {
+    if (!defaultContra) return;
+    setContraAccounts((current) => {
+      const next = { ...current };
+      previewRows.filter(isImportable).forEach((row) => {
+        if (!next[row.row]) next[row.row] = defaultContra;
+      });
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await bankImportAPI.commit(
+        bankAccount,
+        statementRows.map((row, index) => ({ ...row, contraAccount: contraAccounts[index + 1] || undefined }))
+      );
+      setResult(response.data);
+      // Refresh duplicate flags so the same rows cannot be posted twice
+      const preview = await bankImportAPI.preview(bankAccount, statementRows);
+      setPreviewRows(preview.data.rows);
+      setContraAccounts({});
+    } catch (error: any) {
+      console.error('Error importing statement:', error);
+      setError(error.response?.data?.message || 'Failed to import the statement');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartOver = () => {
+    setActiveStep(0);
+    setFileName('');
+    setCells([]);
+    setStatementText('');
+    setParsed(null);
+    setStatementRows([]);
+    setPreviewRows([]);
+    setContraAccounts({});
+    setResult(null);
+    setError('');
+  };
+
+  const selectedAccount = ownerAccounts.find((account) => account._id === bankAccount);
+  const accountMismatch = Boolean(
+    parsed?.accountNumber &&
+      selectedAccount?.accountNo &&
+      !normalizeAccountNo(parsed.accountNumber).endsWith(normalizeAccountNo(selectedAccount.accountNo))
+  );
+
+  const parseErrors = parsed && parsed.errors.length > 0 && (
+    <Alert severity="warning" sx={{ mb: 2 }}>
+      {parsed.errors.length} line(s) could not be read and will not be imported:
+      {parsed.errors.map((parseError) => (
+        <div key={parseError.line}>
+          Line {parseError.line}: {parseError.message}
+        </div>
+      ))}
+    </Alert>
+  );
+
+  const selectedCount = previewRows.filter((row) => isImportable(row) && contraAccounts[row.row]).length;
+
+  const columnSelect = (label: string, value: string, onChange: (value: string) => void, optional = false) => (
+    <FormControl size="small" sx={{ minWidth: '200px' }}>
+      <InputLabel>{label}</InputLabel>
+      <Select value={value} onChange={(e) => onChange(e.target.value)} label={label}>
+        {optional && <MenuItem value="">None</MenuItem>}
+        {headers.map((header, index) => (
+          <MenuItem key={index} value={String(index)}>
+            {header}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Typography variant="h4" sx={{ mb: 3 }}>
+        Bank Statement Import
+      </Typography>
+
+      <Stepper activeStep={activeStep} sx={{ mb: 3 }}>
+        {STEPS.map((label) => (
+          <Step key={label}>
+            <StepLabel>{label}</StepLabel>
+          </Step>
+        ))}
+      </Stepper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {activeStep === 0 && (
+        <Paper sx={{ p: 3 }}>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+            <FormControl sx={{ minWidth: '280px' }}>
+              <InputLabel>Bank / Cash Account</InputLabel>
+              <Select
+                value={bankAccount}
+                onChange={(e) => setBankAccount(e.target.value)}
+                label="Bank / Cash Account"
+              >
+                {ownerAccounts.map((account) => (
+                  <MenuItem key={account._id} value={account._id}>
+                    {account.name}
+                    {account.accountNo ? ` – ${account.accountNo}` : ''}
+                    {account.branch ? ` (${account.branch})` : ''}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button variant="outlined" component="label" startIcon={<UploadIcon />}>
+              Choose Statement File
+              <input
+                type="file"
+                hidden
+                accept=".csv,.txt,text/csv,.ofx,.qfx,.qif,.sta,.mt940,.940"
+                onChange={handleFileChange}
+              />
+            </Button>
+            {fileName && (
+              <Typography variant="body2">
+                {fileName} –{' '}
+                {parsed
+                  ? `${FORMAT_LABELS[parsed.format]}, ${parsed.rows.length} transaction(s)`
+                  : statementText
+                  ? 'reading...'
+                  : `${cells.length} line(s)`}
+              </Typography>
+            )}
+            {parsed?.format === 'qif' && (
+              <FormControl size="small" sx={{ minWidth: '180px' }}>
+                <InputLabel>QIF Date Order</InputLabel>
+                <Select
+                  value={qifDateOrder}
+                  onChange={(e) => handleQifDateOrderChange(e.target.value as 'MDY' | 'DMY')}
+                  label="QIF Date Order"
+                >
+                  <MenuItem value="MDY">Month first (MM/DD)</MenuItem>
+                  <MenuItem value="DMY">Day first (DD/MM)</MenuItem>
+                </Select>
+              </FormControl>
+            )}
+          </Box>
+          {parseErrors}
+          {accountMismatch && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              The file is for account {parsed?.accountNumber}, but {selectedAccount?.name} has account
+              number {selectedAccount?.accountNo}.
+            </Alert>
+          )}
+          {ownerAccounts.length === 0 && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Mark a bank or cash account as an owner account on the Accounts page to import into it.
+            </Alert>
+          )}
+          {!parsed && (
+            <FormControlLabel
+              control={<Checkbox checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />}
+              label="First line contains column headings"
+            />
+          )}
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+            <Button
+              variant="contained"
+              onClick={handleUploadNext}
+              disabled={loading || !bankAccount || (cells.length === 0 && !parsed?.rows.length)}
+            >
+              {parsed ? 'Preview' : 'Next'}
+            </Button>
+          </Box>
+        </Paper>
+      )}
+
+      {activeStep === 1 && (
+        <Paper sx={{ p: 3 }}>
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+            {columnSelect('Date Column', mapping.date, (value) => updateMapping({ date: value }))}
+            <FormControl size="small" sx={{ minWidth: '160px' }}>
+              <InputLabel>Date Format</InputLabel>
+              <Select
+                value={mapping.dateFormat}
+                onChange={(e) => updateMapping({ dateFormat: e.target.value })}
+                label="Date Format"
+              >
+                {DATE_FORMATS.map((format) => (
+                  <MenuItem key={format} value={format}>
+                    {format}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            {columnSelect('Description Column', mapping.description, (value) => updateMapping({ description: value }))}
+            {columnSelect('Reference Column', mapping.reference, (value) => updateMapping({ reference: value }), true)}
+          </Box>
+
+          <RadioGroup
+            row
+            value={mapping.amountMode}
+            onChange={(e) => updateMapping({ amountMode: e.target.value as AmountMode })}
+            sx={{ mb: 2 }}
+          >
+            <FormControlLabel value="signed" control={<Radio />} label="One amount column (negative = money out)" />
+            <FormControlLabel value="split" control={<Radio />} label="Separate money in / money out columns" />
+          </RadioGroup>
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 3 }}>
+            {mapping.amountMode === 'signed' ? (
+              columnSelect('Amount Column', mapping.amount, (value) => updateMapping({ amount: value }))
+            ) : (
+              <>
+                {columnSelect('Money In (Credit) Column', mapping.moneyIn, (value) => updateMapping({ moneyIn: value }))}
+                {columnSelect('Money Out (Debit) Column', mapping.moneyOut, (value) => updateMapping({ moneyOut: value }))}
+              </>
+            )}
+          </Box>
+
+          <Typography variant="subtitle2" gutterBottom>
+            First rows of {fileName}
+          </Typography>
+          <TableContainer sx={{ mb: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  {headers.map((header, index) => (
+                    <TableCell key={index}>{header}</TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {dataRows.slice(0, 5).map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {headers.map((_, index) => (
+                      <TableCell key={index}>{row[index]}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Button onClick={() => setActiveStep(0)} disabled={loading}>
+              Back
+            </Button>
+            <Button variant="contained" onClick={handleMappingNext} disabled={loading}>
+              {loading ? 'Checking...' : 'Preview'}
+            </Button>
+          </Box>
+        </Paper>
+      )}
+
+      {activeStep === 2 && (
+        <Paper sx={{ p: 3 }}>
+          {parseErrors}
+          {result && (
+            <Alert severity={result.skipped.length ? 'warning' : 'success'} sx={{ mb: 2 }}>
+              {result.message}
+              {result.skipped.map((skip) => (
+                <div key={skip.row}>
+                  Row {skip.row}: {skip.reason}
+                </div>
+              ))}
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+            <FormControl size="small" sx={{ minWidth: '240px' }}>
+              <InputLabel>Contra Account</InputLabel>
+              <Select
+                value={defaultContra}
+                onChange={(e) => setDefaultContra(e.target.value)}
+                label="Contra Account"
+              >
+                {accounts
+                  .filter((account) => account._id !== bankAccount)
+                  .map((account) => (
+                    <MenuItem key={account._id} value={account._id}>
+                      {account.name}
+                    </MenuItem>
+                  ))}
+              </Select>
+            </FormControl>
+            <Button variant="outlined" onClick={handleApplyDefault} disabled={!defaultContra}>
+              Apply to Unassigned Rows
+            </Button>
+            <Typography variant="body2" color="textSecondary">
+              Rows without a contra account are not imported.
+            </Typography>
+          </Box>
+
+          <TableContainer sx={{ mb: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Row</TableCell>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Description</TableCell>
+                  <TableCell align="right">Money In</TableCell>
+                  <TableCell align="right">Money Out</TableCell>
+                  <TableCell>Contra Account</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {previewRows.map((row) => (
+                  <TableRow key={row.row}>
+                    <TableCell>{row.row}</TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {row.date ? dayjs(row.date).format('DD MMM YYYY') : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {row.description}
+                      {row.reference && (
+                        <Typography variant="caption" color="textSecondary" display="block">
+                          Ref {row.reference}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">{row.amount && row.amount > 0 ? formatMoney(row.amount) : ''}</TableCell>
+                    <TableCell align="right">{row.amount && row.amount < 0 ? formatMoney(row.amount) : ''}</TableCell>
+                    <TableCell>
+                      {row.error ? (
+                        <Chip label={row.error} color="error" size="small" />
+                      ) : row.duplicateOf ? (
+                        <Chip label={`Imported as #${row.duplicateOf}`} size="small" />
+                      ) : (
+                        <FormControl size="small" fullWidth>
+                          <Select
+                            value={contraAccounts[row.row] || ''}
+                            onChange={(e) =>
+                              setContraAccounts({ ...contraAccounts, [row.row]: e.target.value })
+                            }
+                            displayEmpty
+                          >
+                            <MenuItem value="">Don't import</MenuItem>
+                            {accounts
+                              .filter((account) => account._id !== bankAccount)
+                              .map((account) => (
+                                <MenuItem key={account._id} value={account._id}>
+                                  {account.name}
+                                </MenuItem>
+                              ))}
+                          </Select>
+                        </FormControl>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button onClick={() => setActiveStep(parsed ? 0 : 1)} disabled={loading}>
+                Back
+              </Button>
+              <Button onClick={handleStartOver} disabled={loading}>
+                Start Over
+              </Button>
+            </Box>
+            <Button variant="contained" onClick={handleImport} disabled={loading || selectedCount === 0}>
+              {loading ? 'Importing...' : `Import ${selectedCount} Row(s)`}
+            </Button>
+          </Box>
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default BankImport;
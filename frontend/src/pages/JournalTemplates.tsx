@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Alert,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { templateAPI, JournalTemplate, JournalTemplateDetail } from '../services/api';
+import { useAuth } from '../components/AuthProvider';
+
+const accountName = (detail: JournalTemplateDetail) =>
+  typeof detail.account === 'string' ? detail.account : detail.account?.name || 'Deleted account';
+
+const JournalTemplates: React.FC = () => {
+  const { canWrite } = useAuth();
+  const [templates, setTemplates] = useState<JournalTemplate[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState<boolean>(false);
+  const [selectedTemplate, setSelectedTemplate] = useState<JournalTemplate | null>(null);
+  const [error, setError] = useState<string>('');
+  const [deleteLoading, setDeleteLoading] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await templateAPI.getAll();
+      setTemplates(response.data);
+    } catch (error) {
+      console.error('Error loading templates:', error);
+      setError('Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteClick = (template: JournalTemplate) => {
+    setSelectedTemplate(template);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!selectedTemplate) return;
+
+    setDeleteLoading(true);
+    try {
+      await templateAPI.delete(selectedTemplate._id);
+      setDeleteDialogOpen(false);
+      setSelectedTemplate(null);
+      loadTemplates();
+    } catch (error: any) {
+      console.error('Error deleting template:', error);
+      setError(error.response?.data?.message || 'Failed to delete template');
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  const handleDeleteDialogClose = () => {
+    setDeleteDialogOpen(false);
+    setSelectedTemplate(null);
+  };
+
+  if (loading) return <div>Loading...</div>;
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4">Journal Templates</Typography>
+        <Button
+          variant="outlined"
+          startIcon={<RefreshIcon />}
+          onClick={loadTemplates}
+        >
+          Refresh
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper>
+        <TableContainer>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Lines</TableCell>
+                <TableCell>Created</TableCell>
+                {canWrite && <TableCell align="center">Actions</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {templates.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} align="center">
+                    No templates yet. Save one from the transaction form or a transaction's row actions.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                templates.map((template) => (
+                  <TableRow key={template._id} sx={{ verticalAlign: 'top' }}>
+                    <TableCell>
+                      <Typography variant="subtitle2">{template.name}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      {template.details.map((detail, index) => (
+                        <Typography key={index} variant="body2">
+                          {detail.type === 'debit' ? 'Dr' : 'Cr'} {accountName(detail)}
+                          {detail.description ? ` – ${detail.description}` : ''}
+                          {detail.amount ? ` ($${detail.amount.toLocaleString()})` : ''}
+                        </Typography>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      {dayjs(template.createdAt).format('DD MMM YYYY')}
+                      {template.createdBy && (
+                        <Typography variant="caption" color="textSecondary" display="block">
+                          by {template.createdBy.name || template.createdBy.username}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    {canWrite && (
+                      <TableCell align="center">
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => handleDeleteClick(template)}
+                          title="Delete Template"
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onClose={handleDeleteDialogClose}>
+        <DialogTitle>Confirm Delete</DialogTitle>
+        <DialogContent>
+          Are you sure you want to delete the template "{selectedTemplate?.name}"?
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleDeleteDialogClose} disabled={deleteLoading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleDeleteConfirm}
+            color="error"
+            variant="contained"
+            disabled={deleteLoading}
+          >
+            {deleteLoading ? 'Deleting...' : 'Delete'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default JournalTemplates;
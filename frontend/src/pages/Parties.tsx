@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Alert,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Refresh as RefreshIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  ReceiptLong as StatementIcon,
+  FactCheck as AuditIcon,
+} from '@mui/icons-material';
+import { partyAPI, Party } from '../services/api';
+import AddPartyModal from '../components/AddPartyModal';
+import { useAuth } from '../components/AuthProvider';
+
+const Parties: React.FC = () => {
+  const navigate = useNavigate();
+  const { canWrite, canViewAudit } = useAuth();
+  const [parties, setParties] = useState<Party[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [addModalOpen, setAddModalOpen] = useState<boolean>(false);
+  const [editModalOpen, setEditModalOpen] = useState<boolean>(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState<boolean>(false);
+  const [selectedParty, setSelectedParty] = useState<Party | null>(null);
+  const [error, setError] = useState<string>('');
+  const [deleteLoading, setDeleteLoading] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadParties();
+  }, []);
+
+  const loadParties = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await partyAPI.getAll();
+      setParties(response.data);
+    } catch (error) {
+      console.error('Error loading parties:', error);
+      setError('Failed to load parties');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEditClick = (party: Party) => {
+    setSelectedParty(party);
+    setEditModalOpen(true);
+  };
+
+  const handleDeleteClick = (party: Party) => {
+    setSelectedParty(party);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!selectedParty) return;
+
+    setDeleteLoading(true);
+    try {
+      await partyAPI.delete(selectedParty._id);
+      setDeleteDialogOpen(false);
+      setSelectedParty(null);
+      loadParties();
+    } catch (error: any) {
+      console.error('Error deleting party:', error);
+      setError(error.response?.data?.message || 'Failed to delete party');
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  const handleDeleteDialogClose = () => {
+    setDeleteDialogOpen(false);
+    setSelectedParty(null);
+  };
+
+  if (loading) return <div>Loading...</div>;
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4">Parties</Typography>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <Button
+            variant="outlined"
+            startIcon={<RefreshIcon />}
+            onClick={loadParties}
+          >
+            Refresh
+          </Button>
+          {canWrite && (
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => setAddModalOpen(true)}
+            >
+              Add Party
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper>
+        <TableContainer>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Contact</TableCell>
+                <TableCell>Address</TableCell>
+                <TableCell align="center">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {parties.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} align="center">
+                    No parties found. Click "Add Party" to create your first party.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                parties.map((party) => (
+                  <TableRow key={party._id}>
+                    <TableCell>
+                      <Typography variant="subtitle2">{party.name}</Typography>
+                    </TableCell>
+                    <TableCell>{party.contact || '-'}</TableCell>
+                    <TableCell>{party.address || '-'}</TableCell>
+                    <TableCell align="center">
+                      <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center' }}>
+                        <IconButton
+                          size="small"
+                          onClick={() => navigate(`/parties/${party._id}/statement`)}
+                          title="View Statement"
+                        >
+                          <StatementIcon fontSize="small" />
+                        </IconButton>
+                        {canViewAudit && (
+                          <IconButton
+                            size="small"
+                            onClick={() => navigate(`/audit?entity=Party&entityId=${party._id}`)}
+                            title="Audit Trail"
+                          >
+                            <AuditIcon fontSize="small" />
+                          </IconButton>
+                        )}
+                        {canWrite && (
+                          <>
+                            <IconButton
+                              size="small"
+                              color="primary"
+                              onClick={() => handleEditClick(party)}
+                              title="Edit Party"
+                            >
+                              <EditIcon fontSize="small" />
+                            </IconButton>
+                            <IconButton
+                              size="small"
+                              color="error"
+                              onClick={() => handleDeleteClick(party)}
+                              title="Delete Party"
+                            >
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </>
+                        )}
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      {/* Add Party Modal */}
+      <AddPartyModal
+        open={addModalOpen}
+        onClose={() => setAddModalOpen(false)}
+        onPartyAdded={loadParties}
+      />
+
+      {/* Edit Party Modal */}
+      <AddPartyModal
+        open={editModalOpen}
+        onClose={() => {
+          setEditModalOpen(false);
+          setSelectedParty(null);
+        }}
+        onPartyAdded={loadParties}
+        editParty={selectedParty}
+      />
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onClose={handleDeleteDialogClose}>
+        <DialogTitle>Confirm Delete</DialogTitle>
+        <DialogContent>
+          Are you sure you want to delete the party "{selectedParty?.name}"?
+          <br />
+          <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+            This action cannot be undone.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleDeleteDialogClose} disabled={deleteLoading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleDeleteConfirm}
+            color="error"
+            variant="contained"
+            disabled={deleteLoading}
+          >
+            {deleteLoading ? 'Deleting...' : 'Delete'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Parties;
@@ -0,0 +1,209 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Alert,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Search as SearchIcon,
+  Print as PrintIcon,
+  FactCheck as AuditIcon,
+} from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import dayjs, { Dayjs } from 'dayjs';
+import { partyAPI, PartyStatement as PartyStatementData } from '../services/api';
+import { useAuth } from '../components/AuthProvider';
+
+// Positive balances are owed to us (Dr), negative ones are owed by us (Cr)
+const formatBalance = (balance: number) =>
+  `$${Math.abs(balance).toLocaleString()} ${balance < 0 ? 'Cr' : 'Dr'}`;
+
+const formatAmount = (amount: number) => (amount ? `$${amount.toLocaleString()}` : '-');
+
+const PartyStatement: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { canViewAudit } = useAuth();
+  const [startDate, setStartDate] = useState<Dayjs | null>(dayjs().subtract(3, 'month'));
+  const [endDate, setEndDate] = useState<Dayjs | null>(dayjs());
+  // Period of the statement on screen; Generate Statement applies the pickers
+  const [shown, setShown] = useState({ startDate, endDate });
+  const [statement, setStatement] = useState<PartyStatementData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const loadStatement = useCallback(async () => {
+    if (!id) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      const response = await partyAPI.getStatement(id, {
+        from: shown.startDate ? shown.startDate.format('YYYY-MM-DD') : undefined,
+        to: shown.endDate ? shown.endDate.format('YYYY-MM-DD') : undefined,
+      });
+      setStatement(response.data);
+    } catch (error: any) {
+      console.error('Error loading party statement:', error);
+      setError(error.response?.data?.message || 'Failed to load party statement');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, shown]);
+
+  useEffect(() => {
+    loadStatement();
+  }, [loadStatement]);
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDayjs}>
+      <Box sx={{ p: 3 }}>
+        <Paper sx={{ p: 3, mb: 3, displayPrint: 'none' }}>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+            <Button startIcon={<ArrowBackIcon />} onClick={() => navigate('/parties')}>
+              Parties
+            </Button>
+            <Box sx={{ minWidth: '200px' }}>
+              <DatePicker
+                label="Start Date"
+                value={startDate}
+                onChange={(date) => setStartDate(date)}
+                enableAccessibleFieldDOMStructure={false}
+                slots={{ textField: TextField }}
+                slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+              />
+            </Box>
+            <Box sx={{ minWidth: '200px' }}>
+              <DatePicker
+                label="End Date"
+                value={endDate}
+                onChange={(date) => setEndDate(date)}
+                enableAccessibleFieldDOMStructure={false}
+                slots={{ textField: TextField }}
+                slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+              />
+            </Box>
+            <Button
+              variant="contained"
+              startIcon={<SearchIcon />}
+              onClick={() => setShown({ startDate, endDate })}
+              disabled={loading}
+            >
+              Generate Statement
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<PrintIcon />}
+              onClick={() => window.print()}
+              disabled={!statement}
+            >
+              Print
+            </Button>
+            {canViewAudit && (
+              <Button
+                startIcon={<AuditIcon />}
+                onClick={() => navigate(`/audit?entity=Party&entityId=${id}`)}
+              >
+                Audit Trail
+              </Button>
+            )}
+          </Box>
+        </Paper>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <div>Loading statement...</div>
+        ) : statement && (
+          <Paper sx={{ p: 3 }}>
+            <Box sx={{ mb: 2 }}>
+              <Typography variant="h5">Statement of Account</Typography>
+              <Typography variant="h6">{statement.party.name}</Typography>
+              {statement.party.address && (
+                <Typography variant="body2">{statement.party.address}</Typography>
+              )}
+              {statement.party.contact && (
+                <Typography variant="body2">{statement.party.contact}</Typography>
+              )}
+              <Typography variant="body2" color="textSecondary" sx={{ mt: 1 }}>
+                {statement.from ? dayjs(statement.from).format('DD MMM YYYY') : 'Beginning'}
+                {' – '}
+                {statement.to ? dayjs(statement.to).format('DD MMM YYYY') : 'Today'}
+              </Typography>
+            </Box>
+
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Transaction ID</TableCell>
+                    <TableCell>Account</TableCell>
+                    <TableCell>Description</TableCell>
+                    <TableCell align="right">Debit</TableCell>
+                    <TableCell align="right">Credit</TableCell>
+                    <TableCell align="right">Balance</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  <TableRow>
+                    <TableCell colSpan={6}>
+                      <Typography fontWeight="bold">Opening Balance</Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Typography fontWeight="bold">{formatBalance(statement.openingBalance)}</Typography>
+                    </TableCell>
+                  </TableRow>
+                  {statement.lines.map((line) => (
+                    <TableRow key={`${line.transaction}-${line.serialNo}`}>
+                      <TableCell>{new Date(line.date).toLocaleDateString()}</TableCell>
+                      <TableCell>{line.transactionId}</TableCell>
+                      <TableCell>{line.accountName || '-'}</TableCell>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell align="right">{formatAmount(line.debit)}</TableCell>
+                      <TableCell align="right">{formatAmount(line.credit)}</TableCell>
+                      <TableCell align="right">{formatBalance(line.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={4}>
+                      <Typography fontWeight="bold">Closing Balance</Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Typography fontWeight="bold">{formatAmount(statement.totalDebit)}</Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Typography fontWeight="bold">{formatAmount(statement.totalCredit)}</Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Typography fontWeight="bold">{formatBalance(statement.closingBalance)}</Typography>
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+        )}
+      </Box>
+    </LocalizationProvider>
+  );
+};
+
+export default PartyStatement;
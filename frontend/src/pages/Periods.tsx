@@ -0,0 +1,321 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Alert,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import {
+  ChevronLeft as PreviousIcon,
+  ChevronRight as NextIcon,
+  Lock as LockIcon,
+  LockOpen as LockOpenIcon,
+  EventAvailable as CloseYearIcon,
+} from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { periodAPI, accountAPI, Account, FiscalMonth, FiscalYearStatus } from '../services/api';
+import { useAuth } from '../components/AuthProvider';
+
+const Periods: React.FC = () => {
+  const { isAdmin } = useAuth();
+  const [year, setYear] = useState<number>(dayjs().year());
+  const [status, setStatus] = useState<FiscalYearStatus | null>(null);
+  const [equityAccounts, setEquityAccounts] = useState<Account[]>([]);
+  const [retainedEarningsAccount, setRetainedEarningsAccount] = useState<string>('');
+  const [closeDialogOpen, setCloseDialogOpen] = useState<boolean>(false);
+  const [reopenDialogOpen, setReopenDialogOpen] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [actionLoading, setActionLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadEquityAccounts();
+    }
+  }, [isAdmin]);
+
+  const loadYear = useCallback(async (): Promise<void> => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await periodAPI.getYear(year);
+      setStatus(response.data);
+    } catch (error) {
+      console.error('Error loading fiscal periods:', error);
+      setError('Failed to load fiscal periods');
+    } finally {
+      setLoading(false);
+    }
+  }, [year]);
+
+  useEffect(() => {
+    loadYear();
+  }, [loadYear]);
+
+  const loadEquityAccounts = async () => {
+    try {
+      const response = await accountAPI.getAll();
+      setEquityAccounts(response.data.filter((account) => account.type?.element === 'equity'));
+    } catch (error) {
+      console.error('Error loading accounts:', error);
+    }
+  };
+
+  const handleToggleLock = async (month: FiscalMonth) => {
+    setActionLoading(true);
+    setError('');
+    try {
+      if (month.isLocked) {
+        await periodAPI.unlock(year, month.month);
+      } else {
+        await periodAPI.lock(year, month.month);
+      }
+      loadYear();
+    } catch (error: any) {
+      console.error('Error changing period lock:', error);
+      setError(error.response?.data?.message || 'Failed to change period lock');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleCloseYear = async () => {
+    setActionLoading(true);
+    setError('');
+    try {
+      await periodAPI.closeYear(year, retainedEarningsAccount || undefined);
+      setCloseDialogOpen(false);
+      loadYear();
+    } catch (error: any) {
+      console.error('Error closing year:', error);
+      setError(error.response?.data?.message || 'Failed to close year');
+      setCloseDialogOpen(false);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleReopenYear = async () => {
+    setActionLoading(true);
+    setError('');
+    try {
+      await periodAPI.reopenYear(year);
+      setReopenDialogOpen(false);
+      loadYear();
+    } catch (error: any) {
+      console.error('Error reopening year:', error);
+      setError(error.response?.data?.message || 'Failed to reopen year');
+      setReopenDialogOpen(false);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const closingTransaction = status?.closingTransaction;
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4">Fiscal Periods</Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <IconButton onClick={() => setYear(year - 1)} title="Previous Year">
+            <PreviousIcon />
+          </IconButton>
+          <Typography variant="h6">{year}</Typography>
+          <IconButton onClick={() => setYear(year + 1)} title="Next Year">
+            <NextIcon />
+          </IconButton>
+          {isAdmin && (closingTransaction ? (
+            <Button
+              variant="outlined"
+              color="warning"
+              onClick={() => setReopenDialogOpen(true)}
+              disabled={actionLoading}
+            >
+              Reopen {year}
+            </Button>
+          ) : (
+            <Button
+              variant="contained"
+              startIcon={<CloseYearIcon />}
+              onClick={() => setCloseDialogOpen(true)}
+              disabled={actionLoading || loading}
+            >
+              Close {year}
+            </Button>
+          ))}
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <div>Loading...</div>
+      ) : status && (
+        <>
+          <Paper sx={{ mb: 3 }}>
+            <TableContainer>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Period</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell>Locked By</TableCell>
+                    <TableCell>Locked At</TableCell>
+                    {isAdmin && <TableCell align="center">Actions</TableCell>}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {status.months.map((month) => (
+                    <TableRow key={month.month}>
+                      <TableCell>{month.name} {year}</TableCell>
+                      <TableCell>
+                        <Chip
+                          icon={month.isLocked ? <LockIcon /> : <LockOpenIcon />}
+                          label={month.isLocked ? 'Locked' : 'Open'}
+                          color={month.isLocked ? 'default' : 'success'}
+                          size="small"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {month.lockedBy ? month.lockedBy.name || month.lockedBy.username : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {month.lockedAt ? dayjs(month.lockedAt).format('DD MMM YYYY HH:mm') : '-'}
+                      </TableCell>
+                      {isAdmin && (
+                        <TableCell align="center">
+                          <Button
+                            size="small"
+                            startIcon={month.isLocked ? <LockOpenIcon /> : <LockIcon />}
+                            onClick={() => handleToggleLock(month)}
+                            disabled={actionLoading || (month.isLocked && Boolean(closingTransaction))}
+                          >
+                            {month.isLocked ? 'Unlock' : 'Lock'}
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+
+          {closingTransaction && (
+            <Paper sx={{ p: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Closing Entry #{closingTransaction.transactionId} –{' '}
+                {dayjs(closingTransaction.date).format('DD MMM YYYY')}
+              </Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Account</TableCell>
+                    <TableCell align="right">Debit</TableCell>
+                    <TableCell align="right">Credit</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {closingTransaction.details.map((detail) => (
+                    <TableRow key={detail.serialNo}>
+                      <TableCell>
+                        {typeof detail.account === 'string'
+                          ? detail.account
+                          : detail.account?.name || 'Deleted account'}
+                      </TableCell>
+                      <TableCell align="right">
+                        {detail.type === 'debit' ? `$${detail.amount.toLocaleString()}` : '-'}
+                      </TableCell>
+                      <TableCell align="right">
+                        {detail.type === 'credit' ? `$${detail.amount.toLocaleString()}` : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+          )}
+        </>
+      )}
+
+      {/* Close Year Dialog */}
+      <Dialog open={closeDialogOpen} onClose={() => setCloseDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Close {year}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            A closing entry dated 31 December {year} will move every income and expense
+            balance for the year into retained earnings, and all months of {year} will be locked.
+          </Typography>
+          <FormControl fullWidth>
+            <InputLabel>Retained Earnings Account</InputLabel>
+            <Select
+              value={retainedEarningsAccount}
+              onChange={(e) => setRetainedEarningsAccount(e.target.value)}
+              label="Retained Earnings Account"
+            >
+              <MenuItem value="">Retained Earnings (created if missing)</MenuItem>
+              {equityAccounts.map((account) => (
+                <MenuItem key={account._id} value={account._id}>
+                  {account.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCloseDialogOpen(false)} disabled={actionLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleCloseYear} variant="contained" disabled={actionLoading}>
+            {actionLoading ? 'Closing...' : 'Close Year'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Reopen Year Dialog */}
+      <Dialog open={reopenDialogOpen} onClose={() => setReopenDialogOpen(false)}>
+        <DialogTitle>Reopen {year}</DialogTitle>
+        <DialogContent>
+          The closing entry will be deleted. Months stay locked until you unlock them.
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setReopenDialogOpen(false)} disabled={actionLoading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleReopenYear}
+            color="warning"
+            variant="contained"
+            disabled={actionLoading}
+          >
+            {actionLoading ? 'Reopening...' : 'Reopen'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Periods;
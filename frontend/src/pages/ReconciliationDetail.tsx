@@ -0,0 +1,359 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Alert,
+  Card,
+  CardContent,
+  Checkbox,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Summarize as ReportIcon,
+  DoneAll as CompleteIcon,
+  Delete as DeleteIcon,
+  Undo as UndoIcon,
+} from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { reconciliationAPI, ReconciliationDetail as ReconciliationData, ReconciliationLine } from '../services/api';
+import { useAuth } from '../components/AuthProvider';
+
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+const SummaryCard: React.FC<{ label: string; value: number; color?: string }> = ({ label, value, color }) => (
+  <Card>
+    <CardContent>
+      <Typography color="textSecondary" variant="body2">
+        {label}
+      </Typography>
+      <Typography variant="h5" color={color}>
+        {formatMoney(value)}
+      </Typography>
+    </CardContent>
+  </Card>
+);
+
+const ReconciliationDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { canWrite, isAdmin } = useAuth();
+  const [reconciliation, setReconciliation] = useState<ReconciliationData | null>(null);
+  const [statementBalance, setStatementBalance] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState<boolean>(false);
+
+  const loadReconciliation = useCallback(async () => {
+    if (!id) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      const response = await reconciliationAPI.getById(id);
+      setReconciliation(response.data);
+      setStatementBalance(String(response.data.statementBalance));
+    } catch (error: any) {
+      console.error('Error loading reconciliation:', error);
+      setError(error.response?.data?.message || 'Failed to load reconciliation');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadReconciliation();
+  }, [loadReconciliation]);
+
+  const isDraft = reconciliation?.status === 'draft';
+  const editable = isDraft && canWrite;
+
+  const saveCleared = async (lines: ReconciliationLine[]) => {
+    if (!reconciliation) return;
+
+    // Tick locally straight away; the response brings the recalculated totals
+    setReconciliation({ ...reconciliation, lines });
+    setSaving(true);
+    try {
+      const response = await reconciliationAPI.update(reconciliation._id, {
+        clearedLines: lines.filter((line) => line.cleared).map((line) => line.detail),
+      });
+      setReconciliation(response.data);
+    } catch (error: any) {
+      console.error('Error saving cleared lines:', error);
+      setError(error.response?.data?.message || 'Failed to save cleared lines');
+      loadReconciliation();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleLine = (detail: string) => {
+    if (!reconciliation) return;
+    saveCleared(
+      reconciliation.lines.map((line) => (line.detail === detail ? { ...line, cleared: !line.cleared } : line))
+    );
+  };
+
+  const handleToggleAll = (cleared: boolean) => {
+    if (!reconciliation) return;
+    saveCleared(reconciliation.lines.map((line) => ({ ...line, cleared })));
+  };
+
+  const handleBalanceSave = async () => {
+    if (!reconciliation) return;
+    const balance = parseFloat(statementBalance);
+    if (!Number.isFinite(balance) || balance === reconciliation.statementBalance) return;
+
+    setSaving(true);
+    try {
+      const response = await reconciliationAPI.update(reconciliation._id, { statementBalance: balance });
+      setReconciliation(response.data);
+    } catch (error: any) {
+      console.error('Error updating statement balance:', error);
+      setError(error.response?.data?.message || 'Failed to update statement balance');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleComplete = async () => {
+    if (!reconciliation) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const response = await reconciliationAPI.complete(reconciliation._id);
+      setReconciliation(response.data);
+    } catch (error: any) {
+      console.error('Error completing reconciliation:', error);
+      setError(error.response?.data?.message || 'Failed to complete reconciliation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!reconciliation) return;
+
+    setSaving(true);
+    try {
+      await reconciliationAPI.delete(reconciliation._id);
+      navigate(`/reconciliations?account=${reconciliation.account._id}`);
+    } catch (error: any) {
+      console.error('Error deleting reconciliation:', error);
+      setError(error.response?.data?.message || 'Failed to delete reconciliation');
+      setDeleteDialogOpen(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return <div>Loading...</div>;
+
+  if (!reconciliation) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert severity="error">{error || 'Reconciliation not found'}</Alert>
+      </Box>
+    );
+  }
+
+  const clearedCount = reconciliation.lines.filter((line) => line.cleared).length;
+  const balanced = Math.abs(reconciliation.difference) < 0.005;
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3} flexWrap="wrap" gap={2}>
+        <Box>
+          <Button
+            startIcon={<ArrowBackIcon />}
+            onClick={() => navigate(`/reconciliations?account=${reconciliation.account._id}`)}
+          >
+            Reconciliations
+          </Button>
+          <Typography variant="h4">
+            {reconciliation.account.name} –{' '}
+            {dayjs(reconciliation.statementDate).format('DD MMM YYYY')}
+          </Typography>
+          <Chip
+            label={isDraft ? 'In Progress' : 'Completed'}
+            color={isDraft ? 'warning' : 'success'}
+            size="small"
+            sx={{ mt: 1 }}
+          />
+        </Box>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <Button
+            variant="outlined"
+            startIcon={<ReportIcon />}
+            onClick={() => navigate(`/reconciliations/${reconciliation._id}/report`)}
+          >
+            Uncleared Items
+          </Button>
+          {isDraft && canWrite && (
+            <Button color="error" startIcon={<DeleteIcon />} onClick={() => setDeleteDialogOpen(true)}>
+              Delete
+            </Button>
+          )}
+          {!isDraft && isAdmin && (
+            <Button color="warning" startIcon={<UndoIcon />} onClick={() => setDeleteDialogOpen(true)}>
+              Undo
+            </Button>
+          )}
+          {editable && (
+            <Button
+              variant="contained"
+              startIcon={<CompleteIcon />}
+              onClick={handleComplete}
+              disabled={saving || !balanced}
+            >
+              Finish Reconciliation
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: 2, mb: 3 }}>
+        <Card>
+          <CardContent>
+            <Typography color="textSecondary" variant="body2">
+              Statement Balance
+            </Typography>
+            {editable ? (
+              <TextField
+                variant="standard"
+                type="number"
+                value={statementBalance}
+                onChange={(e) => setStatementBalance(e.target.value)}
+                onBlur={handleBalanceSave}
+                inputProps={{ step: 0.01 }}
+                fullWidth
+              />
+            ) : (
+              <Typography variant="h5">{formatMoney(reconciliation.statementBalance)}</Typography>
+            )}
+          </CardContent>
+        </Card>
+        <SummaryCard label="Opening Balance" value={reconciliation.openingBalance} />
+        <SummaryCard label="Cleared Deposits" value={reconciliation.clearedDeposits} color="success.main" />
+        <SummaryCard label="Cleared Payments" value={reconciliation.clearedPayments} color="error.main" />
+        <SummaryCard label="Cleared Balance" value={reconciliation.clearedBalance} />
+        <SummaryCard
+          label="Difference"
+          value={reconciliation.difference}
+          color={balanced ? 'success.main' : 'error.main'}
+        />
+      </Box>
+
+      {isDraft && (
+        <Alert severity={balanced ? 'success' : 'info'} sx={{ mb: 2 }}>
+          {balanced
+            ? 'The cleared balance agrees with the statement. Finish to lock the cleared lines.'
+            : 'Tick the lines that appear on the bank statement until the difference is zero.'}
+        </Alert>
+      )}
+
+      <Paper>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox">
+                  {editable && (
+                    <Checkbox
+                      checked={reconciliation.lines.length > 0 && clearedCount === reconciliation.lines.length}
+                      indeterminate={clearedCount > 0 && clearedCount < reconciliation.lines.length}
+                      onChange={(e) => handleToggleAll(e.target.checked)}
+                      disabled={saving}
+                    />
+                  )}
+                </TableCell>
+                <TableCell>Date</TableCell>
+                <TableCell>Transaction</TableCell>
+                <TableCell>Description</TableCell>
+                <TableCell align="right">Deposit</TableCell>
+                <TableCell align="right">Payment</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {reconciliation.lines.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} align="center">
+                    No ledger lines up to the statement date.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                reconciliation.lines.map((line) => (
+                  <TableRow key={line.detail} hover={editable}>
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        checked={Boolean(line.cleared)}
+                        onChange={() => handleToggleLine(line.detail)}
+                        disabled={!editable || saving}
+                      />
+                    </TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{dayjs(line.date).format('DD MMM YYYY')}</TableCell>
+                    <TableCell>#{line.transactionId}</TableCell>
+                    <TableCell>
+                      {line.description}
+                      {line.partyName && (
+                        <Typography variant="caption" color="textSecondary" display="block">
+                          {line.partyName}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">{line.amount > 0 ? formatMoney(line.amount) : ''}</TableCell>
+                    <TableCell align="right">{line.amount < 0 ? formatMoney(-line.amount) : ''}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      {/* Delete / Undo Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onClose={() => setDeleteDialogOpen(false)}>
+        <DialogTitle>{isDraft ? 'Delete Reconciliation' : 'Undo Reconciliation'}</DialogTitle>
+        <DialogContent>
+          {isDraft
+            ? 'The ticked lines will be forgotten.'
+            : 'The cleared lines will be unlocked and can be edited or voided again.'}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteDialogOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleDeleteConfirm} color="error" variant="contained" disabled={saving}>
+            {isDraft ? 'Delete' : 'Undo'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default ReconciliationDetail;
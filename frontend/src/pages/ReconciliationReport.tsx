@@ -0,0 +1,185 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Alert,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Print as PrintIcon,
+} from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { reconciliationAPI, ReconciliationReport as ReportData, ReconciliationLine } from '../services/api';
+
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+const UnclearedTable: React.FC<{ title: string; lines: ReconciliationLine[]; total: number }> = ({
+  title,
+  lines,
+  total,
+}) => (
+  <Box sx={{ mb: 3 }}>
+    <Typography variant="h6" gutterBottom>
+      {title}
+    </Typography>
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Date</TableCell>
+          <TableCell>Transaction</TableCell>
+          <TableCell>Description</TableCell>
+          <TableCell align="right">Amount</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {lines.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={4} align="center">None</TableCell>
+          </TableRow>
+        ) : (
+          lines.map((line) => (
+            <TableRow key={line.detail}>
+              <TableCell>{dayjs(line.date).format('DD MMM YYYY')}</TableCell>
+              <TableCell>#{line.transactionId}</TableCell>
+              <TableCell>
+                {line.description}
+                {line.partyName ? ` – ${line.partyName}` : ''}
+              </TableCell>
+              <TableCell align="right">{formatMoney(Math.abs(line.amount))}</TableCell>
+            </TableRow>
+          ))
+        )}
+        <TableRow>
+          <TableCell colSpan={3}>
+            <strong>Total</strong>
+          </TableCell>
+          <TableCell align="right">
+            <strong>{formatMoney(total)}</strong>
+          </TableCell>
+        </TableRow>
+      </TableBody>
+    </Table>
+  </Box>
+);
+
+const ReconciliationReport: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [report, setReport] = useState<ReportData | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+
+  const loadReport = useCallback(async () => {
+    if (!id) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      const response = await reconciliationAPI.getReport(id);
+      setReport(response.data);
+    } catch (error: any) {
+      console.error('Error loading reconciliation report:', error);
+      setError(error.response?.data?.message || 'Failed to load reconciliation report');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  if (loading) return <div>Loading...</div>;
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 3, displayPrint: 'none' }}>
+        <Button startIcon={<ArrowBackIcon />} onClick={() => navigate(`/reconciliations/${id}`)}>
+          Reconciliation
+        </Button>
+        <Button variant="outlined" startIcon={<PrintIcon />} onClick={() => window.print()} disabled={!report}>
+          Print
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {report && (
+        <Paper sx={{ p: 3 }}>
+          <Typography variant="h5">Bank Reconciliation – Uncleared Items</Typography>
+          <Typography variant="subtitle1" color="textSecondary" sx={{ mb: 3 }}>
+            {report.reconciliation.account.name}
+            {report.reconciliation.account.accountNo ? ` (${report.reconciliation.account.accountNo})` : ''}
+            {' – statement ending '}
+            {dayjs(report.reconciliation.statementDate).format('DD MMM YYYY')}
+            {report.reconciliation.status === 'draft' ? ' (in progress)' : ''}
+          </Typography>
+
+          <UnclearedTable
+            title="Deposits in Transit"
+            lines={report.depositsInTransit}
+            total={report.totalDeposits}
+          />
+          <UnclearedTable
+            title="Outstanding Payments"
+            lines={report.outstandingPayments}
+            total={report.totalPayments}
+          />
+
+          <Table size="small" sx={{ maxWidth: 480, ml: 'auto' }}>
+            <TableBody>
+              <TableRow>
+                <TableCell>Balance per bank statement</TableCell>
+                <TableCell align="right">{formatMoney(report.statementBalance)}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Add: deposits in transit</TableCell>
+                <TableCell align="right">{formatMoney(report.totalDeposits)}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Less: outstanding payments</TableCell>
+                <TableCell align="right">{formatMoney(-report.totalPayments)}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>
+                  <strong>Adjusted bank balance</strong>
+                </TableCell>
+                <TableCell align="right">
+                  <strong>{formatMoney(report.adjustedStatementBalance)}</strong>
+                </TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Balance per books</TableCell>
+                <TableCell align="right">{formatMoney(report.bookBalance)}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Unexplained difference</TableCell>
+                <TableCell
+                  align="right"
+                  sx={{ color: Math.abs(report.difference) < 0.005 ? 'success.main' : 'error.main' }}
+                >
+                  {formatMoney(report.difference)}
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default ReconciliationReport;
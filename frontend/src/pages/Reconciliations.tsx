@@ -0,0 +1,279 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Alert,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  OpenInNew as OpenIcon,
+  Summarize as ReportIcon,
+} from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import dayjs, { Dayjs } from 'dayjs';
+import { accountAPI, reconciliationAPI, Account, Reconciliation } from '../services/api';
+import { useAuth } from '../components/AuthProvider';
+
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+const Reconciliations: React.FC = () => {
+  const navigate = useNavigate();
+  const { canWrite } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const accountId = searchParams.get('account') || '';
+
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [reconciliations, setReconciliations] = useState<Reconciliation[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const [startDialogOpen, setStartDialogOpen] = useState<boolean>(false);
+  const [statementDate, setStatementDate] = useState<Dayjs | null>(dayjs());
+  const [statementBalance, setStatementBalance] = useState<string>('');
+  const [startLoading, setStartLoading] = useState<boolean>(false);
+  const [startError, setStartError] = useState<string>('');
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  const loadAccounts = async () => {
+    try {
+      const response = await accountAPI.getAll();
+      setAccounts(response.data.filter((account) => account.isOwnerAccount));
+    } catch (error) {
+      console.error('Error loading accounts:', error);
+      setError('Failed to load accounts');
+    }
+  };
+
+  const loadReconciliations = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await reconciliationAPI.getAll(accountId || undefined);
+      setReconciliations(response.data);
+    } catch (error) {
+      console.error('Error loading reconciliations:', error);
+      setError('Failed to load reconciliations');
+    } finally {
+      setLoading(false);
+    }
+  }, [accountId]);
+
+  useEffect(() => {
+    loadReconciliations();
+  }, [loadReconciliations]);
+
+  // The selected account lives in the URL so the Accounts page can link straight here
+  const handleAccountChange = (value: string) => {
+    setSearchParams(value ? { account: value } : {});
+  };
+
+  const handleStart = async () => {
+    const balance = parseFloat(statementBalance);
+    if (!accountId || !statementDate || !Number.isFinite(balance)) {
+      setStartError('Choose an account and enter the statement date and ending balance');
+      return;
+    }
+
+    setStartLoading(true);
+    setStartError('');
+    try {
+      const response = await reconciliationAPI.create({
+        account: accountId,
+        statementDate: statementDate.format('YYYY-MM-DD'),
+        statementBalance: balance,
+      });
+      navigate(`/reconciliations/${response.data._id}`);
+    } catch (error: any) {
+      console.error('Error starting reconciliation:', error);
+      const draftId = error.response?.data?.reconciliation;
+      if (draftId) {
+        navigate(`/reconciliations/${draftId}`);
+        return;
+      }
+      setStartError(error.response?.data?.message || 'Failed to start reconciliation');
+    } finally {
+      setStartLoading(false);
+    }
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDayjs}>
+      <Box sx={{ p: 3 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+          <Typography variant="h4">Bank Reconciliation</Typography>
+          {canWrite && (
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => {
+                setStartError('');
+                setStatementBalance('');
+                setStartDialogOpen(true);
+              }}
+              disabled={!accountId}
+            >
+              Reconcile Account
+            </Button>
+          )}
+        </Box>
+
+        <Paper sx={{ p: 3, mb: 3 }}>
+          <FormControl size="small" sx={{ minWidth: '300px' }}>
+            <InputLabel>Bank / Cash Account</InputLabel>
+            <Select
+              value={accounts.some((account) => account._id === accountId) ? accountId : ''}
+              onChange={(e) => handleAccountChange(e.target.value)}
+              label="Bank / Cash Account"
+            >
+              <MenuItem value="">All Accounts</MenuItem>
+              {accounts.map((account) => (
+                <MenuItem key={account._id} value={account._id}>
+                  {account.name}
+                  {account.accountNo ? ` – ${account.accountNo}` : ''}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Paper>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Paper>
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Account</TableCell>
+                  <TableCell>Statement Date</TableCell>
+                  <TableCell align="right">Statement Balance</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Completed</TableCell>
+                  <TableCell align="center">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} align="center">Loading reconciliations...</TableCell>
+                  </TableRow>
+                ) : reconciliations.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} align="center">No reconciliations yet.</TableCell>
+                  </TableRow>
+                ) : (
+                  reconciliations.map((reconciliation) => (
+                    <TableRow key={reconciliation._id}>
+                      <TableCell>{reconciliation.account?.name || 'Deleted account'}</TableCell>
+                      <TableCell>{dayjs(reconciliation.statementDate).format('DD MMM YYYY')}</TableCell>
+                      <TableCell align="right">{formatMoney(reconciliation.statementBalance)}</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={reconciliation.status === 'completed' ? 'Completed' : 'In Progress'}
+                          color={reconciliation.status === 'completed' ? 'success' : 'warning'}
+                          size="small"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {reconciliation.completedAt
+                          ? `${dayjs(reconciliation.completedAt).format('DD MMM YYYY')} by ${
+                              reconciliation.completedBy?.name || reconciliation.completedBy?.username || '-'
+                            }`
+                          : '-'}
+                      </TableCell>
+                      <TableCell align="center">
+                        <IconButton
+                          size="small"
+                          color="primary"
+                          onClick={() => navigate(`/reconciliations/${reconciliation._id}`)}
+                          title={reconciliation.status === 'draft' ? 'Continue Reconciling' : 'View Reconciliation'}
+                        >
+                          <OpenIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          onClick={() => navigate(`/reconciliations/${reconciliation._id}/report`)}
+                          title="Uncleared Items Report"
+                        >
+                          <ReportIcon fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+
+        {/* Start Reconciliation Dialog */}
+        <Dialog open={startDialogOpen} onClose={() => setStartDialogOpen(false)} maxWidth="xs" fullWidth>
+          <DialogTitle>Reconcile {accounts.find((account) => account._id === accountId)?.name}</DialogTitle>
+          <DialogContent>
+            {startError && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {startError}
+              </Alert>
+            )}
+            <Box sx={{ mt: 1, mb: 2 }}>
+              <DatePicker
+                label="Statement Ending Date"
+                value={statementDate}
+                onChange={(date) => setStatementDate(date)}
+                enableAccessibleFieldDOMStructure={false}
+                slots={{ textField: TextField }}
+                slotProps={{ textField: { fullWidth: true } }}
+              />
+            </Box>
+            <TextField
+              label="Statement Ending Balance"
+              type="number"
+              value={statementBalance}
+              onChange={(e) => setStatementBalance(e.target.value)}
+              inputProps={{ step: 0.01 }}
+              fullWidth
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setStartDialogOpen(false)} disabled={startLoading}>
+              Cancel
+            </Button>
+            <Button onClick={handleStart} variant="contained" disabled={startLoading}>
+              {startLoading ? 'Starting...' : 'Start'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Box>
+    </LocalizationProvider>
+  );
+};
+
+export default Reconciliations;
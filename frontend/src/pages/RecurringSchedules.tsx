@@ -0,0 +1,410 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Alert,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Tooltip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Refresh as RefreshIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  PlayArrow as RunIcon,
+  Pause as PauseIcon,
+  EventNote as PreviewIcon,
+  ErrorOutline as ErrorIcon,
+} from '@mui/icons-material';
+import dayjs from 'dayjs';
+import {
+  recurringAPI,
+  RecurringSchedule,
+  RecurringOccurrence,
+  FREQUENCY_LABELS,
+} from '../services/api';
+import AddRecurringScheduleModal from '../components/AddRecurringScheduleModal';
+import { useAuth } from '../components/AuthProvider';
+
+// e.g. "Every 2 Months"
+const describeFrequency = (schedule: RecurringSchedule) =>
+  schedule.interval === 1
+    ? `Every ${FREQUENCY_LABELS[schedule.frequency]}`
+    : `Every ${schedule.interval} ${FREQUENCY_LABELS[schedule.frequency]}s`;
+
+const scheduleTotal = (schedule: RecurringSchedule) =>
+  schedule.details
+    .filter((detail) => detail.type === 'debit')
+    .reduce((sum, detail) => sum + detail.amount, 0);
+
+const RecurringSchedules: React.FC = () => {
+  const { canWrite } = useAuth();
+  const [schedules, setSchedules] = useState<RecurringSchedule[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [addModalOpen, setAddModalOpen] = useState<boolean>(false);
+  const [editModalOpen, setEditModalOpen] = useState<boolean>(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState<boolean>(false);
+  const [previewDialogOpen, setPreviewDialogOpen] = useState<boolean>(false);
+  const [selectedSchedule, setSelectedSchedule] = useState<RecurringSchedule | null>(null);
+  const [occurrences, setOccurrences] = useState<RecurringOccurrence[]>([]);
+  const [error, setError] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+  const [actionLoading, setActionLoading] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadSchedules();
+  }, []);
+
+  const loadSchedules = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await recurringAPI.getAll();
+      setSchedules(response.data);
+    } catch (error) {
+      console.error('Error loading schedules:', error);
+      setError('Failed to load recurring schedules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEditClick = (schedule: RecurringSchedule) => {
+    setSelectedSchedule(schedule);
+    setEditModalOpen(true);
+  };
+
+  const handleDeleteClick = (schedule: RecurringSchedule) => {
+    setSelectedSchedule(schedule);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!selectedSchedule) return;
+
+    setActionLoading(true);
+    try {
+      await recurringAPI.delete(selectedSchedule._id);
+      setDeleteDialogOpen(false);
+      setSelectedSchedule(null);
+      loadSchedules();
+    } catch (error: any) {
+      console.error('Error deleting schedule:', error);
+      setError(error.response?.data?.message || 'Failed to delete schedule');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (schedule: RecurringSchedule) => {
+    setError('');
+    try {
+      await recurringAPI.update(schedule._id, { isActive: !schedule.isActive });
+      loadSchedules();
+    } catch (error: any) {
+      console.error('Error updating schedule:', error);
+      setError(error.response?.data?.message || 'Failed to update schedule');
+    }
+  };
+
+  const handleRunNow = async (schedule: RecurringSchedule) => {
+    setActionLoading(true);
+    setError('');
+    setMessage('');
+    try {
+      const response = await recurringAPI.run(schedule._id);
+      setMessage(`${schedule.name}: ${response.data.message}`);
+    } catch (error: any) {
+      console.error('Error running schedule:', error);
+      setError(error.response?.data?.message || 'Failed to run schedule');
+    } finally {
+      setActionLoading(false);
+      loadSchedules();
+    }
+  };
+
+  const handlePreviewClick = async (schedule: RecurringSchedule) => {
+    setSelectedSchedule(schedule);
+    setOccurrences([]);
+    setPreviewDialogOpen(true);
+    try {
+      const response = await recurringAPI.preview(schedule._id);
+      setOccurrences(response.data);
+    } catch (error) {
+      console.error('Error loading upcoming runs:', error);
+    }
+  };
+
+  const handleToggleSkip = async (occurrence: RecurringOccurrence) => {
+    if (!selectedSchedule) return;
+
+    setActionLoading(true);
+    try {
+      const response = occurrence.skipped
+        ? await recurringAPI.unskip(selectedSchedule._id, occurrence.date)
+        : await recurringAPI.skip(selectedSchedule._id, occurrence.date);
+      setOccurrences(response.data);
+    } catch (error: any) {
+      console.error('Error skipping occurrence:', error);
+      setError(error.response?.data?.message || 'Failed to update occurrence');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDialogClose = () => {
+    setDeleteDialogOpen(false);
+    setPreviewDialogOpen(false);
+    setSelectedSchedule(null);
+  };
+
+  if (loading) return <div>Loading...</div>;
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4">Recurring Transactions</Typography>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <Button
+            variant="outlined"
+            startIcon={<RefreshIcon />}
+            onClick={loadSchedules}
+          >
+            Refresh
+          </Button>
+          {canWrite && (
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => setAddModalOpen(true)}
+            >
+              Add Schedule
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+      {message && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage('')}>
+          {message}
+        </Alert>
+      )}
+
+      <Paper>
+        <TableContainer>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Repeats</TableCell>
+                <TableCell align="right">Amount</TableCell>
+                <TableCell>Next Run</TableCell>
+                <TableCell>Last Run</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="center">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {schedules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} align="center">No recurring schedules yet.</TableCell>
+                </TableRow>
+              ) : (
+                schedules.map((schedule) => (
+                  <TableRow key={schedule._id}>
+                    <TableCell>
+                      <Typography variant="subtitle2">{schedule.name}</Typography>
+                      <Typography variant="caption" color="textSecondary">
+                        {schedule.nextIndex} occurrence(s) done
+                        {schedule.maxOccurrences ? ` of ${schedule.maxOccurrences}` : ''}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      {describeFrequency(schedule)}
+                      <Typography variant="caption" color="textSecondary" display="block">
+                        from {dayjs(schedule.startDate).format('DD MMM YYYY')}
+                        {schedule.endDate ? ` to ${dayjs(schedule.endDate).format('DD MMM YYYY')}` : ''}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">${scheduleTotal(schedule).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {schedule.nextRunDate ? dayjs(schedule.nextRunDate).format('DD MMM YYYY') : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {schedule.lastRunAt ? dayjs(schedule.lastRunAt).format('DD MMM YYYY HH:mm') : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                        <Chip
+                          label={schedule.isFinished ? 'Finished' : schedule.isActive ? 'Active' : 'Paused'}
+                          color={schedule.isFinished ? 'default' : schedule.isActive ? 'success' : 'warning'}
+                          size="small"
+                        />
+                        {schedule.lastError && (
+                          <Tooltip title={schedule.lastError}>
+                            <ErrorIcon color="error" fontSize="small" />
+                          </Tooltip>
+                        )}
+                      </Box>
+                    </TableCell>
+                    <TableCell align="center">
+                      <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center' }}>
+                        <IconButton
+                          size="small"
+                          onClick={() => handlePreviewClick(schedule)}
+                          title="Upcoming Runs"
+                        >
+                          <PreviewIcon fontSize="small" />
+                        </IconButton>
+                        {canWrite && (
+                          <>
+                            <IconButton
+                              size="small"
+                              color="success"
+                              onClick={() => handleRunNow(schedule)}
+                              disabled={actionLoading || !schedule.isActive || schedule.isFinished}
+                              title="Post Due Transactions Now"
+                            >
+                              <RunIcon fontSize="small" />
+                            </IconButton>
+                            <IconButton
+                              size="small"
+                              onClick={() => handleToggleActive(schedule)}
+                              disabled={schedule.isFinished}
+                              title={schedule.isActive ? 'Pause' : 'Resume'}
+                            >
+                              {schedule.isActive ? <PauseIcon fontSize="small" /> : <RunIcon fontSize="small" />}
+                            </IconButton>
+                            <IconButton
+                              size="small"
+                              color="primary"
+                              onClick={() => handleEditClick(schedule)}
+                              title="Edit Schedule"
+                            >
+                              <EditIcon fontSize="small" />
+                            </IconButton>
+                            <IconButton
+                              size="small"
+                              color="error"
+                              onClick={() => handleDeleteClick(schedule)}
+                              title="Delete Schedule"
+                            >
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </>
+                        )}
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      {/* Add Schedule Modal */}
+      <AddRecurringScheduleModal
+        open={addModalOpen}
+        onClose={() => setAddModalOpen(false)}
+        onScheduleSaved={loadSchedules}
+      />
+
+      {/* Edit Schedule Modal */}
+      <AddRecurringScheduleModal
+        open={editModalOpen}
+        onClose={() => {
+          setEditModalOpen(false);
+          setSelectedSchedule(null);
+        }}
+        onScheduleSaved={loadSchedules}
+        editSchedule={selectedSchedule}
+      />
+
+      {/* Upcoming Runs Dialog */}
+      <Dialog open={previewDialogOpen} onClose={handleDialogClose} maxWidth="xs" fullWidth>
+        <DialogTitle>Upcoming Runs – {selectedSchedule?.name}</DialogTitle>
+        <DialogContent>
+          {occurrences.length === 0 ? (
+            <Typography variant="body2">No upcoming runs.</Typography>
+          ) : (
+            <Table size="small">
+              <TableBody>
+                {occurrences.map((occurrence) => (
+                  <TableRow key={occurrence.index}>
+                    <TableCell
+                      sx={occurrence.skipped ? { textDecoration: 'line-through', color: 'text.disabled' } : undefined}
+                    >
+                      {dayjs(occurrence.date).format('ddd, DD MMM YYYY')}
+                    </TableCell>
+                    <TableCell align="right">
+                      {canWrite ? (
+                        <Button
+                          size="small"
+                          onClick={() => handleToggleSkip(occurrence)}
+                          disabled={actionLoading}
+                        >
+                          {occurrence.skipped ? 'Unskip' : 'Skip'}
+                        </Button>
+                      ) : occurrence.skipped ? (
+                        <Chip label="Skipped" size="small" />
+                      ) : null}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleDialogClose}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onClose={handleDialogClose}>
+        <DialogTitle>Confirm Delete</DialogTitle>
+        <DialogContent>
+          Are you sure you want to delete the schedule "{selectedSchedule?.name}"?
+          <br />
+          <Typography variant="body2" color="textSecondary" sx={{ mt: 1 }}>
+            Transactions it has already posted are kept.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleDialogClose} disabled={actionLoading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleDeleteConfirm}
+            color="error"
+            variant="contained"
+            disabled={actionLoading}
+          >
+            {actionLoading ? 'Deleting...' : 'Delete'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default RecurringSchedules;
@@ -0,0 +1,192 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Alert,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Print as PrintIcon,
+  PictureAsPdf as PdfIcon,
+} from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { transactionAPI, Voucher } from '../services/api';
+import { downloadBlob } from '../utils/download';
+
+const formatAmount = (amount: number) =>
+  amount ? amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '';
+
+const SIGNATURES = ['Prepared by', 'Approved by', 'Received by'];
+
+const PARTY_LABELS: Record<Voucher['kind'], string> = {
+  payment: 'Paid to',
+  receipt: 'Received from',
+  journal: 'Party',
+};
+
+const TransactionVoucher: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [voucher, setVoucher] = useState<Voucher | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [downloading, setDownloading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const loadVoucher = useCallback(async () => {
+    if (!id) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      const response = await transactionAPI.getVoucher(id);
+      setVoucher(response.data);
+    } catch (error: any) {
+      console.error('Error loading voucher:', error);
+      setError(error.response?.data?.message || 'Failed to load voucher');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadVoucher();
+  }, [loadVoucher]);
+
+  const handleDownload = async () => {
+    if (!id || !voucher) return;
+
+    setDownloading(true);
+    try {
+      const response = await transactionAPI.downloadVoucher(id);
+      downloadBlob(`voucher-${voucher.transactionId}.pdf`, response.data);
+    } catch (error) {
+      console.error('Error downloading voucher:', error);
+      setError('Failed to download voucher');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (loading) return <div>Loading...</div>;
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 3, displayPrint: 'none' }}>
+        <Button startIcon={<ArrowBackIcon />} onClick={() => navigate('/transactions')}>
+          Transactions
+        </Button>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <Button variant="outlined" startIcon={<PdfIcon />} onClick={handleDownload} disabled={!voucher || downloading}>
+            {downloading ? 'Downloading...' : 'Download PDF'}
+          </Button>
+          <Button variant="contained" startIcon={<PrintIcon />} onClick={() => window.print()} disabled={!voucher}>
+            Print
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2, displayPrint: 'none' }}>
+          {error}
+        </Alert>
+      )}
+
+      {voucher && (
+        <Paper sx={{ p: 4, maxWidth: 900, mx: 'auto', boxShadow: { print: 'none' } }}>
+          <Box sx={{ textAlign: 'center', mb: 3 }}>
+            <Typography variant="h5" fontWeight="bold">
+              {voucher.company.name}
+            </Typography>
+            <Typography variant="body2" color="textSecondary">
+              {[voucher.company.address, voucher.company.phone, voucher.company.email].filter(Boolean).join(' | ')}
+            </Typography>
+            <Typography variant="h6" sx={{ mt: 2, textTransform: 'uppercase', letterSpacing: 1 }}>
+              {voucher.title}
+            </Typography>
+            {voucher.status === 'cancelled' && (
+              <Typography color="error" fontWeight="bold">
+                VOIDED
+              </Typography>
+            )}
+          </Box>
+
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+            <Typography>
+              <strong>Voucher No:</strong> {voucher.voucherNo}
+            </Typography>
+            <Typography>
+              <strong>Date:</strong> {dayjs(voucher.date).format('DD MMM YYYY')}
+            </Typography>
+          </Box>
+          {voucher.partyName && (
+            <Typography sx={{ mb: 2 }}>
+              <strong>{PARTY_LABELS[voucher.kind]}:</strong> {voucher.partyName}
+            </Typography>
+          )}
+
+          <Table size="small" sx={{ mb: 2 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>#</TableCell>
+                <TableCell>Account</TableCell>
+                <TableCell>Description</TableCell>
+                <TableCell align="right">Debit</TableCell>
+                <TableCell align="right">Credit</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {voucher.lines.map((line) => (
+                <TableRow key={line.serialNo}>
+                  <TableCell>{line.serialNo}</TableCell>
+                  <TableCell>
+                    {line.accountName}
+                    {line.accountNo ? ` (${line.accountNo})` : ''}
+                  </TableCell>
+                  <TableCell>
+                    {line.description}
+                    {line.partyName ? ` – ${line.partyName}` : ''}
+                  </TableCell>
+                  <TableCell align="right">{formatAmount(line.debit)}</TableCell>
+                  <TableCell align="right">{formatAmount(line.credit)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell colSpan={3} align="right">
+                  <strong>Total</strong>
+                </TableCell>
+                <TableCell align="right">
+                  <strong>{voucher.company.currency.symbol} {formatAmount(voucher.totalDebit)}</strong>
+                </TableCell>
+                <TableCell align="right">
+                  <strong>{voucher.company.currency.symbol} {formatAmount(voucher.totalCredit)}</strong>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+
+          <Typography>
+            <strong>Amount in words:</strong> {voucher.amountInWords}
+          </Typography>
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: `repeat(${SIGNATURES.length}, 1fr)`, gap: 4, mt: 10 }}>
+            {SIGNATURES.map((label) => (
+              <Box key={label} sx={{ borderTop: 1, pt: 1, textAlign: 'center' }}>
+                <Typography variant="body2">{label}</Typography>
+              </Box>
+            ))}
+          </Box>
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default TransactionVoucher;
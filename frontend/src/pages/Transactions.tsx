@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -18,6 +19,8 @@ import {
   DialogContent,
   DialogActions,
   Collapse,
+  TablePagination,
+  TableSortLabel,
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -26,39 +29,126 @@ import {
   Delete as DeleteIcon,
   ExpandMore as ExpandMoreIcon,
   ExpandLess as ExpandLessIcon,
+  History as HistoryIcon,
+  Block as VoidIcon,
+  FactCheck as AuditIcon,
+  BookmarkAdd as SaveTemplateIcon,
+  ReceiptLong as VoucherIcon,
+  PictureAsPdf as PdfIcon,
+  CheckCircle as PostIcon,
 } from '@mui/icons-material';
-import { transactionAPI, Transaction } from '../services/api';
+import {
+  transactionAPI,
+  Transaction,
+  Attachment,
+  TransactionFilters,
+  TransactionSortField,
+  VOUCHER_TYPE_LABELS,
+} from '../services/api';
 import AddTransactionModal from '../components/AddTransactionModal';
+import TransactionHistoryDialog from '../components/TransactionHistoryDialog';
+import VoidTransactionDialog from '../components/VoidTransactionDialog';
+import SaveTemplateDialog from '../components/SaveTemplateDialog';
+import TransactionAttachments from '../components/TransactionAttachments';
+import TransactionFilterBar, { FILTER_KEYS, readFilters } from '../components/TransactionFilterBar';
+import { toDetailLines } from '../components/TransactionLinesEditor';
+import { useAuth } from '../components/AuthProvider';
+import { downloadBlob } from '../utils/download';
+
+const ROWS_PER_PAGE_OPTIONS = [10, 25, 50, 100];
+
+const SORTABLE_COLUMNS: { field: TransactionSortField; label: string }[] = [
+  { field: 'transactionId', label: 'ID' },
+  { field: 'voucherNo', label: 'Voucher' },
+  { field: 'date', label: 'Date' },
+  { field: 'amount', label: 'Total Amount' },
+];
+
+// Lines cleared by a completed bank reconciliation lock the whole entry
+const isReconciled = (transaction: Transaction) =>
+  transaction.details.some((detail) => Boolean(detail.reconciliation));
 
 const Transactions: React.FC = () => {
+  const navigate = useNavigate();
+  const { canWrite, canViewAudit } = useAuth();
+  // Filters, sorting and paging live in the query string so views can be bookmarked
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => readFilters(searchParams), [searchParams]);
+  const sortBy = (searchParams.get('sortBy') || 'transactionId') as TransactionSortField;
+  const sortOrder = searchParams.get('sortOrder') === 'asc' ? 'asc' : 'desc';
+  const page = Math.max(parseInt(searchParams.get('page') || '', 10) || 1, 1);
+  const rowsPerPage = parseInt(searchParams.get('limit') || '', 10) || ROWS_PER_PAGE_OPTIONS[0];
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [total, setTotal] = useState<number>(0);
   const [loading, setLoading] = useState<boolean>(true);
   const [addModalOpen, setAddModalOpen] = useState<boolean>(false);
   const [editModalOpen, setEditModalOpen] = useState<boolean>(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState<boolean>(false);
+  const [historyDialogOpen, setHistoryDialogOpen] = useState<boolean>(false);
+  const [voidDialogOpen, setVoidDialogOpen] = useState<boolean>(false);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState<boolean>(false);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
   const [error, setError] = useState<string>('');
   const [deleteLoading, setDeleteLoading] = useState<boolean>(false);
 
-  useEffect(() => {
-    loadTransactions();
-  }, []);
+  // Change some query string values, dropping empty ones
+  const updateQuery = useCallback((changes: Record<string, string | undefined>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+    setSearchParams(next);
+  }, [searchParams, setSearchParams]);
 
-  const loadTransactions = async (): Promise<void> => {
+  const loadTransactions = useCallback(async (): Promise<void> => {
     try {
       setLoading(true);
       setError('');
-      const response = await transactionAPI.getAll();
+      const response = await transactionAPI.getAll({ ...filters, sortBy, sortOrder, page, limit: rowsPerPage });
+      // A bookmarked or emptied page past the end falls back to the last page
+      if (response.data.transactions.length === 0 && page > 1 && response.data.total > 0) {
+        updateQuery({ page: response.data.totalPages > 1 ? String(response.data.totalPages) : undefined });
+        return;
+      }
       setTransactions(response.data.transactions);
-    } catch (error) {
+      setTotal(response.data.total);
+    } catch (error: any) {
       console.error('Error loading transactions:', error);
-      setError('Failed to load transactions');
+      setError(error.response?.data?.message || 'Failed to load transactions');
     } finally {
       setLoading(false);
     }
+  }, [filters, sortBy, sortOrder, page, rowsPerPage, updateQuery]);
+
+  useEffect(() => {
+    loadTransactions();
+  }, [loadTransactions]);
+
+  // New filters start again from the first page
+  const handleApplyFilters = (newFilters: TransactionFilters) => {
+    updateQuery({
+      ...Object.fromEntries(FILTER_KEYS.map((key) => [key, newFilters[key]])),
+      page: undefined,
+    });
   };
 
+  // Clicking the sorted column flips the order; a new column starts with the largest first
+  const handleSort = (field: TransactionSortField) => {
+    const order = field === sortBy && sortOrder === 'desc' ? 'asc' : 'desc';
+    updateQuery({
+      sortBy: field === 'transactionId' ? undefined : field,
+      sortOrder: order === 'desc' ? undefined : order,
+      page: undefined,
+    });
+  };
+
+  const hasFilters = Object.keys(filters).length > 0;
+
   const handleTransactionAdded = () => {
     loadTransactions();
   };
@@ -68,6 +158,43 @@ const Transactions: React.FC = () => {
     setEditModalOpen(true);
   };
 
+  const handleHistoryClick = (transaction: Transaction) => {
+    setSelectedTransaction(transaction);
+    setHistoryDialogOpen(true);
+  };
+
+  const handleVoucherDownload = async (transaction: Transaction) => {
+    try {
+      const response = await transactionAPI.downloadVoucher(transaction._id);
+      downloadBlob(`voucher-${transaction.transactionId}.pdf`, response.data);
+    } catch (error) {
+      console.error('Error downloading voucher:', error);
+      setError('Failed to download voucher');
+    }
+  };
+
+  const handleSaveTemplateClick = (transaction: Transaction) => {
+    setSelectedTransaction(transaction);
+    setTemplateDialogOpen(true);
+  };
+
+  const handleVoidClick = (transaction: Transaction) => {
+    setSelectedTransaction(transaction);
+    setVoidDialogOpen(true);
+  };
+
+  // Pending entries only reach the ledger once someone posts them
+  const handlePostClick = async (transaction: Transaction) => {
+    setError('');
+    try {
+      await transactionAPI.post(transaction._id);
+      loadTransactions();
+    } catch (error: any) {
+      console.error('Error posting transaction:', error);
+      setError(error.response?.data?.message || 'Failed to post transaction');
+    }
+  };
+
   const handleDeleteClick = (transaction: Transaction) => {
     setSelectedTransaction(transaction);
     setDeleteDialogOpen(true);
@@ -90,6 +217,13 @@ const Transactions: React.FC = () => {
     }
   };
 
+  // Keep the list in step with uploads and deletions made in an expanded row
+  const handleAttachmentsChange = (transactionId: string, attachments: Attachment[]) => {
+    setTransactions((current) =>
+      current.map((transaction) => (transaction._id === transactionId ? { ...transaction, attachments } : transaction))
+    );
+  };
+
   const toggleRowExpanded = (transactionId: string) => {
     const newExpanded = new Set(expandedRows);
     if (newExpanded.has(transactionId)) {
@@ -100,8 +234,6 @@ const Transactions: React.FC = () => {
     setExpandedRows(newExpanded);
   };
 
-  if (loading) return <div>Loading...</div>;
-
   return (
     <Box sx={{ p: 3 }}>
       <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
@@ -114,16 +246,20 @@ const Transactions: React.FC = () => {
           >
             Refresh
           </Button>
-          <Button
-            variant="contained"
-            startIcon={<AddIcon />}
-            onClick={() => setAddModalOpen(true)}
-          >
-            Add Transaction
-          </Button>
+          {canWrite && (
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => setAddModalOpen(true)}
+            >
+              Add Transaction
+            </Button>
+          )}
         </Box>
       </Box>
 
+      <TransactionFilterBar filters={filters} onApply={handleApplyFilters} />
+
       {error && (
         <Alert severity="error" sx={{ mb: 2 }}>
           {error}
@@ -135,19 +271,35 @@ const Transactions: React.FC = () => {
           <Table>
             <TableHead>
               <TableRow>
-                <TableCell>ID</TableCell>
-                <TableCell>Date</TableCell>
-                <TableCell>Total Amount</TableCell>
+                {SORTABLE_COLUMNS.map((column) => (
+                  <TableCell key={column.field} sortDirection={sortBy === column.field ? sortOrder : false}>
+                    <TableSortLabel
+                      active={sortBy === column.field}
+                      direction={sortBy === column.field ? sortOrder : 'desc'}
+                      onClick={() => handleSort(column.field)}
+                    >
+                      {column.label}
+                    </TableSortLabel>
+                  </TableCell>
+                ))}
                 <TableCell>Status</TableCell>
                 <TableCell align="center">Actions</TableCell>
                 <TableCell align="center">Details</TableCell>
               </TableRow>
             </TableHead>
             <TableBody>
-              {transactions.length === 0 ? (
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} align="center">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : transactions.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} align="center">
-                    No transactions found. Click "Add Transaction" to create your first transaction.
+                  <TableCell colSpan={7} align="center">
+                    {hasFilters
+                      ? 'No transactions match these filters.'
+                      : 'No transactions found. Click "Add Transaction" to create your first transaction.'}
                   </TableCell>
                 </TableRow>
               ) : (
@@ -155,6 +307,12 @@ const Transactions: React.FC = () => {
                   <React.Fragment key={transaction._id}>
                     <TableRow>
                       <TableCell>{transaction.transactionId}</TableCell>
+                      <TableCell>
+                        {transaction.voucherNo || '-'}
+                        <Typography variant="caption" color="textSecondary" display="block">
+                          {VOUCHER_TYPE_LABELS[transaction.voucherType || 'journal']}
+                        </Typography>
+                      </TableCell>
                       <TableCell>
                         {new Date(transaction.date).toLocaleDateString()}
                       </TableCell>
@@ -171,25 +329,109 @@ const Transactions: React.FC = () => {
                           }
                           size="small"
                         />
+                        {transaction.reversedBy && (
+                          <Chip
+                            label={`Voided by #${transaction.reversedBy.transactionId}`}
+                            size="small"
+                            variant="outlined"
+                            sx={{ ml: 1 }}
+                            title={transaction.voidReason || undefined}
+                          />
+                        )}
+                        {transaction.yearEndClose && (
+                          <Chip
+                            label={`Year-end close ${transaction.yearEndClose}`}
+                            size="small"
+                            variant="outlined"
+                            sx={{ ml: 1 }}
+                          />
+                        )}
+                        {transaction.reversalOf && (
+                          <Chip
+                            label={`Reversal of #${transaction.reversalOf.transactionId}`}
+                            size="small"
+                            variant="outlined"
+                            sx={{ ml: 1 }}
+                          />
+                        )}
+                        {isReconciled(transaction) && (
+                          <Chip label="Reconciled" size="small" color="info" variant="outlined" sx={{ ml: 1 }} />
+                        )}
                       </TableCell>
                       <TableCell align="center">
                         <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center' }}>
+                          {/* Voided, reversing, year-end closing and reconciled entries are read-only */}
+                          {canWrite && transaction.status !== 'cancelled' && !transaction.reversalOf && !transaction.yearEndClose && !isReconciled(transaction) && (
+                            <IconButton
+                              size="small"
+                              color="primary"
+                              onClick={() => handleEditClick(transaction)}
+                              title="Edit Transaction"
+                            >
+                              <EditIcon fontSize="small" />
+                            </IconButton>
+                          )}
+                          <IconButton
+                            size="small"
+                            onClick={() => handleHistoryClick(transaction)}
+                            title="View History"
+                          >
+                            <HistoryIcon fontSize="small" />
+                          </IconButton>
                           <IconButton
                             size="small"
-                            color="primary"
-                            onClick={() => handleEditClick(transaction)}
-                            title="Edit Transaction"
+                            onClick={() => navigate(`/transactions/${transaction._id}/voucher`)}
+                            title="Print Voucher"
                           >
-                            <EditIcon fontSize="small" />
+                            <VoucherIcon fontSize="small" />
                           </IconButton>
                           <IconButton
                             size="small"
-                            color="error"
-                            onClick={() => handleDeleteClick(transaction)}
-                            title="Delete Transaction"
+                            onClick={() => handleVoucherDownload(transaction)}
+                            title="Download Voucher PDF"
                           >
-                            <DeleteIcon fontSize="small" />
+                            <PdfIcon fontSize="small" />
                           </IconButton>
+                          {canWrite && (
+                            <IconButton
+                              size="small"
+                              onClick={() => handleSaveTemplateClick(transaction)}
+                              title="Save as Template"
+                            >
+                              <SaveTemplateIcon fontSize="small" />
+                            </IconButton>
+                          )}
+                          {/* Posted entries are voided, only pending drafts can be deleted */}
+                          {canWrite && transaction.status === 'completed' && !transaction.reversalOf && !transaction.yearEndClose && !isReconciled(transaction) && (
+                            <IconButton
+                              size="small"
+                              color="error"
+                              onClick={() => handleVoidClick(transaction)}
+                              title="Void Transaction"
+                            >
+                              <VoidIcon fontSize="small" />
+                            </IconButton>
+                          )}
+                          {canWrite && transaction.status === 'pending' && (
+                            <IconButton
+                              size="small"
+                              color="success"
+                              onClick={() => handlePostClick(transaction)}
+                              title="Post Transaction"
+                            >
+                              <PostIcon fontSize="small" />
+                            </IconButton>
+                          )}
+                          {canWrite && transaction.status === 'pending' && !isReconciled(transaction) && (
+                            <IconButton
+                              size="small"
+                              color="error"
+                              onClick={() => handleDeleteClick(transaction)}
+                              title="Delete Transaction"
+                            >
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          )}
                         </Box>
                       </TableCell>
                       <TableCell align="center">
@@ -208,21 +450,41 @@ const Transactions: React.FC = () => {
                     
                     {/* Expanded Details Row */}
                     <TableRow>
-                      <TableCell colSpan={6} sx={{ py: 0 }}>
+                      <TableCell colSpan={7} sx={{ py: 0 }}>
                         <Collapse
                           in={expandedRows.has(transaction._id)}
                           timeout="auto"
                           unmountOnExit
                         >
                           <Box sx={{ margin: 2 }}>
-                            <Typography variant="h6" gutterBottom component="div">
-                              Transaction Details
-                            </Typography>
+                            <Box display="flex" justifyContent="space-between" alignItems="center">
+                              <Box>
+                                <Typography variant="h6" component="div">
+                                  Transaction Details
+                                </Typography>
+                                <Typography variant="body2" color="textSecondary" gutterBottom>
+                                  Entered {new Date(transaction.createdAt).toLocaleString()}
+                                  {transaction.createdBy && typeof transaction.createdBy !== 'string'
+                                    ? ` by ${transaction.createdBy.name || transaction.createdBy.username}`
+                                    : ''}
+                                </Typography>
+                              </Box>
+                              {canViewAudit && (
+                                <Button
+                                  size="small"
+                                  startIcon={<AuditIcon />}
+                                  onClick={() => navigate(`/audit?entity=Transaction&entityId=${transaction._id}`)}
+                                >
+                                  Audit Trail
+                                </Button>
+                              )}
+                            </Box>
                             <Table size="small">
                               <TableHead>
                                 <TableRow>
                                   <TableCell>S.No</TableCell>
                                   <TableCell>Account</TableCell>
+                                  <TableCell>Party</TableCell>
                                   <TableCell>Description</TableCell>
                                   <TableCell>Credit Amount</TableCell>
                                   <TableCell>Debit Amount</TableCell>
@@ -235,7 +497,12 @@ const Transactions: React.FC = () => {
                                     <TableCell>
                                       {typeof detail.account === 'string'
                                         ? detail.account
-                                        : detail.account.name}
+                                        : detail.account?.name || 'Deleted account'}
+                                    </TableCell>
+                                    <TableCell>
+                                      {detail.party && typeof detail.party !== 'string'
+                                        ? detail.party.name
+                                        : '-'}
                                     </TableCell>
                                     <TableCell>{detail.description}</TableCell>
                                     <TableCell>
@@ -252,6 +519,12 @@ const Transactions: React.FC = () => {
                                 ))}
                               </TableBody>
                             </Table>
+                            <TransactionAttachments
+                              transactionId={transaction._id}
+                              attachments={transaction.attachments || []}
+                              canEdit={canWrite}
+                              onChange={(attachments) => handleAttachmentsChange(transaction._id, attachments)}
+                            />
                           </Box>
                         </Collapse>
                       </TableCell>
@@ -262,6 +535,18 @@ const Transactions: React.FC = () => {
             </TableBody>
           </Table>
         </TableContainer>
+        <TablePagination
+          component="div"
+          count={total}
+          page={page - 1}
+          onPageChange={(_, newPage) => updateQuery({ page: newPage > 0 ? String(newPage + 1) : undefined })}
+          rowsPerPage={rowsPerPage}
+          onRowsPerPageChange={(e) => {
+            const limit = parseInt(e.target.value, 10);
+            updateQuery({ limit: limit === ROWS_PER_PAGE_OPTIONS[0] ? undefined : String(limit), page: undefined });
+          }}
+          rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+        />
       </Paper>
 
       {/* Add Transaction Modal */}
@@ -282,6 +567,37 @@ const Transactions: React.FC = () => {
         editTransaction={selectedTransaction}
       />
 
+      {/* Transaction History Dialog */}
+      <TransactionHistoryDialog
+        open={historyDialogOpen}
+        onClose={() => {
+          setHistoryDialogOpen(false);
+          setSelectedTransaction(null);
+        }}
+        transaction={selectedTransaction}
+      />
+
+      {/* Void Transaction Dialog */}
+      <VoidTransactionDialog
+        open={voidDialogOpen}
+        onClose={() => {
+          setVoidDialogOpen(false);
+          setSelectedTransaction(null);
+        }}
+        onVoided={loadTransactions}
+        transaction={selectedTransaction}
+      />
+
+      {/* Save as Template Dialog */}
+      <SaveTemplateDialog
+        open={templateDialogOpen}
+        onClose={() => {
+          setTemplateDialogOpen(false);
+          setSelectedTransaction(null);
+        }}
+        lines={selectedTransaction ? toDetailLines(selectedTransaction.details) : []}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onClose={() => setDeleteDialogOpen(false)}>
         <DialogTitle>Confirm Delete</DialogTitle>
@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Alert,
+  TextField,
+} from '@mui/material';
+import { Save as SaveIcon } from '@mui/icons-material';
+import { voucherSeriesAPI, VoucherSeries, VoucherType } from '../services/api';
+import { useAuth } from '../components/AuthProvider';
+
+const VoucherNumbering: React.FC = () => {
+  const { isAdmin } = useAuth();
+  const [series, setSeries] = useState<VoucherSeries[]>([]);
+  const [formats, setFormats] = useState<Partial<Record<VoucherType, string>>>({});
+  const [loading, setLoading] = useState<boolean>(true);
+  const [savingType, setSavingType] = useState<VoucherType | null>(null);
+  const [error, setError] = useState<string>('');
+  const [success, setSuccess] = useState<string>('');
+
+  useEffect(() => {
+    loadSeries();
+  }, []);
+
+  const loadSeries = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await voucherSeriesAPI.getAll();
+      setSeries(response.data);
+      setFormats(Object.fromEntries(response.data.map((item) => [item.voucherType, item.format])));
+    } catch (error) {
+      console.error('Error loading voucher numbering:', error);
+      setError('Failed to load voucher numbering');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (item: VoucherSeries) => {
+    setSavingType(item.voucherType);
+    setError('');
+    setSuccess('');
+    try {
+      const response = await voucherSeriesAPI.update(item.voucherType, formats[item.voucherType] || '');
+      setSeries((current) => current.map((entry) => (entry.voucherType === item.voucherType ? response.data : entry)));
+      setFormats((current) => ({ ...current, [item.voucherType]: response.data.format }));
+      setSuccess(`${item.label} vouchers will now be numbered like ${response.data.nextNumber}`);
+    } catch (error: any) {
+      console.error('Error saving voucher format:', error);
+      setError(error.response?.data?.message || 'Failed to save voucher format');
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  if (loading) return <div>Loading...</div>;
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Typography variant="h4" gutterBottom>
+        Voucher Numbering
+      </Typography>
+      <Typography variant="body2" color="textSecondary" sx={{ mb: 3 }}>
+        Each voucher type has its own number series, restarting at 1 every year. Use {'{YYYY}'} or {'{YY}'} for
+        the year and {'{####}'} for the sequence, padded to the number of # signs. Numbers already issued keep
+        their old format.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>
+          {success}
+        </Alert>
+      )}
+
+      <Paper>
+        <TableContainer>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>Voucher Type</TableCell>
+                <TableCell>Number Format</TableCell>
+                <TableCell>Next Number</TableCell>
+                {isAdmin && <TableCell align="center">Actions</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {series.map((item) => {
+                const format = formats[item.voucherType] ?? item.format;
+                return (
+                  <TableRow key={item.voucherType}>
+                    <TableCell>{item.label}</TableCell>
+                    <TableCell>
+                      {isAdmin ? (
+                        <TextField
+                          size="small"
+                          value={format}
+                          onChange={(e) => setFormats((current) => ({ ...current, [item.voucherType]: e.target.value }))}
+                          helperText={`Default: ${item.defaultFormat}`}
+                          sx={{ minWidth: '240px' }}
+                        />
+                      ) : (
+                        item.format
+                      )}
+                    </TableCell>
+                    <TableCell>{item.nextNumber}</TableCell>
+                    {isAdmin && (
+                      <TableCell align="center">
+                        <Button
+                          size="small"
+                          startIcon={<SaveIcon />}
+                          onClick={() => handleSave(item)}
+                          disabled={savingType !== null || format === item.format}
+                        >
+                          {savingType === item.voucherType ? 'Saving...' : 'Save'}
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+    </Box>
+  );
+};
+
+export default VoucherNumbering;
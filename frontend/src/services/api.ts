@@ -9,11 +9,85 @@ const api = axios.create({
   },
 });
 
+// Login token, kept across page reloads
+const TOKEN_KEY = 'authToken';
+
+export const authToken = {
+  get: (): string | null => localStorage.getItem(TOKEN_KEY),
+  set: (token: string) => localStorage.setItem(TOKEN_KEY, token),
+  clear: () => localStorage.removeItem(TOKEN_KEY),
+};
+
+api.interceptors.request.use((config) => {
+  const token = authToken.get();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// An expired or revoked token sends the user back to the login page
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401 && authToken.get()) {
+      authToken.clear();
+      window.location.assign('/login');
+    }
+    return Promise.reject(error);
+  }
+);
+
 // Types
+export type UserRole = 'admin' | 'accountant' | 'viewer';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  accountant: 'Accountant',
+  viewer: 'Viewer',
+};
+
+export interface User {
+  _id: string;
+  username: string;
+  name?: string;
+  role: UserRole;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UserFormData {
+  username: string;
+  name?: string;
+  role: UserRole;
+  isActive?: boolean;
+  password?: string;
+}
+
+export interface LoginResponse {
+  token: string;
+  user: User;
+}
+
+export type AccountElement = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+export type NormalBalance = 'debit' | 'credit';
+
+export const ELEMENT_LABELS: Record<AccountElement, string> = {
+  asset: 'Asset',
+  liability: 'Liability',
+  equity: 'Equity',
+  income: 'Income',
+  expense: 'Expense',
+};
+
 export interface AccountType {
   _id: string;
   name: string;
   description?: string;
+  element: AccountElement;
+  normalBalance: NormalBalance;
+  isArchived?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -28,6 +102,11 @@ export interface Account {
   address?: string;
   contact?: string;
   isOwnerAccount: boolean;
+  openingBalance: number;
+  openingBalanceType: 'debit' | 'credit';
+  openingBalanceDate?: string;
+  openingTransaction?: string;
+  isArchived?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -41,33 +120,143 @@ export interface CreateAccountData {
   address?: string;
   contact?: string;
   isOwnerAccount: boolean;
+  openingBalance?: number;
+  openingBalanceType?: 'debit' | 'credit';
+  openingBalanceDate?: string;
+}
+
+// ?archived= filter: 'true' lists archived only, 'all' lists everything, default lists active
+export type ArchivedFilter = 'true' | 'all';
+
+// Body of a 409 response when a record is still referenced elsewhere
+export interface DependentsError {
+  message: string;
+  dependents: {
+    transactions?: Pick<Transaction, '_id' | 'transactionId' | 'date'>[];
+    transactionCount?: number;
+    accounts?: Pick<Account, '_id' | 'accountId' | 'name' | 'isArchived'>[];
+    recurringSchedules?: Pick<RecurringSchedule, '_id' | 'name'>[];
+    journalTemplates?: Pick<JournalTemplate, '_id' | 'name'>[];
+  };
 }
 
 export interface TransactionDetail {
   _id?: string;
   serialNo: number;
   account: Account | string;
+  party?: Party | string | null;
   description: string;
   amount: number;
   type: 'debit' | 'credit';
+  // Completed bank reconciliation that cleared (and locks) this line
+  reconciliation?: string | null;
 }
 
+export type VoucherType = 'cash_payment' | 'cash_receipt' | 'bank_payment' | 'bank_receipt' | 'journal' | 'contra';
+
+export const VOUCHER_TYPE_LABELS: Record<VoucherType, string> = {
+  cash_payment: 'Cash Payment',
+  cash_receipt: 'Cash Receipt',
+  bank_payment: 'Bank Payment',
+  bank_receipt: 'Bank Receipt',
+  journal: 'Journal',
+  contra: 'Contra',
+};
+
 export interface Transaction {
   _id: string;
   transactionId: number;
+  // Missing on entries posted before voucher types were introduced
+  voucherType?: VoucherType;
+  voucherNo?: string;
   date: string;
   details: TransactionDetail[];
   totalAmount: number;
   status: 'pending' | 'completed' | 'cancelled';
+  reversalOf?: TransactionLink | null;
+  reversedBy?: TransactionLink | null;
+  voidedAt?: string;
+  voidReason?: string;
+  yearEndClose?: number;
+  schedule?: string | null;
+  // Populated in the transaction list
+  createdBy?: TransactionCreator | string | null;
+  attachments?: Attachment[];
   createdAt: string;
   updatedAt: string;
 }
 
+// User who posted a transaction
+export interface TransactionCreator {
+  _id: string;
+  username: string;
+  name?: string;
+}
+
+export type TransactionSortField = 'transactionId' | 'date' | 'amount' | 'voucherNo' | 'createdAt';
+
+// Filters for the transaction list; amounts and dates are sent as typed
+export interface TransactionFilters {
+  accountId?: string;
+  accountType?: string;
+  ownerOnly?: 'true';
+  side?: 'debit' | 'credit';
+  minAmount?: string;
+  maxAmount?: string;
+  status?: Transaction['status'];
+  description?: string;
+  createdBy?: string;
+  startDate?: string;
+  endDate?: string;
+  voucherType?: VoucherType;
+}
+
+export interface TransactionListParams extends TransactionFilters {
+  page?: number;
+  limit?: number;
+  sortBy?: TransactionSortField;
+  sortOrder?: 'asc' | 'desc';
+}
+
+// Image or PDF attached to a transaction
+export interface Attachment {
+  _id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  uploadedBy?: string;
+  uploadedAt: string;
+}
+
+// Reference between a voided transaction and its reversing entry
+export interface TransactionLink {
+  _id: string;
+  transactionId: number;
+  date: string;
+}
+
+export interface VoidTransactionData {
+  date?: string;
+  reason?: string;
+}
+
+// Earlier version of a transaction, archived on each update
+export interface TransactionRevision {
+  _id: string;
+  version: number;
+  date: string;
+  details: TransactionDetail[];
+  totalAmount: number;
+  changedAt: string;
+}
+
 // Create Transaction Interface (what we send to backend)
 export interface CreateTransactionData {
   date: string;
+  voucherType?: VoucherType;
   details: {
     account: string;
+    party?: string;
     description: string;
     amount: number;
     type: 'debit' | 'credit';
@@ -83,6 +272,18 @@ export interface Party {
   updatedAt: string;
 }
 
+// Balances are debits minus credits, so a positive balance is owed to us
+export interface PartyStatement {
+  party: Party;
+  from: string | null;
+  to: string | null;
+  openingBalance: number;
+  lines: LedgerLine[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
 export interface DashboardStats {
   totalAccounts: number;
   ownerAccounts: number;
@@ -92,37 +293,591 @@ export interface DashboardStats {
   accountsByType: Array<{ _id: string[]; count: number }>;
 }
 
+export interface LedgerLine {
+  transaction: string;
+  transactionId: number;
+  date: string;
+  status: Transaction['status'];
+  serialNo: number;
+  account: string;
+  accountName?: string;
+  party?: string;
+  partyName?: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+// Balances are positive when on the account's normal side
+export interface AccountLedger {
+  account: Account;
+  from: string | null;
+  to: string | null;
+  normalBalance: NormalBalance;
+  openingBalance: number;
+  lines: LedgerLine[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+export interface TrialBalanceAccount {
+  account: Account;
+  debit: number;
+  credit: number;
+  balanceDebit: number;
+  balanceCredit: number;
+}
+
+export interface TrialBalanceGroup {
+  type: AccountType;
+  accounts: TrialBalanceAccount[];
+  totalDebit: number;
+  totalCredit: number;
+}
+
+export interface TrialBalance {
+  asOf: string | null;
+  groups: TrialBalanceGroup[];
+  totalDebit: number;
+  totalCredit: number;
+  isBalanced: boolean;
+}
+
+export interface StatementLine {
+  account: Account;
+  amount: number;
+  previousAmount: number;
+}
+
+export interface StatementGroup {
+  type: AccountType;
+  accounts: StatementLine[];
+  total: number;
+  previousTotal: number;
+}
+
+// Amounts are shown on each section's normal side
+export interface StatementSection {
+  groups: StatementGroup[];
+  total: number;
+  previousTotal: number;
+}
+
+export interface IncomeStatement {
+  from: string;
+  to: string;
+  previousFrom: string;
+  previousTo: string;
+  income: StatementSection;
+  expenses: StatementSection;
+  netProfit: number;
+  previousNetProfit: number;
+}
+
+export interface BalanceSheet {
+  asOf: string;
+  previousAsOf: string;
+  assets: StatementSection;
+  liabilities: StatementSection;
+  equity: StatementSection;
+  netProfit: number;
+  previousNetProfit: number;
+  totalEquity: number;
+  previousTotalEquity: number;
+  totalLiabilitiesAndEquity: number;
+  previousTotalLiabilitiesAndEquity: number;
+  isBalanced: boolean;
+}
+
+export interface CashFlowItem {
+  account: { _id: string; name: string };
+  amount: number;
+}
+
+export interface CashFlowPeriod {
+  start: string;
+  end: string;
+  openingCash: number;
+  inflows: CashFlowItem[];
+  outflows: CashFlowItem[];
+  totalInflow: number;
+  totalOutflow: number;
+  netChange: number;
+  closingCash: number;
+}
+
+export type CashFlowInterval = 'month' | 'week';
+
+export interface CashFlowReport {
+  from: string;
+  to: string;
+  interval: CashFlowInterval;
+  accounts: Pick<Account, '_id' | 'accountId' | 'name'>[];
+  openingCash: number;
+  periods: CashFlowPeriod[];
+  closingCash: number;
+}
+
+export interface AgingBuckets {
+  current: number;
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+}
+
+export type AgingSide = 'all' | 'receivable' | 'payable';
+
+// Amounts are debits minus credits: positive is owed to us, negative is owed by us
+export interface AgingRow extends AgingBuckets {
+  party: Party;
+  balance: number;
+}
+
+export interface AgingReport {
+  asOf: string;
+  side: AgingSide;
+  rows: AgingRow[];
+  totals: AgingBuckets & { balance: number };
+}
+
+export interface AgingParams {
+  asOf?: string;
+  side?: AgingSide;
+  accountType?: string;
+}
+
+// "exclude" drops voided transactions and their reversing entries from reports
+export type VoidedFilter = 'include' | 'exclude';
+
+export interface DateRangeParams {
+  from?: string;
+  to?: string;
+  voided?: VoidedFilter;
+}
+
+export type VoucherKind = 'payment' | 'receipt' | 'journal';
+
+export interface VoucherLine {
+  serialNo: number;
+  accountName: string;
+  accountNo: string;
+  ownerAccount: boolean;
+  partyName: string;
+  description: string;
+  debit: number;
+  credit: number;
+}
+
+// Currency symbol and the unit names voucher amounts are spelled out in
+export interface CurrencyDetails {
+  symbol: string;
+  unit: string;
+  units: string;
+  subunit: string;
+  subunits: string;
+}
+
+export interface CompanyDetails {
+  name: string;
+  address: string;
+  phone: string;
+  email: string;
+  currency: CurrencyDetails;
+}
+
+export interface Voucher {
+  kind: VoucherKind;
+  title: string;
+  transaction: string;
+  transactionId: number;
+  voucherNo: string;
+  date: string;
+  status: Transaction['status'];
+  partyName: string;
+  lines: VoucherLine[];
+  totalDebit: number;
+  totalCredit: number;
+  amount: number;
+  amountInWords: string;
+  company: CompanyDetails;
+}
+
+// Number format of one voucher type's series, e.g. CPV-{YYYY}-{####}
+export interface VoucherSeries {
+  voucherType: VoucherType;
+  label: string;
+  format: string;
+  defaultFormat: string;
+  nextNumber: string;
+}
+
+// Global search hits, grouped by record type and best match first
+export interface TransactionSearchHit {
+  _id: string;
+  transactionId: number;
+  voucherNo?: string;
+  date: string;
+  status: Transaction['status'];
+  amount: number;
+  description?: string;
+  score: number;
+  matchedOn: 'transactionId' | 'voucherNo' | 'amount' | 'description';
+}
+
+export interface AccountSearchHit {
+  _id: string;
+  name: string;
+  accountNo?: string;
+  typeName: string | null;
+  isOwnerAccount: boolean;
+  isArchived?: boolean;
+  score: number;
+  matchedOn: 'name' | 'accountNo';
+}
+
+export interface PartySearchHit {
+  _id: string;
+  name: string;
+  contact?: string;
+  score: number;
+  matchedOn: 'name';
+}
+
+export interface SearchResults {
+  query: string;
+  transactions: TransactionSearchHit[];
+  accounts: AccountSearchHit[];
+  parties: PartySearchHit[];
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel',
+  pdf: 'PDF',
+};
+
+// Reports page filters: one account, owner accounts only, or every account
+export interface LedgerParams extends DateRangeParams {
+  account?: string;
+  ownerOnly?: boolean;
+}
+
+export interface LedgerExportParams extends LedgerParams {
+  format: ExportFormat;
+}
+
+export type AuditEntity = 'Account' | 'AccountType' | 'Party' | 'Transaction';
+export type AuditAction = 'create' | 'update' | 'delete' | 'archive' | 'restore' | 'void';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  Account: 'Account',
+  AccountType: 'Account Type',
+  Party: 'Party',
+  Transaction: 'Transaction',
+};
+
+// One changed field; before is null on create and after is null on delete
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  _id: string;
+  entity: AuditEntity;
+  entityId: string;
+  entityLabel?: string;
+  action: AuditAction;
+  user?: string;
+  username?: string;
+  changes: AuditChange[];
+  timestamp: string;
+}
+
+export interface AuditParams extends DateRangeParams {
+  entity?: AuditEntity;
+  entityId?: string;
+  user?: string;
+  action?: AuditAction;
+  page?: number;
+  limit?: number;
+}
+
+export interface AuditUser {
+  _id: string;
+  username: string;
+}
+
+export interface FiscalMonth {
+  month: number;
+  name: string;
+  isLocked: boolean;
+  lockedAt: string | null;
+  lockedBy: Pick<User, '_id' | 'username' | 'name'> | null;
+}
+
+export interface FiscalYearStatus {
+  year: number;
+  months: FiscalMonth[];
+  closingTransaction: Transaction | null;
+}
+
+export type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  daily: 'Day',
+  weekly: 'Week',
+  monthly: 'Month',
+  yearly: 'Year',
+};
+
+// Line of a schedule's template; serial numbers are assigned when it posts
+export type TemplateDetail = Omit<TransactionDetail, '_id' | 'serialNo'>;
+
+export interface RecurringSchedule {
+  _id: string;
+  name: string;
+  frequency: RecurringFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string | null;
+  maxOccurrences?: number | null;
+  transactionStatus: 'pending' | 'completed';
+  voucherType: VoucherType;
+  details: TemplateDetail[];
+  nextIndex: number;
+  skippedDates: string[];
+  isActive: boolean;
+  lastRunAt?: string;
+  lastError?: string;
+  nextRunDate: string | null;
+  isFinished: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Line of a journal template; the amount is an optional default
+export type JournalTemplateDetail = Omit<TemplateDetail, 'amount'> & { amount?: number | null };
+
+export interface JournalTemplate {
+  _id: string;
+  name: string;
+  details: JournalTemplateDetail[];
+  createdBy?: { _id: string; username: string; name?: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateJournalTemplateData {
+  name: string;
+  details: {
+    account: string;
+    party?: string;
+    description: string;
+    amount?: number;
+    type: 'debit' | 'credit';
+  }[];
+}
+
+export interface RecurringOccurrence {
+  index: number;
+  date: string;
+  skipped: boolean;
+}
+
+export interface CreateRecurringScheduleData {
+  name: string;
+  frequency: RecurringFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string | null;
+  maxOccurrences?: number | null;
+  transactionStatus: 'pending' | 'completed';
+  voucherType?: VoucherType;
+  isActive?: boolean;
+  details: CreateTransactionData['details'];
+}
+
+// One bank statement line; positive amounts are money in, negative money out
+export interface BankStatementRow {
+  date: string;
+  description: string;
+  amount: number;
+  reference?: string;
+  bankTransactionId?: string;
+}
+
+export type StatementFormat = 'ofx' | 'qif' | 'mt940';
+
+// Result of parsing an OFX, QIF or MT940 file; line numbers refer to the uploaded file
+export interface ParsedStatement {
+  format: StatementFormat;
+  rows: (BankStatementRow & { line: number; payee?: string })[];
+  errors: { line: number; message: string }[];
+  accountNumber?: string;
+}
+
+export interface BankImportPreviewRow extends Partial<BankStatementRow> {
+  row: number;
+  fingerprint?: string;
+  // transactionId of the earlier import of this line
+  duplicateOf?: number;
+  error?: string;
+}
+
+export interface BankImportPreview {
+  account: { _id: string; name: string };
+  rows: BankImportPreviewRow[];
+}
+
+export interface BankImportResult {
+  message: string;
+  created: { row: number; transactionId: number; voucherNo?: string }[];
+  skipped: { row: number; reason: string }[];
+}
+
+export type ReconciliationStatus = 'draft' | 'completed';
+
+// Ledger line of the reconciled account; money in is positive
+export interface ReconciliationLine {
+  transaction: string;
+  transactionId: number;
+  date: string;
+  detail: string;
+  description: string;
+  partyName?: string;
+  amount: number;
+  cleared?: boolean;
+}
+
+export interface ReconciliationSummary {
+  openingBalance: number;
+  clearedDeposits: number;
+  clearedPayments: number;
+  clearedBalance: number;
+  difference: number;
+}
+
+export interface Reconciliation {
+  _id: string;
+  account: { _id: string; name: string; accountNo?: string; branch?: string };
+  statementDate: string;
+  statementBalance: number;
+  openingBalance: number;
+  status: ReconciliationStatus;
+  clearedBalance?: number;
+  completedAt?: string;
+  completedBy?: { _id: string; username: string; name?: string } | null;
+  createdAt: string;
+}
+
+export interface ReconciliationDetail extends Omit<Reconciliation, 'clearedBalance'>, ReconciliationSummary {
+  lines: ReconciliationLine[];
+}
+
+export interface ReconciliationReport {
+  reconciliation: Reconciliation;
+  statementBalance: number;
+  depositsInTransit: ReconciliationLine[];
+  outstandingPayments: ReconciliationLine[];
+  totalDeposits: number;
+  totalPayments: number;
+  adjustedStatementBalance: number;
+  bookBalance: number;
+  difference: number;
+}
+
+export interface CreateReconciliationData {
+  account: string;
+  statementDate: string;
+  statementBalance: number;
+}
+
+// Auth API
+export const authAPI = {
+  login: (username: string, password: string): Promise<AxiosResponse<LoginResponse>> =>
+    api.post('/auth/login', { username, password }),
+  me: (): Promise<AxiosResponse<User>> => api.get('/auth/me'),
+};
+
+// Users API (admin only)
+export const userAPI = {
+  getAll: (): Promise<AxiosResponse<User[]>> => api.get('/users'),
+  create: (data: UserFormData): Promise<AxiosResponse<User>> => api.post('/users', data),
+  update: (id: string, data: Partial<UserFormData>): Promise<AxiosResponse<User>> => api.put(`/users/${id}`, data),
+  delete: (id: string): Promise<AxiosResponse<{ message: string }>> => api.delete(`/users/${id}`),
+};
+
 // Account Types API
 export const accountTypeAPI = {
-  getAll: (): Promise<AxiosResponse<AccountType[]>> => api.get('/account-types'),
+  getAll: (archived?: ArchivedFilter): Promise<AxiosResponse<AccountType[]>> =>
+    api.get('/account-types', { params: { archived } }),
   create: (data: Partial<AccountType>): Promise<AxiosResponse<AccountType>> => api.post('/account-types', data),
   update: (id: string, data: Partial<AccountType>): Promise<AxiosResponse<AccountType>> => api.put(`/account-types/${id}`, data),
   delete: (id: string): Promise<AxiosResponse<{ message: string }>> => api.delete(`/account-types/${id}`),
+  archive: (id: string): Promise<AxiosResponse<AccountType>> => api.post(`/account-types/${id}/archive`),
+  restore: (id: string): Promise<AxiosResponse<AccountType>> => api.post(`/account-types/${id}/restore`),
 };
 
 // Accounts API
 export const accountAPI = {
-  getAll: (): Promise<AxiosResponse<Account[]>> => api.get('/accounts'),
+  getAll: (archived?: ArchivedFilter): Promise<AxiosResponse<Account[]>> =>
+    api.get('/accounts', { params: { archived } }),
   getOwnerAccounts: (): Promise<AxiosResponse<Account[]>> => api.get('/accounts/owner'),
   getById: (id: string): Promise<AxiosResponse<Account>> => api.get(`/accounts/${id}`),
   create: (data: CreateAccountData): Promise<AxiosResponse<Account>> => api.post('/accounts', data),
   update: (id: string, data: Partial<CreateAccountData>): Promise<AxiosResponse<Account>> => api.put(`/accounts/${id}`, data),
   delete: (id: string): Promise<AxiosResponse<{ message: string }>> => api.delete(`/accounts/${id}`),
+  archive: (id: string): Promise<AxiosResponse<Account>> => api.post(`/accounts/${id}/archive`),
+  restore: (id: string): Promise<AxiosResponse<Account>> => api.post(`/accounts/${id}/restore`),
 };
 
 // Transactions API
 export const transactionAPI = {
-  getAll: (params = {}): Promise<AxiosResponse<{
+  getAll: (params: TransactionListParams = {}): Promise<AxiosResponse<{
     transactions: Transaction[];
     totalPages: number;
     currentPage: number;
     total: number;
   }>> => api.get('/transactions', { params }),
+  getCreators: (): Promise<AxiosResponse<TransactionCreator[]>> => api.get('/transactions/creators'),
   getById: (id: string): Promise<AxiosResponse<Transaction>> => api.get(`/transactions/${id}`),
   create: (data: CreateTransactionData): Promise<AxiosResponse<Transaction>> => api.post('/transactions', data),
+  update: (id: string, data: CreateTransactionData): Promise<AxiosResponse<Transaction>> => api.put(`/transactions/${id}`, data),
+  getHistory: (id: string): Promise<AxiosResponse<TransactionRevision[]>> => api.get(`/transactions/${id}/history`),
+  getVoucher: (id: string): Promise<AxiosResponse<Voucher>> => api.get(`/transactions/${id}/voucher`),
+  downloadVoucher: (id: string): Promise<AxiosResponse<Blob>> =>
+    api.get(`/transactions/${id}/voucher`, { params: { format: 'pdf' }, responseType: 'blob' }),
+  post: (id: string): Promise<AxiosResponse<Transaction>> => api.post(`/transactions/${id}/post`),
+  void: (id: string, data: VoidTransactionData = {}): Promise<AxiosResponse<Transaction>> =>
+    api.post(`/transactions/${id}/void`, data),
   delete: (id: string): Promise<AxiosResponse<{ message: string }>> => api.delete(`/transactions/${id}`),
 };
 
+// Transaction attachments API
+export const attachmentAPI = {
+  getAll: (transactionId: string): Promise<AxiosResponse<Attachment[]>> =>
+    api.get(`/transactions/${transactionId}/attachments`),
+  upload: (transactionId: string, file: File): Promise<AxiosResponse<Attachment>> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    // Override the JSON default so axios sends the form as is; the browser adds the boundary
+    return api.post(`/transactions/${transactionId}/attachments`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+  download: (transactionId: string, attachmentId: string): Promise<AxiosResponse<Blob>> =>
+    api.get(`/transactions/${transactionId}/attachments/${attachmentId}`, { responseType: 'blob' }),
+  delete: (transactionId: string, attachmentId: string): Promise<AxiosResponse<{ message: string }>> =>
+    api.delete(`/transactions/${transactionId}/attachments/${attachmentId}`),
+};
+
 // Parties API
 export const partyAPI = {
   getAll: (): Promise<AxiosResponse<Party[]>> => api.get('/parties'),
@@ -130,6 +885,123 @@ export const partyAPI = {
   create: (data: Partial<Party>): Promise<AxiosResponse<Party>> => api.post('/parties', data),
   update: (id: string, data: Partial<Party>): Promise<AxiosResponse<Party>> => api.put(`/parties/${id}`, data),
   delete: (id: string): Promise<AxiosResponse<{ message: string }>> => api.delete(`/parties/${id}`),
+  getStatement: (id: string, params: DateRangeParams = {}): Promise<AxiosResponse<PartyStatement>> =>
+    api.get(`/parties/${id}/statement`, { params }),
+};
+
+// Reports API
+export const reportAPI = {
+  getLedger: (accountId: string, params: DateRangeParams = {}): Promise<AxiosResponse<AccountLedger>> =>
+    api.get(`/reports/ledger/${accountId}`, { params }),
+  getLedgers: (params: LedgerParams = {}): Promise<AxiosResponse<AccountLedger[]>> =>
+    api.get('/reports/ledger', { params }),
+  exportLedger: (params: LedgerExportParams): Promise<AxiosResponse<Blob>> =>
+    api.get('/reports/ledger/export', { params, responseType: 'blob' }),
+  getTrialBalance: (asOf?: string, voided?: VoidedFilter): Promise<AxiosResponse<TrialBalance>> =>
+    api.get('/reports/trial-balance', { params: { asOf, voided } }),
+  getIncomeStatement: (params: DateRangeParams): Promise<AxiosResponse<IncomeStatement>> =>
+    api.get('/reports/income-statement', { params }),
+  getBalanceSheet: (asOf?: string, compareAsOf?: string): Promise<AxiosResponse<BalanceSheet>> =>
+    api.get('/reports/balance-sheet', { params: { asOf, compareAsOf } }),
+  getCashFlow: (params: DateRangeParams & { interval: CashFlowInterval }): Promise<AxiosResponse<CashFlowReport>> =>
+    api.get('/reports/cash-flow', { params }),
+  getAging: (params: AgingParams = {}): Promise<AxiosResponse<AgingReport>> =>
+    api.get('/reports/aging', { params }),
+};
+
+// Fiscal Periods API
+export const periodAPI = {
+  getYear: (year: number): Promise<AxiosResponse<FiscalYearStatus>> =>
+    api.get('/periods', { params: { year } }),
+  lock: (year: number, month: number): Promise<AxiosResponse<FiscalMonth>> =>
+    api.post(`/periods/${year}/${month}/lock`),
+  unlock: (year: number, month: number): Promise<AxiosResponse<FiscalMonth>> =>
+    api.post(`/periods/${year}/${month}/unlock`),
+  closeYear: (year: number, retainedEarningsAccount?: string): Promise<AxiosResponse<Transaction>> =>
+    api.post(`/periods/${year}/close`, { retainedEarningsAccount }),
+  reopenYear: (year: number): Promise<AxiosResponse<{ message: string }>> =>
+    api.delete(`/periods/${year}/close`),
+};
+
+// Voucher Series API (formats editable by admins)
+export const voucherSeriesAPI = {
+  getAll: (): Promise<AxiosResponse<VoucherSeries[]>> => api.get('/voucher-series'),
+  update: (voucherType: VoucherType, format: string): Promise<AxiosResponse<VoucherSeries>> =>
+    api.put(`/voucher-series/${voucherType}`, { format }),
+};
+
+// Search API
+export const searchAPI = {
+  search: (q: string, limit?: number): Promise<AxiosResponse<SearchResults>> =>
+    api.get('/search', { params: { q, limit } }),
+};
+
+// Recurring Schedules API
+export const recurringAPI = {
+  getAll: (): Promise<AxiosResponse<RecurringSchedule[]>> => api.get('/recurring-schedules'),
+  create: (data: CreateRecurringScheduleData): Promise<AxiosResponse<RecurringSchedule>> =>
+    api.post('/recurring-schedules', data),
+  update: (id: string, data: Partial<CreateRecurringScheduleData>): Promise<AxiosResponse<RecurringSchedule>> =>
+    api.put(`/recurring-schedules/${id}`, data),
+  delete: (id: string): Promise<AxiosResponse<{ message: string }>> => api.delete(`/recurring-schedules/${id}`),
+  preview: (id: string, count?: number): Promise<AxiosResponse<RecurringOccurrence[]>> =>
+    api.get(`/recurring-schedules/${id}/preview`, { params: { count } }),
+  skip: (id: string, date: string): Promise<AxiosResponse<RecurringOccurrence[]>> =>
+    api.post(`/recurring-schedules/${id}/skip`, { date }),
+  unskip: (id: string, date: string): Promise<AxiosResponse<RecurringOccurrence[]>> =>
+    api.delete(`/recurring-schedules/${id}/skip/${date}`),
+  run: (id: string): Promise<AxiosResponse<{ message: string; posted: number }>> =>
+    api.post(`/recurring-schedules/${id}/run`),
+};
+
+// Journal Templates API
+export const templateAPI = {
+  getAll: (): Promise<AxiosResponse<JournalTemplate[]>> => api.get('/journal-templates'),
+  create: (data: CreateJournalTemplateData): Promise<AxiosResponse<JournalTemplate>> =>
+    api.post('/journal-templates', data),
+  update: (id: string, data: Partial<CreateJournalTemplateData>): Promise<AxiosResponse<JournalTemplate>> =>
+    api.put(`/journal-templates/${id}`, data),
+  delete: (id: string): Promise<AxiosResponse<{ message: string }>> => api.delete(`/journal-templates/${id}`),
+};
+
+// Bank Statement Import API
+export const bankImportAPI = {
+  parse: (content: string, dateOrder?: 'MDY' | 'DMY'): Promise<AxiosResponse<ParsedStatement>> =>
+    api.post('/bank-import/parse', { content, dateOrder }),
+  preview: (account: string, rows: BankStatementRow[]): Promise<AxiosResponse<BankImportPreview>> =>
+    api.post('/bank-import/preview', { account, rows }),
+  commit: (
+    account: string,
+    rows: (BankStatementRow & { contraAccount?: string })[]
+  ): Promise<AxiosResponse<BankImportResult>> => api.post('/bank-import/commit', { account, rows }),
+};
+
+// Bank Reconciliation API
+export const reconciliationAPI = {
+  getAll: (account?: string): Promise<AxiosResponse<Reconciliation[]>> =>
+    api.get('/reconciliations', { params: { account } }),
+  getById: (id: string): Promise<AxiosResponse<ReconciliationDetail>> => api.get(`/reconciliations/${id}`),
+  getReport: (id: string): Promise<AxiosResponse<ReconciliationReport>> => api.get(`/reconciliations/${id}/report`),
+  create: (data: CreateReconciliationData): Promise<AxiosResponse<ReconciliationDetail>> =>
+    api.post('/reconciliations', data),
+  update: (
+    id: string,
+    data: { statementDate?: string; statementBalance?: number; clearedLines?: string[] }
+  ): Promise<AxiosResponse<ReconciliationDetail>> => api.put(`/reconciliations/${id}`, data),
+  complete: (id: string): Promise<AxiosResponse<ReconciliationDetail>> =>
+    api.post(`/reconciliations/${id}/complete`),
+  delete: (id: string): Promise<AxiosResponse<{ message: string }>> => api.delete(`/reconciliations/${id}`),
+};
+
+// Audit API
+export const auditAPI = {
+  getAll: (params: AuditParams = {}): Promise<AxiosResponse<{
+    entries: AuditEntry[];
+    totalPages: number;
+    currentPage: number;
+    total: number;
+  }>> => api.get('/audit', { params }),
+  getUsers: (): Promise<AxiosResponse<AuditUser[]>> => api.get('/audit/users'),
 };
 
 // Dashboard API
@@ -0,0 +1,8 @@
+import dayjs, { Dayjs } from 'dayjs';
+
+// Entry dates are sent as YYYY-MM-DD, which the server stores as midnight UTC, so an entry
+// lands in the period and voucher year of the day picked whatever the user's time zone
+export const toDateParam = (date: Dayjs) => date.format('YYYY-MM-DD');
+
+// The day a stored entry date stands for, as a local date for the pickers
+export const fromStoredDate = (value: string) => dayjs(value.slice(0, 10));
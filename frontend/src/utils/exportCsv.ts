@@ -0,0 +1,25 @@
+import { downloadBlob } from './download';
+
+type CsvValue = string | number | null | undefined;
+
+// Spreadsheets run cells starting with these characters as formulas; plain numbers are left alone
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+// Quote a value when it contains a delimiter, quote or line break, and prefix
+// text that a spreadsheet would read as a formula with ' so it stays text
+const escapeCsvValue = (value: CsvValue) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (FORMULA_START.test(text) && !PLAIN_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: CsvValue[][]) =>
+  [headers, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+
+// Build a CSV file in the browser and start a download
+export const downloadCsv = (filename: string, headers: string[], rows: CsvValue[][]) => {
+  downloadBlob(filename, new Blob([toCsv(headers, rows)], { type: 'text/csv;charset=utf-8;' }));
+};